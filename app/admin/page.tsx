@@ -0,0 +1,216 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { Session } from "@supabase/supabase-js";
+import { authFetch, getBrowserClient } from "@/lib/supabase-browser";
+import type { Latency, RunSummary } from "@/lib/run-stats";
+import type { RunStage } from "@/lib/telemetry";
+import AuthPanel from "../authpanel";
+
+const STAGE_LABELS: Record<RunStage, string> = {
+  save: 'Saving upload',
+  download: 'Download',
+  ffmpeg: 'ffmpeg',
+  transcription: 'Transcription',
+  analysis: 'Analysis',
+  llm: 'Judging (LLM)',
+  db: 'Database',
+};
+
+function formatMs(ms: number | null): string {
+  if (ms === null) return '–';
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
+
+function StatCard({ title, value, detail, color = 'var(--accent-primary)' }: { title: string; value: string; detail?: string; color?: string }) {
+  return (
+    <div className="glass-card" style={{ padding: '18px' }}>
+      <div style={{ fontSize: '11px', textTransform: 'uppercase', letterSpacing: '1.5px', color: 'var(--text-secondary)', marginBottom: '8px' }}>{title}</div>
+      <div style={{ fontSize: '28px', fontWeight: '800', color }}>{value}</div>
+      {detail && <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>{detail}</div>}
+    </div>
+  );
+}
+
+function latencyDetail(latency: Latency): string {
+  return `p50 ${formatMs(latency.p50)} · p95 ${formatMs(latency.p95)}`;
+}
+
+// Pipeline throughput, failures, latency and cost across all users, from
+// GET /api/admin/runs
+export default function Admin() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [authReady, setAuthReady] = useState(false);
+  const [summary, setSummary] = useState<RunSummary | null>(null);
+  const [days, setDays] = useState(7);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const auth = getBrowserClient().auth;
+    auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setAuthReady(true);
+    });
+    const { data: { subscription } } = auth.onAuthStateChange((_event, next) => setSession(next));
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const userId = session?.user.id;
+  useEffect(() => {
+    if (!userId) return;
+    const load = async () => {
+      setError(null);
+      try {
+        const res = await authFetch(`/api/admin/runs?days=${days}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+        setSummary(data);
+      } catch (err) {
+        setError(err instanceof Error && err.message ? err.message : "Failed to load run stats.");
+      }
+    };
+    load();
+  }, [userId, days]);
+
+  const busiestDay = Math.max(1, ...(summary?.perDay.map(d => d.runs) ?? []));
+
+  return (
+    <>
+      <nav className="navbar">
+        <Link href="/" className="nav-logo" style={{ textDecoration: 'none', color: 'inherit' }}>
+          <svg width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+            <path d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          Evala
+        </Link>
+        <div className="nav-links">
+          <Link href="/#upload" className="nav-link">Upload</Link>
+          <Link href="/dashboard" className="nav-link">Progress</Link>
+        </div>
+        <Link href="/#upload" className="nav-cta" style={{ textDecoration: 'none' }}>New recording</Link>
+      </nav>
+
+      <div className="container" style={{ paddingTop: '100px', paddingBottom: '100px', display: 'flex', flexDirection: 'column', gap: '16px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', flexWrap: 'wrap', gap: '12px' }}>
+          <div>
+            <h1 style={{ fontSize: '28px', fontWeight: '700', letterSpacing: '-0.5px' }}>Pipeline Health</h1>
+            <p style={{ color: 'var(--text-secondary)', fontSize: '14px' }}>
+              Every judging job across all users: where time, failures and money go.
+            </p>
+          </div>
+          {session && (
+            <select className="field" value={days} onChange={e => setDays(Number(e.target.value))} aria-label="Period">
+              {[1, 7, 30, 90].map(n => <option key={n} value={n}>Last {n === 1 ? 'day' : `${n} days`}</option>)}
+            </select>
+          )}
+        </div>
+
+        {authReady && !session ? (
+          <AuthPanel />
+        ) : error ? (
+          <p style={{ color: '#f87171', fontSize: '14px' }}>{error}</p>
+        ) : !summary ? (
+          <p style={{ color: 'var(--text-secondary)', fontSize: '14px' }}>Loading…</p>
+        ) : summary.runs === 0 ? (
+          <div className="glass-card" style={{ textAlign: 'center', padding: '48px 24px', color: 'var(--text-secondary)', fontSize: '14px' }}>
+            No jobs have run in this period.
+          </div>
+        ) : (
+          <>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '12px' }}>
+              <StatCard title="Jobs" value={String(summary.runs)} detail={`${(summary.runs / summary.days).toFixed(1)} a day`} />
+              <StatCard
+                title="Failure rate"
+                value={formatPercent(summary.failureRate)}
+                detail={summary.cancelled > 0 ? `${summary.failed} failed · ${summary.cancelled} cancelled` : `${summary.failed} failed`}
+                color={summary.failureRate > 0.1 ? '#f87171' : '#34d399'}
+              />
+              <StatCard title="Time to verdict" value={formatMs(summary.total.p50)} detail={latencyDetail(summary.total)} color="var(--accent-secondary)" />
+              <StatCard
+                title="Estimated cost"
+                value={`$${summary.estimatedCostUsd.toFixed(2)}`}
+                detail={summary.unpricedRuns > 0 ? `${summary.unpricedRuns} jobs on unpriced models not included` : `${summary.transcribedMinutes} min transcribed`}
+                color="#fbbf24"
+              />
+            </div>
+
+            <div className="glass-card">
+              <h3 style={{ fontSize: '14px', fontWeight: '600', color: 'var(--accent-primary)', marginBottom: '12px' }}>📊 Jobs per day</h3>
+              <div style={{ display: 'flex', alignItems: 'flex-end', gap: '4px', height: '120px' }}>
+                {summary.perDay.map(d => (
+                  <div
+                    key={d.date}
+                    title={`${d.date}: ${d.runs} jobs, ${d.failed} failed, ${d.cancelled} cancelled`}
+                    style={{ flex: 1, display: 'flex', flexDirection: 'column', justifyContent: 'flex-end', height: '100%' }}
+                  >
+                    <div style={{ height: `${(d.cancelled / busiestDay) * 100}%`, background: 'var(--text-secondary)', borderRadius: '3px 3px 0 0' }} />
+                    <div style={{
+                      height: `${(d.failed / busiestDay) * 100}%`, background: '#f87171',
+                      borderRadius: d.cancelled > 0 ? '0' : '3px 3px 0 0',
+                    }} />
+                    <div style={{
+                      height: `${((d.runs - d.failed - d.cancelled) / busiestDay) * 100}%`, background: 'var(--accent-primary)',
+                      borderRadius: d.failed + d.cancelled > 0 ? '0' : '3px 3px 0 0', minHeight: d.runs > 0 ? '2px' : '0',
+                    }} />
+                  </div>
+                ))}
+              </div>
+              <p style={{ fontSize: '12px', color: 'var(--text-secondary)', marginTop: '8px' }}>
+                Completed jobs in purple, failed in red, cancelled in grey. Days are UTC.
+              </p>
+            </div>
+
+            <div className="glass-card" style={{ overflowX: 'auto' }}>
+              <h3 style={{ fontSize: '14px', fontWeight: '600', color: 'var(--accent-primary)', marginBottom: '12px' }}>⏱️ Stages</h3>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+                <thead>
+                  <tr style={{ color: 'var(--text-secondary)', textAlign: 'left' }}>
+                    <th style={{ padding: '6px 8px', fontWeight: '500' }}>Stage</th>
+                    <th style={{ padding: '6px 8px', fontWeight: '500', textAlign: 'right' }}>Jobs</th>
+                    <th style={{ padding: '6px 8px', fontWeight: '500', textAlign: 'right' }}>p50</th>
+                    <th style={{ padding: '6px 8px', fontWeight: '500', textAlign: 'right' }}>p95</th>
+                    <th style={{ padding: '6px 8px', fontWeight: '500', textAlign: 'right' }}>Failed here</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.stages.map(s => (
+                    <tr key={s.stage} style={{ borderTop: '1px solid var(--border)' }}>
+                      <td style={{ padding: '6px 8px' }}>{STAGE_LABELS[s.stage]}</td>
+                      <td style={{ padding: '6px 8px', textAlign: 'right' }}>{s.runs}</td>
+                      <td style={{ padding: '6px 8px', textAlign: 'right' }}>{formatMs(s.p50)}</td>
+                      <td style={{ padding: '6px 8px', textAlign: 'right' }}>{formatMs(s.p95)}</td>
+                      <td style={{ padding: '6px 8px', textAlign: 'right', color: s.failures > 0 ? '#f87171' : 'var(--text-secondary)' }}>
+                        {s.failures} ({formatPercent(s.failureRate)})
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {summary.otherFailures > 0 && (
+                <p style={{ fontSize: '12px', color: 'var(--text-secondary)', marginTop: '8px' }}>
+                  {summary.otherFailures} failed job{summary.otherFailures === 1 ? '' : 's'} failed outside a timed stage.
+                </p>
+              )}
+            </div>
+
+            <div className="glass-card" style={{ fontSize: '14px', lineHeight: '1.6' }}>
+              <h3 style={{ fontSize: '14px', fontWeight: '600', color: 'var(--accent-primary)', marginBottom: '8px' }}>🪙 Usage</h3>
+              <p>{summary.transcribedMinutes} minutes of audio transcribed</p>
+              <p>{summary.promptTokens.toLocaleString()} prompt and {summary.completionTokens.toLocaleString()} completion tokens</p>
+              {summary.runs > summary.unpricedRuns && (
+                <p style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                  About ${(summary.estimatedCostUsd / (summary.runs - summary.unpricedRuns)).toFixed(4)} per job.
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/supabase";
+import { summarizeRuns, type RunAggregate } from "@/lib/run-stats";
+import { requestLogger } from "@/lib/logger";
+
+// GET: Pipeline health across all users for the admin page: throughput,
+// failure rate by stage, p50/p95 latency and cost over the last ?days= days
+// (1-90, default 7). Admins only; see the admins table.
+export async function GET(request: NextRequest) {
+    const auth = await authenticate(request);
+    if (!auth) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const days = params.has("days") ? Number(params.get("days")) : 7;
+    if (!Number.isInteger(days) || days < 1 || days > 90) {
+        return NextResponse.json({ error: "days must be a whole number from 1 to 90." }, { status: 400 });
+    }
+
+    try {
+        const { data: admin, error: adminError } = await auth.db
+            .from("admins")
+            .select("user_id")
+            .eq("user_id", auth.user.id)
+            .maybeSingle();
+        if (adminError) throw new Error(adminError.message);
+        if (!admin) {
+            return NextResponse.json({ error: "Admins only" }, { status: 403 });
+        }
+
+        const since = new Date();
+        since.setUTCHours(0, 0, 0, 0);
+        since.setUTCDate(since.getUTCDate() - (days - 1));
+        const { data, error } = await auth.db.rpc("summarize_judgment_runs", { p_since: since.toISOString() });
+        if (error) throw new Error(error.message);
+
+        return NextResponse.json(summarizeRuns(data as RunAggregate, days));
+    } catch (error: unknown) {
+        requestLogger(request).error("API error", { error });
+        return NextResponse.json({ error: "Failed to load run stats" }, { status: 500 });
+    }
+}
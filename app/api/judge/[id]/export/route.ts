@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/supabase";
+import { loadJudgment, loadSharedJudgment } from "@/lib/judgment-store";
+import { EXPORT_FORMATS, exportFilename, pdfReport, toExport, toMarkdown, type ExportFormat } from "@/lib/export";
+import { renderPdf } from "@/lib/pdf";
+import { requestLogger } from "@/lib/logger";
+
+// GET: Download a report as ?format=pdf|markdown|json (default pdf). Access
+// works like GET /api/judge/[id]: the owner, or anyone with a shared link.
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    const { searchParams } = request.nextUrl;
+
+    const format = EXPORT_FORMATS.find((f) => f.value === (searchParams.get("format") || "pdf"));
+    if (!format) {
+        return NextResponse.json(
+            { error: `format must be one of ${EXPORT_FORMATS.map((f) => f.value).join(", ")}.` },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const auth = await authenticate(request);
+        const judgment = (auth && await loadJudgment(auth.db, id))
+            || await loadSharedJudgment(id, searchParams.get("token"));
+
+        if (!judgment) {
+            return NextResponse.json({ error: "Judgment not found" }, { status: 404 });
+        }
+
+        const data = toExport(judgment);
+        const body: Record<ExportFormat, () => string | Uint8Array | Promise<Uint8Array>> = {
+            pdf: () => renderPdf(pdfReport(data)),
+            markdown: () => toMarkdown(data),
+            json: () => JSON.stringify(data, null, 2),
+        };
+
+        return new NextResponse(new Uint8Array(Buffer.from(await body[format.value]())), {
+            headers: {
+                "Content-Type": format.contentType,
+                "Content-Disposition": `attachment; filename="${exportFilename(judgment, format.value)}"`,
+                "Cache-Control": "private, no-store",
+            },
+        });
+    } catch (error: unknown) {
+        requestLogger(request).error("API error", { error });
+        return NextResponse.json({ error: "Failed to export judgment" }, { status: 500 });
+    }
+}
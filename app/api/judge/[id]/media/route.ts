@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/supabase";
+import { loadJudgment } from "@/lib/judgment-store";
+import { MEDIA_URL_TTL_SECONDS, mediaUrl } from "@/lib/media-store";
+import { requestLogger } from "@/lib/logger";
+
+// GET: A signed, time-limited URL for playing the judgment's original
+// recording. Only the owner can get one.
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const auth = await authenticate(request);
+    if (!auth) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    try {
+        const { id } = await params;
+        const judgment = await loadJudgment(auth.db, id);
+        if (!judgment) {
+            return NextResponse.json({ error: "Judgment not found" }, { status: 404 });
+        }
+        if (!judgment.storage_path) {
+            return NextResponse.json({ error: "The recording was not kept for this judgment" }, { status: 404 });
+        }
+
+        const url = await mediaUrl(auth.db, judgment.storage_path);
+        const expiresAt = new Date(Date.now() + MEDIA_URL_TTL_SECONDS * 1000).toISOString();
+        return NextResponse.json({ url, expiresAt }, { headers: { "Cache-Control": "private, no-store" } });
+    } catch (error: unknown) {
+        requestLogger(request).error("API error", { error });
+        return NextResponse.json({ error: "Failed to load recording" }, { status: 500 });
+    }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import { authenticate, getServiceClient } from "@/lib/supabase";
+import { createJob } from "@/lib/jobs";
+import { runRejudgePipeline } from "@/lib/pipeline";
+import { loadRubric } from "@/lib/rubric-store";
+import { listVersions, loadJudgment } from "@/lib/judgment-store";
+import { getJudgeProvider, listJudgeModels } from "@/lib/providers";
+import { DEFAULT_FEEDBACK_LANGUAGE, isLanguageCode } from "@/lib/languages";
+import { correlationIdFrom, logger } from "@/lib/logger";
+import { createRun } from "@/lib/telemetry";
+import { chargeJudgment, checkRequestRate, clientAddress, getRateLimitStore, RateLimitError } from "@/lib/rate-limit";
+
+// POST: Judge a stored transcript again without re-uploading, from
+// { rubricId?, model?, feedbackLanguage? }. Defaults to the judgment's own
+// rubric and feedback language and the default model. Enqueues a job like POST /api/judge; the result is saved as the next
+// version of the same recording. Limited and counted against the quotas
+// like any other judgment. Every response carries X-Request-Id.
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const correlationId = correlationIdFrom(request);
+    const response = await rejudge(request, params, correlationId);
+    response.headers.set("X-Request-Id", correlationId);
+    return response;
+}
+
+async function rejudge(request: NextRequest, params: Promise<{ id: string }>, correlationId: string): Promise<NextResponse> {
+    const log = logger.child({ correlationId });
+    const auth = await authenticate(request);
+    if (!auth) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    let body: { rubricId?: unknown; model?: unknown; feedbackLanguage?: unknown } = {};
+    try {
+        const text = await request.text();
+        if (text) body = JSON.parse(text);
+    } catch {
+        return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+    }
+
+    try {
+        const limits = getRateLimitStore();
+        await checkRequestRate(limits, auth.user.id, clientAddress(request));
+
+        const { id } = await params;
+        const source = await loadJudgment(auth.db, id);
+        if (!source) {
+            return NextResponse.json({ error: "Judgment not found" }, { status: 404 });
+        }
+
+        const rubricId = typeof body.rubricId === "string" ? body.rubricId : source.rubric_id;
+        const rubric = await loadRubric(auth.db, rubricId);
+        if (!rubric) {
+            return NextResponse.json({ error: "Unknown rubric." }, { status: 400 });
+        }
+
+        const models = listJudgeModels();
+        const model = typeof body.model === "string" && body.model ? body.model : models[0];
+        if (!models.includes(model)) {
+            return NextResponse.json({ error: `Unknown model. Available: ${models.join(", ")}.` }, { status: 400 });
+        }
+
+        if (body.feedbackLanguage !== undefined && !isLanguageCode(body.feedbackLanguage)) {
+            return NextResponse.json({ error: "Unknown feedback language." }, { status: 400 });
+        }
+        const feedbackLanguage = body.feedbackLanguage ?? source.feedback_language ?? DEFAULT_FEEDBACK_LANGUAGE;
+
+        const versions = await listVersions(auth.db, source);
+        const version = Math.max(0, ...versions.map((v) => v.version ?? 1)) + 1;
+
+        await chargeJudgment(limits, auth.user.id);
+        const jobId = uuidv4();
+        const run = createRun(jobId, correlationId, log.child({ userId: auth.user.id }));
+        const job = createJob(jobId, source.video_filename, auth.user.id);
+        void runRejudgePipeline({
+            id: jobId, source, version, rubric, feedbackLanguage, provider: getJudgeProvider(model), db: getServiceClient(), userId: auth.user.id, run,
+        });
+        run.log.info(`Re-judge job enqueued for ${source.id} (version ${version}, ${model})`);
+
+        return NextResponse.json({ jobId, job }, { status: 202 });
+    } catch (error: unknown) {
+        if (error instanceof RateLimitError) {
+            return NextResponse.json({ error: error.message }, { status: 429, headers: { "Retry-After": String(error.retryAfter) } });
+        }
+        const errMsg = error instanceof Error ? error.message : String(error);
+        log.error("API error", { error: errMsg });
+        return NextResponse.json({ error: `Failed to re-judge: ${errMsg}` }, { status: 500 });
+    }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/supabase";
+import { deleteRecording, deleteVersion, loadJudgment, loadSharedJudgment, setVisibility } from "@/lib/judgment-store";
+import type { JudgmentVisibility } from "@/lib/judgment";
+import { requestLogger } from "@/lib/logger";
+
+// GET: One judgment. Owners get their own judgments; anyone else only gets
+// public reports, or unlisted ones when ?token= matches the share token.
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+
+    try {
+        const auth = await authenticate(request);
+        const judgment = (auth && await loadJudgment(auth.db, id))
+            || await loadSharedJudgment(id, request.nextUrl.searchParams.get("token"));
+
+        if (!judgment) {
+            return NextResponse.json({ error: "Judgment not found" }, { status: 404 });
+        }
+
+        return NextResponse.json(judgment);
+    } catch (error: unknown) {
+        requestLogger(request).error("API error", { error });
+        return NextResponse.json({ error: "Failed to fetch judgment" }, { status: 500 });
+    }
+}
+
+const VISIBILITIES: JudgmentVisibility[] = ["private", "unlisted", "public"];
+
+// PATCH: Change who can open the report, from { visibility }. Responds with
+// the new visibility and share token.
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const auth = await authenticate(request);
+    if (!auth) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    let body: { visibility?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+    }
+
+    const visibility = body?.visibility as JudgmentVisibility;
+    if (!VISIBILITIES.includes(visibility)) {
+        return NextResponse.json({ error: `visibility must be one of ${VISIBILITIES.join(", ")}.` }, { status: 400 });
+    }
+
+    const { id } = await params;
+    try {
+        const updated = await setVisibility(auth.db, id, visibility);
+        if (!updated) {
+            return NextResponse.json({ error: "Judgment not found" }, { status: 404 });
+        }
+        return NextResponse.json(updated);
+    } catch (error: unknown) {
+        requestLogger(request).error("API error", { error });
+        return NextResponse.json({ error: "Failed to update judgment" }, { status: 500 });
+    }
+}
+
+// DELETE: Remove a recording the user uploaded, with every re-judged version.
+// With ?scope=version only this version goes and the others are kept.
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const auth = await authenticate(request);
+    if (!auth) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const scope = request.nextUrl.searchParams.get("scope") || "recording";
+    if (scope !== "recording" && scope !== "version") {
+        return NextResponse.json({ error: "scope must be recording or version." }, { status: 400 });
+    }
+
+    const { id } = await params;
+    try {
+        const deleted = scope === "version" ? await deleteVersion(auth.db, id) : await deleteRecording(auth.db, id);
+        if (!deleted) {
+            return NextResponse.json({ error: "Judgment not found" }, { status: 404 });
+        }
+        return new NextResponse(null, { status: 204 });
+    } catch (error: unknown) {
+        requestLogger(request).error("API error", { error });
+        return NextResponse.json({ error: "Failed to delete judgment" }, { status: 500 });
+    }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/supabase";
+import { listVersions, loadJudgment } from "@/lib/judgment-store";
+import { requestLogger } from "@/lib/logger";
+
+// GET: Every version of the recording a judgment belongs to, oldest first
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const auth = await authenticate(request);
+    if (!auth) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    try {
+        const { id } = await params;
+        const judgment = await loadJudgment(auth.db, id);
+        if (!judgment) {
+            return NextResponse.json({ error: "Judgment not found" }, { status: 404 });
+        }
+        return NextResponse.json(await listVersions(auth.db, judgment));
+    } catch (error: unknown) {
+        requestLogger(request).error("API error", { error });
+        return NextResponse.json({ error: "Failed to fetch versions" }, { status: 500 });
+    }
+}
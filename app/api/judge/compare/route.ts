@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import { authenticate, getServiceClient } from "@/lib/supabase";
+import { loadJudgment } from "@/lib/judgment-store";
+import { parseFeedback, type Judgment } from "@/lib/judgment";
+import { criterionDeltas, diffWords, type Comparison } from "@/lib/compare";
+import { analyzeChanges } from "@/lib/pipeline";
+import { getJudgeProvider, modelId } from "@/lib/providers";
+import { chargeJudgment, checkRequestRate, clientAddress, getRateLimitStore, RateLimitError } from "@/lib/rate-limit";
+import { correlationIdFrom, logger, requestLogger } from "@/lib/logger";
+import { createRun, saveRun, type RunOutcome } from "@/lib/telemetry";
+
+async function loadPair(request: NextRequest, a: unknown, b: unknown) {
+    const auth = await authenticate(request);
+    if (!auth) {
+        return { response: NextResponse.json({ error: "Sign in required" }, { status: 401 }) };
+    }
+    if (typeof a !== "string" || typeof b !== "string" || !a || !b) {
+        return { response: NextResponse.json({ error: "Two judgment ids, a and b, are required." }, { status: 400 }) };
+    }
+    if (a === b) {
+        return { response: NextResponse.json({ error: "Pick two different judgments to compare." }, { status: 400 }) };
+    }
+
+    const [judgmentA, judgmentB] = await Promise.all([loadJudgment(auth.db, a), loadJudgment(auth.db, b)]);
+    if (!judgmentA || !judgmentB) {
+        return { response: NextResponse.json({ error: "Judgment not found" }, { status: 404 }) };
+    }
+    return { pair: [judgmentA, judgmentB] as [Judgment, Judgment], userId: auth.user.id };
+}
+
+// GET: Compare two of the user's judgments, ?a=<id>&b=<id>. Returns both
+// judgments with the score change per criterion (b - a) and a word-level
+// diff of the transcripts.
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const { pair, response } = await loadPair(request, searchParams.get("a"), searchParams.get("b"));
+        if (!pair) return response;
+
+        const [a, b] = pair;
+        const comparison: Comparison = {
+            a,
+            b,
+            scoreDelta: a.score !== null && b.score !== null ? b.score - a.score : null,
+            criteria: criterionDeltas(parseFeedback(a.feedback), parseFeedback(b.feedback)),
+            diff: diffWords(a.transcript, b.transcript),
+        };
+        return NextResponse.json(comparison);
+    } catch (error: unknown) {
+        requestLogger(request).error("API error", { error });
+        return NextResponse.json({ error: "Failed to compare judgments" }, { status: 500 });
+    }
+}
+
+// POST: Ask the judge model what changed between take A and take B, from
+// { a, b }. Kept separate from GET because it costs a model call: it is rate
+// limited and counts against the judgment quota like judging, and recorded in
+// judgment_runs. A client that disconnects cancels the call.
+export async function POST(request: NextRequest) {
+    const correlationId = correlationIdFrom(request);
+    const log = logger.child({ correlationId });
+    let body: { a?: unknown; b?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+    }
+
+    try {
+        const { pair, userId, response } = await loadPair(request, body.a, body.b);
+        if (!pair) return response;
+
+        const limits = getRateLimitStore();
+        await checkRequestRate(limits, userId, clientAddress(request));
+        await chargeJudgment(limits, userId);
+
+        const run = createRun(uuidv4(), correlationId, log.child({ userId }));
+        const provider = getJudgeProvider();
+        let outcome: Pick<RunOutcome, "status" | "error"> = { status: "failed" };
+        try {
+            const analysis = await analyzeChanges(pair[0], pair[1], { provider, run, signal: request.signal });
+            outcome = { status: "completed" };
+            return NextResponse.json({ analysis });
+        } catch (error: unknown) {
+            outcome = request.signal.aborted
+                ? { status: "cancelled" }
+                : { status: "failed", error: error instanceof Error ? error.message : String(error) };
+            throw error;
+        } finally {
+            await saveRun(getServiceClient(), run, { userId, kind: "compare", ...outcome, judgeModel: modelId(provider), transcriptionModel: null });
+        }
+    } catch (error: unknown) {
+        if (error instanceof RateLimitError) {
+            return NextResponse.json({ error: error.message }, { status: 429, headers: { "Retry-After": String(error.retryAfter) } });
+        }
+        const errMsg = error instanceof Error ? error.message : String(error);
+        log.error("API error", { error: errMsg });
+        return NextResponse.json({ error: `Failed to analyze changes: ${errMsg}` }, { status: 500 });
+    }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/supabase";
+import { cancelJob } from "@/lib/jobs";
+
+// POST: Cancel a running judging job. ffmpeg is killed, in-flight model calls
+// are aborted and temporary files removed; nothing is saved. Responds with the
+// cancelled job, or 409 when it had already finished or is being saved.
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const auth = await authenticate(request);
+    if (!auth) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const job = cancelJob(id, auth.user.id);
+
+    if (!job) {
+        return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    if (job.stage === "persisting") {
+        return NextResponse.json({ error: "The judgment is already being saved.", job }, { status: 409 });
+    }
+    if (job.stage !== "cancelled") {
+        return NextResponse.json({ error: `The job has already ${job.stage}.`, job }, { status: 409 });
+    }
+
+    return NextResponse.json(job);
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/supabase";
+import { getJob, isTerminal, subscribeJob, type JobSnapshot } from "@/lib/jobs";
+
+export const dynamic = "force-dynamic";
+
+// Comment lines keep idle connections open through proxies while a stage runs
+const KEEPALIVE_MS = 15_000;
+
+// GET: Server-Sent Events stream of a job's stage updates. Sends the current
+// snapshot immediately, then every change until the job completes, fails or is
+// cancelled. A job nobody reconnects to after the stream drops is cancelled.
+// EventSource can't send headers, so the token may come as ?access_token=.
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const auth = await authenticate(request, { allowQueryToken: true });
+    if (!auth) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const job = getJob(id, auth.user.id);
+
+    if (!job) {
+        return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => { };
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            let closed = false;
+
+            const close = () => {
+                if (closed) return;
+                closed = true;
+                cleanup();
+                try {
+                    controller.close();
+                } catch {
+                    // Already cancelled by the client
+                }
+            };
+
+            const send = (snapshot: JobSnapshot) => {
+                if (closed) return;
+                controller.enqueue(encoder.encode(`data: ${JSON.stringify(snapshot)}\n\n`));
+                if (isTerminal(snapshot.stage)) close();
+            };
+
+            const unsubscribe = subscribeJob(id, send);
+            const keepalive = setInterval(() => {
+                if (!closed) controller.enqueue(encoder.encode(": keepalive\n\n"));
+            }, KEEPALIVE_MS);
+
+            cleanup = () => {
+                unsubscribe();
+                clearInterval(keepalive);
+            };
+
+            request.signal.addEventListener("abort", close);
+            send(job);
+        },
+        cancel() {
+            cleanup();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+        },
+    });
+}
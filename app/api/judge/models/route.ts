@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { listJudgeModels } from "@/lib/providers";
+import { logger } from "@/lib/logger";
+
+// GET: Judge models that can be picked when re-judging, the default first
+export async function GET() {
+    try {
+        return NextResponse.json(listJudgeModels());
+    } catch (error: unknown) {
+        logger.error("API error", { error });
+        return NextResponse.json({ error: "Failed to list models" }, { status: 500 });
+    }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/supabase";
+import { getQuota, getRateLimitStore } from "@/lib/rate-limit";
+import { requestLogger } from "@/lib/logger";
+
+// GET: The user's judgments and minutes of audio used this UTC day and month,
+// with the limits, what's left (null for no limit) and when each resets.
+export async function GET(request: NextRequest) {
+    const auth = await authenticate(request);
+    if (!auth) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    try {
+        return NextResponse.json(await getQuota(getRateLimitStore(), auth.user.id));
+    } catch (error: unknown) {
+        requestLogger(request).error("API error", { error });
+        return NextResponse.json({ error: "Failed to load quota" }, { status: 500 });
+    }
+}
@@ -1,252 +1,266 @@
+import { unlink } from "fs/promises";
 import { NextRequest, NextResponse } from "next/server";
-import { writeFile, unlink } from "fs/promises";
 import { v4 as uuidv4 } from "uuid";
-import Groq from "groq-sdk";
-import { supabase } from "@/lib/supabase";
-import { join } from "path";
-import { tmpdir } from "os";
-
-// Allow large video uploads (50MB) - Configured in next.config.ts
-
-const groq = new Groq({ apiKey: process.env.GROQ_API_KEY });
-
-const { spawn } = require("child_process");
-const ffmpegPath = require("ffmpeg-static");
-
-// Extract audio from video using native ffmpeg spawn with static binary
-function extractAudio(videoPath: string, audioPath: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-        console.log(`[judge] CWD: ${process.cwd()}`);
-        console.log(`[judge] ffmpeg input: ${videoPath}`);
-        console.log(`[judge] ffmpeg output: ${audioPath}`);
-        console.log(`[judge] ffmpeg binary: ${ffmpegPath}`);
-
-        const args = [
-            "-i", videoPath,
-            "-vn",
-            "-acodec", "pcm_s16le",
-            "-ar", "16000",
-            "-ac", "1",
-            "-f", "wav",
-            "-y", // force overwrite
-            audioPath
-        ];
-
-        console.log(`[judge] Spawning: ${ffmpegPath} ${args.join(" ")}`);
-
-        const ffmpegProcess = spawn(ffmpegPath, args);
-
-        let stderr = "";
-        ffmpegProcess.stderr.on("data", (data: Buffer) => {
-            stderr += data.toString();
-        });
-
-        ffmpegProcess.on("close", (code: number) => {
-            if (code === 0) {
-                console.log("[judge] ffmpeg success");
-                resolve();
-            } else {
-                console.error(`[judge] ffmpeg failed with code ${code}`);
-                // Check if error is due to missing audio stream
-                if (stderr.includes("Output file does not contain any stream")) {
-                    reject(new Error("No audio track found in the video. Please upload a video with sound."));
-                } else {
-                    console.error(`[judge] ffmpeg stderr:\n${stderr}`);
-                    reject(new Error(`ffmpeg exited with code ${code}: ${stderr}`));
-                }
-            }
-        });
-
-        ffmpegProcess.on("error", (err: Error) => {
-            console.error("[judge] Failed to start ffmpeg process:", err);
-            reject(err);
-        });
-    });
-}
-
-// Transcribe audio using Groq Whisper
-async function transcribeAudio(audioPath: string): Promise<string> {
-    const fs = await import("fs");
-    // fs.createReadStream works with relative paths in CWD
-    const file = fs.createReadStream(audioPath);
-
-    const transcription = await groq.audio.transcriptions.create({
-        file: file,
-        model: "whisper-large-v3-turbo",
-        language: "en",
-        response_format: "text",
-    });
-
-    return transcription as unknown as string;
+import { authenticate, getServiceClient } from "@/lib/supabase";
+import { createJob } from "@/lib/jobs";
+import { findEarlierJudgment, runJudgePipeline, runTextPipeline, type MediaSource } from "@/lib/pipeline";
+import { loadRubric } from "@/lib/rubric-store";
+import { DEFAULT_RUBRIC_ID } from "@/lib/rubrics";
+import { JUDGMENT_COLUMNS, reportPath, type Judgment } from "@/lib/judgment";
+import { hashFile, hashText } from "@/lib/transcript-cache";
+import { claimUpload, UploadError } from "@/lib/uploads";
+import { checkMediaUrl } from "@/lib/media-download";
+import { correlationIdFrom, logger, requestLogger, type Logger } from "@/lib/logger";
+import { createRun, timeStage } from "@/lib/telemetry";
+import { chargeJudgment, checkRequestRate, clientAddress, getRateLimitStore, RateLimitError } from "@/lib/rate-limit";
+import { DEFAULT_FEEDBACK_LANGUAGE, isLanguageCode } from "@/lib/languages";
+import { decodeCursor, encodeCursor, parseHistoryQuery, type HistoryPage } from "@/lib/history";
+
+// Longest pasted script or transcript accepted, in characters
+const MAX_TEXT_LENGTH = 200_000;
+
+// POST: Enqueue a judging job. The input is one of
+//   { uploadId }        a finished video or audio upload (see /api/uploads)
+//   { url }             a media file the server downloads
+//   { text, title? }    a pasted script, or SRT/WebVTT subtitles
+// plus { rubricId?, platform?, language?, feedbackLanguage? }. The spoken
+// language is detected unless given; feedback is in English by default.
+// Progress is reported by GET /api/judge/jobs/[id] and its /events stream.
+// Content the user already had judged the same way isn't judged again: the
+// response is 200 with { duplicate: true, judgment, url } instead of a job.
+// Requests are rate limited per user and per address, and jobs count against
+// the user's quotas (see GET /api/judge/quota); over a limit the response is
+// 429 with Retry-After. Every response carries the X-Request-Id that the
+// job's log entries and its judgment_runs row are tagged with.
+export async function POST(request: NextRequest) {
+    const correlationId = correlationIdFrom(request);
+    const response = await enqueue(request, correlationId);
+    response.headers.set("X-Request-Id", correlationId);
+    return response;
 }
 
-async function judgeContent(
-    transcript: string
-): Promise<{ feedback: string; score: number }> {
-    const systemPrompt = `You are an expert content judge and coach. Evaluate spoken content from videos and provide actionable feedback.
-
-Evaluate on these criteria:
-1. Clarity - Is the message clear and easy to follow?
-2. Engagement - Is it interesting and attention-grabbing?
-3. Structure - Is it well-organized with a clear beginning, middle, and end?
-4. Delivery - Does the speaker seem confident and natural?
-5. Value - Does the content provide value to the audience?
-
-You MUST respond in this exact JSON format:
-{
-  "score": <number from 1-100>,
-  "summary": "<1-2 sentence overall summary>",
-  "clarity": { "score": <1-10>, "comment": "<1-2 sentences>" },
-  "engagement": { "score": <1-10>, "comment": "<1-2 sentences>" },
-  "structure": { "score": <1-10>, "comment": "<1-2 sentences>" },
-  "delivery": { "score": <1-10>, "comment": "<1-2 sentences>" },
-  "value": { "score": <1-10>, "comment": "<1-2 sentences>" },
-  "tips": ["<actionable tip 1>", "<actionable tip 2>", "<actionable tip 3>"]
-}
+async function enqueue(request: NextRequest, correlationId: string): Promise<NextResponse> {
+    const log = logger.child({ correlationId });
+    const auth = await authenticate(request);
+    if (!auth) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
 
-Be constructive, specific, and encouraging.`;
-
-    const response = await groq.chat.completions.create({
-        model: "llama-3.3-70b-versatile",
-        messages: [
-            { role: "system", content: systemPrompt },
-            {
-                role: "user",
-                content: `Please judge the following video transcript:\n\n"${transcript}"`,
-            },
-        ],
-        temperature: 0.7,
-        response_format: { type: "json_object" },
-    });
-
-    const content = response.choices[0]?.message?.content || "{}";
+    let body: {
+        uploadId?: unknown;
+        url?: unknown;
+        text?: unknown;
+        title?: unknown;
+        rubricId?: unknown;
+        platform?: unknown;
+        language?: unknown;
+        feedbackLanguage?: unknown;
+    };
     try {
-        const parsed = JSON.parse(content);
-        // Store the full structured JSON as the feedback string
-        return {
-            feedback: JSON.stringify(parsed),
-            score: Math.min(100, Math.max(1, parseInt(parsed.score) || 50)),
-        };
+        body = await request.json();
     } catch {
-        return { feedback: content, score: 50 };
+        return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
     }
-}
-
-export async function POST(request: NextRequest) {
-    let videoPath = "";
-    let audioPath = "";
 
-    try {
-        // ... (file parsing logic remains) ...
-        // 1. Parse the uploaded file
-        console.log("[judge] Parsing form data...");
-        const formData = await request.formData();
-        const file = formData.get("video") as File | null;
-
-        if (!file) {
-            return NextResponse.json({ error: "No video file provided" }, { status: 400 });
+    const inputs = [body.uploadId, body.url, body.text].filter((v) => v !== undefined).length;
+    if (inputs !== 1) {
+        return NextResponse.json({ error: "Provide exactly one of uploadId, url or text" }, { status: 400 });
+    }
+    if (body.uploadId !== undefined && typeof body.uploadId !== "string") {
+        return NextResponse.json({ error: "No video upload provided" }, { status: 400 });
+    }
+    if (body.url !== undefined) {
+        const urlError = checkMediaUrl(body.url);
+        if (urlError) return NextResponse.json({ error: urlError }, { status: 400 });
+    }
+    if (body.text !== undefined) {
+        if (typeof body.text !== "string" || !body.text.trim()) {
+            return NextResponse.json({ error: "text must not be empty." }, { status: 400 });
         }
-
-        console.log(`[judge] File received: ${file.name} (${file.size} bytes, type: ${file.type})`);
-
-        // Validate file size (50MB max)
-        if (file.size > 50 * 1024 * 1024) {
-            return NextResponse.json(
-                { error: "File too large. Maximum size is 50MB." },
-                { status: 400 }
-            );
+        if (body.text.length > MAX_TEXT_LENGTH) {
+            return NextResponse.json({ error: `text is too long. Maximum is ${MAX_TEXT_LENGTH} characters.` }, { status: 413 });
         }
+    }
+    // "auto" and a missing language both mean detect it
+    if (body.language !== undefined && body.language !== "auto" && !isLanguageCode(body.language)) {
+        return NextResponse.json({ error: "Unknown language." }, { status: 400 });
+    }
+    if (body.feedbackLanguage !== undefined && !isLanguageCode(body.feedbackLanguage)) {
+        return NextResponse.json({ error: "Unknown feedback language." }, { status: 400 });
+    }
+    const language = isLanguageCode(body.language) ? body.language : null;
+    const feedbackLanguage = isLanguageCode(body.feedbackLanguage) ? body.feedbackLanguage : DEFAULT_FEEDBACK_LANGUAGE;
 
-        // ... (validation checks) ...
-        const validTypes = [
-            "video/mp4",
-            "video/webm",
-            "video/quicktime",
-            "video/x-msvideo",
-            "video/x-matroska",
-        ];
-        if (!validTypes.includes(file.type)) {
-            return NextResponse.json(
-                { error: "Invalid file type. Please upload an MP4, WebM, MOV, AVI, or MKV file." },
-                { status: 400 }
-            );
+    // A claimed upload is deleted here on failure until the pipeline owns it
+    let claimedPath: string | null = null;
+    try {
+        // 1. Throttle before anything expensive happens
+        const limits = getRateLimitStore();
+        await checkRequestRate(limits, auth.user.id, clientAddress(request));
+
+        // Resolve the rubric to judge against (the built-in one if none was picked)
+        const rubric = await loadRubric(auth.db, typeof body.rubricId === "string" ? body.rubricId : null);
+        if (!rubric) {
+            return NextResponse.json({ error: "Unknown rubric." }, { status: 400 });
         }
 
-        // 2. Save video to temp directory
+        // Optional target platform, used to flag format problems (e.g. landscape video for Reels)
+        const platform = body.platform === "vertical" || body.platform === "horizontal" ? body.platform : null;
         const id = uuidv4();
-        const ext = file.name.split(".").pop() || "mp4";
-        const tempDir = tmpdir();
-        const videoPath = join(tempDir, `${id}.${ext}`);
-        const audioPath = join(tempDir, `${id}.wav`);
-
-        console.log(`[judge] Saving video to ${videoPath}`);
-        const bytes = await file.arrayBuffer();
-        await writeFile(videoPath, Buffer.from(bytes));
-        console.log("[judge] Video saved successfully.");
-
-        // 3. Extract audio with ffmpeg
-        console.log("[judge] Extracting audio with ffmpeg...");
-        await extractAudio(videoPath, audioPath);
-        console.log("[judge] Audio extracted successfully.");
-
-        // 4. Transcribe...
-        console.log("[judge] Transcribing with Groq Whisper...");
-        const transcript = await transcribeAudio(audioPath);
-        console.log(`[judge] Transcript received: "${String(transcript).substring(0, 100)}..."`);
-
-        if (!transcript || String(transcript).trim().length === 0) {
-            throw new Error("No speech detected in video.");
+        const run = createRun(id, correlationId, log.child({ userId: auth.user.id }));
+
+        // 2a. Pasted text skips straight to judging
+        if (typeof body.text === "string") {
+            const mediaHash = hashText(body.text);
+            const earlier = await findEarlierJudgment(auth.db, { userId: auth.user.id, mediaHash, rubric, platform: null, language, feedbackLanguage });
+            if (earlier) return duplicateResponse(earlier, log);
+
+            const title = typeof body.title === "string" && body.title.trim() ? body.title.trim().slice(0, 200) : "Pasted script";
+            await chargeJudgment(limits, auth.user.id);
+            const job = createJob(id, title, auth.user.id);
+            void runTextPipeline({ id, title, text: body.text, mediaHash, rubric, language, feedbackLanguage, db: getServiceClient(), userId: auth.user.id, run });
+            run.log.info("Text job enqueued");
+            return NextResponse.json({ jobId: id, job }, { status: 202 });
         }
 
-        // 5. Judge...
-        console.log("[judge] Sending to Groq LLM...");
-        const { feedback, score } = await judgeContent(String(transcript).trim());
+        // 2b. Take over the uploaded file, which must be complete, or leave
+        // the URL for the pipeline to download
+        let source: MediaSource;
+        if (typeof body.uploadId === "string") {
+            const uploadId = body.uploadId;
+            const upload = await timeStage(run, "save", () => claimUpload(uploadId, auth.user.id));
+            claimedPath = upload.path;
+            const mediaHash = await timeStage(run, "save", () => hashFile(upload.path));
+            run.log.info(`Upload ${uploadId} received: ${upload.filename}`);
+            const earlier = await findEarlierJudgment(auth.db, { userId: auth.user.id, mediaHash, rubric, platform, language, feedbackLanguage });
+            if (earlier) {
+                await unlink(upload.path).catch(() => { });
+                return duplicateResponse(earlier, log);
+            }
+            source = { kind: "upload", path: upload.path, filename: upload.filename, contentType: upload.type, mediaHash };
+        } else {
+            source = { kind: "url", url: String(body.url).trim() };
+        }
 
-        // 6. Save...
-        const { error: dbError } = await supabase.from("judgments").insert({
-            id, video_filename: file.name, transcript: String(transcript).trim(), feedback, score
+        // 3. Enqueue the job and hand processing off to the background pipeline.
+        // Its minutes of audio are charged once the pipeline knows the length.
+        await chargeJudgment(limits, auth.user.id);
+        const job = createJob(id, source.kind === "upload" ? source.filename : source.url, auth.user.id);
+        void runJudgePipeline({
+            id,
+            source,
+            rubric,
+            platform,
+            language,
+            feedbackLanguage,
+            db: getServiceClient(),
+            userId: auth.user.id,
+            run,
         });
-        if (dbError) console.error("[judge] Supabase error:", dbError);
+        claimedPath = null;
+        run.log.info("Job enqueued");
 
-        return NextResponse.json({
-            id, video_filename: file.name, transcript: String(transcript).trim(), feedback, score, created_at: new Date().toISOString()
-        });
+        return NextResponse.json({ jobId: id, job }, { status: 202 });
 
     } catch (error: unknown) {
-        const errMsg = error instanceof Error ? error.message : String(error);
-        console.error("[judge] ❌ API error:", errMsg);
-
-        if (errMsg.includes("No audio track found") || errMsg.includes("No speech detected")) {
-            return NextResponse.json({ error: errMsg }, { status: 422 });
+        if (claimedPath) await unlink(claimedPath).catch(() => { });
+        if (error instanceof RateLimitError) {
+            return NextResponse.json({ error: error.message }, { status: 429, headers: { "Retry-After": String(error.retryAfter) } });
         }
+        if (error instanceof UploadError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        const errMsg = error instanceof Error ? error.message : String(error);
+        log.error("API error", { error: errMsg });
 
         return NextResponse.json(
             { error: `Failed to process video: ${errMsg}` },
             { status: 500 }
         );
-    } finally {
-        try {
-            if (videoPath) await unlink(videoPath);
-            if (audioPath) await unlink(audioPath);
-        } catch { }
     }
 }
 
-// GET: Fetch past judgments
-export async function GET() {
+// Point at the earlier judgment instead of starting a job
+function duplicateResponse(judgment: Judgment, log: Logger) {
+    log.info(`Same content as judgment ${judgment.id}; not judging again`);
+    return NextResponse.json({ duplicate: true, judgment, url: reportPath(judgment) });
+}
+
+// GET: Page through the user's past judgments, newest first by default.
+// Supports full-text search (q), score and date ranges, filename and rubric
+// filters and sorting; see lib/history.ts. Row-level security limits the
+// query to the user's own rows.
+export async function GET(request: NextRequest) {
+    const auth = await authenticate(request);
+    if (!auth) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { query, errors } = parseHistoryQuery(request.nextUrl.searchParams);
+    if (!query) {
+        return NextResponse.json({ error: errors.join(" "), details: errors }, { status: 400 });
+    }
+
     try {
-        const { data, error } = await supabase
-            .from("judgments")
-            .select("*")
-            .order("created_at", { ascending: false })
-            .limit(20);
+        const byScore = query.sort === "score_desc" || query.sort === "score_asc";
+        const column = byScore ? "score" : "created_at";
+        const ascending = query.sort === "oldest" || query.sort === "score_asc";
+
+        let builder = auth.db.from("judgments").select(JUDGMENT_COLUMNS);
+
+        if (query.q) builder = builder.textSearch("search", query.q, { type: "websearch", config: "english" });
+        if (query.minScore !== undefined) builder = builder.gte("score", query.minScore);
+        if (query.maxScore !== undefined) builder = builder.lte("score", query.maxScore);
+        if (query.from) builder = builder.gte("created_at", new Date(query.from).toISOString());
+        if (query.to) builder = builder.lt("created_at", endOfDay(query.to));
+        if (query.filename) builder = builder.ilike("video_filename", `%${escapeLike(query.filename)}%`);
+        if (query.rubric) {
+            builder = query.rubric === DEFAULT_RUBRIC_ID ? builder.is("rubric_id", null) : builder.eq("rubric_id", query.rubric);
+        }
+        // Failed judgments have no score to sort by
+        if (byScore) builder = builder.not("score", "is", null);
+
+        // Keyset pagination: rows strictly after the cursor in (sort column, id) order
+        const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+        if (cursor) {
+            const op = ascending ? "gt" : "lt";
+            const value = JSON.stringify(cursor.value);
+            builder = builder.or(`${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${cursor.id})`);
+        }
+
+        const { data, error } = await builder
+            .order(column, { ascending })
+            .order("id", { ascending })
+            .limit(query.limit + 1);
 
         if (error) {
+            requestLogger(request).error("Supabase error", { error: error.message });
             return NextResponse.json({ error: "Failed to fetch judgments" }, { status: 500 });
         }
 
-        return NextResponse.json(data);
-    } catch {
+        const rows = data as unknown as Judgment[];
+        const items = rows.slice(0, query.limit);
+        const last = items[items.length - 1];
+        const page: HistoryPage<Judgment> = {
+            items,
+            nextCursor: rows.length > query.limit && last
+                ? encodeCursor({ value: byScore ? last.score! : last.created_at, id: last.id })
+                : null,
+        };
+        return NextResponse.json(page);
+    } catch (error: unknown) {
+        requestLogger(request).error("API error", { error });
         return NextResponse.json({ error: "Failed to fetch judgments" }, { status: 500 });
     }
 }
+
+// Exclusive upper bound for an inclusive "to" date
+function endOfDay(date: string): string {
+    const end = new Date(date);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(date)) end.setUTCDate(end.getUTCDate() + 1);
+    return end.toISOString();
+}
+
+function escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/supabase";
+import { requestLogger } from "@/lib/logger";
+import { DEFAULT_RUBRIC_ID, isRubricId } from "@/lib/rubrics";
+import { computeProgress, DEFAULT_TREND_WINDOW, type ScoredJudgmentRow } from "@/lib/stats";
+
+// How many of the latest judgments the dashboard looks at
+const MAX_JUDGMENTS = 500;
+
+// GET: Score trends over the user's recordings: the overall score and every
+// criterion over time with rolling averages, trend direction, and the best
+// and worst sessions. Optional ?window= (rolling average size, 2-20) and
+// ?rubric= (a rubric id, or "default") narrow it down.
+export async function GET(request: NextRequest) {
+    const auth = await authenticate(request);
+    if (!auth) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const window = params.has("window") ? Number(params.get("window")) : DEFAULT_TREND_WINDOW;
+    if (!Number.isInteger(window) || window < 2 || window > 20) {
+        return NextResponse.json({ error: "window must be a whole number from 2 to 20." }, { status: 400 });
+    }
+    const rubric = params.get("rubric");
+    if (rubric && rubric !== DEFAULT_RUBRIC_ID && !isRubricId(rubric)) {
+        return NextResponse.json({ error: `rubric must be a rubric id or "${DEFAULT_RUBRIC_ID}".` }, { status: 400 });
+    }
+
+    try {
+        let builder = auth.db
+            .from("judgments")
+            .select("id, source_id, version, video_filename, score, created_at, judgment_scores(criterion, name, score, min_score, max_score)")
+            .eq("status", "completed");
+        if (rubric) {
+            builder = rubric === DEFAULT_RUBRIC_ID ? builder.is("rubric_id", null) : builder.eq("rubric_id", rubric);
+        }
+
+        const { data, error } = await builder
+            .order("created_at", { ascending: false })
+            .limit(MAX_JUDGMENTS);
+
+        if (error) {
+            requestLogger(request).error("Supabase error", { error: error.message });
+            return NextResponse.json({ error: "Failed to compute stats" }, { status: 500 });
+        }
+
+        return NextResponse.json(computeProgress(data as unknown as ScoredJudgmentRow[], window));
+    } catch (error: unknown) {
+        requestLogger(request).error("API error", { error });
+        return NextResponse.json({ error: "Failed to compute stats" }, { status: 500 });
+    }
+}
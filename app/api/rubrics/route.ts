@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/supabase";
+import { createRubric, listRubrics } from "@/lib/rubric-store";
+import { parseRubricInput } from "@/lib/rubrics";
+import { requestLogger } from "@/lib/logger";
+
+// GET: The built-in rubric followed by the user's stored rubrics
+export async function GET(request: NextRequest) {
+    const auth = await authenticate(request);
+    if (!auth) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    try {
+        return NextResponse.json(await listRubrics(auth.db));
+    } catch (error: unknown) {
+        requestLogger(request).error("API error", { error });
+        return NextResponse.json({ error: "Failed to fetch rubrics" }, { status: 500 });
+    }
+}
+
+// POST: Create a rubric from { name, description?, criteria: [{ name, description, weight, min, max }] }
+export async function POST(request: NextRequest) {
+    const auth = await authenticate(request);
+    if (!auth) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+    }
+
+    const { rubric, errors } = parseRubricInput(body);
+    if (errors) {
+        return NextResponse.json({ error: errors.join(" "), details: errors }, { status: 400 });
+    }
+
+    try {
+        return NextResponse.json(await createRubric(auth.db, auth.user.id, rubric), { status: 201 });
+    } catch (error: unknown) {
+        requestLogger(request).error("API error", { error });
+        return NextResponse.json({ error: "Failed to save rubric" }, { status: 500 });
+    }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/supabase";
+import { appendChunk, deleteUpload, getUpload, UploadError, type UploadInfo } from "@/lib/uploads";
+import { requestLogger } from "@/lib/logger";
+
+function offsetHeaders(upload: UploadInfo): Record<string, string> {
+    return {
+        "Upload-Offset": String(upload.offset),
+        "Upload-Length": String(upload.size),
+        "Cache-Control": "no-store",
+    };
+}
+
+// HEAD: How much of the upload has arrived, in the Upload-Offset header.
+// Clients call this to find where to resume after a dropped connection.
+export async function HEAD(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const auth = await authenticate(request);
+    if (!auth) return new NextResponse(null, { status: 401 });
+
+    const { id } = await params;
+    const upload = await getUpload(id, auth.user.id);
+    if (!upload) return new NextResponse(null, { status: 404 });
+    return new NextResponse(null, { status: 200, headers: offsetHeaders(upload) });
+}
+
+// PATCH: Append the request body (application/offset+octet-stream) at the
+// offset given in Upload-Offset, which must match the bytes received so far.
+// Responds 204 with the new Upload-Offset.
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const auth = await authenticate(request);
+    if (!auth) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    if (request.headers.get("content-type") !== "application/offset+octet-stream") {
+        return NextResponse.json({ error: "Content-Type must be application/offset+octet-stream" }, { status: 415 });
+    }
+    // Number("") is 0, so a missing header has to be caught before converting it
+    const offsetHeader = request.headers.get("upload-offset")?.trim();
+    if (!offsetHeader || !/^\d+$/.test(offsetHeader) || !Number.isSafeInteger(Number(offsetHeader))) {
+        return NextResponse.json({ error: "Upload-Offset header must be a non-negative whole number" }, { status: 400 });
+    }
+    const offset = Number(offsetHeader);
+
+    const { id } = await params;
+    const log = requestLogger(request);
+    try {
+        const upload = await appendChunk(id, auth.user.id, offset, request.body, log);
+        return new NextResponse(null, { status: 204, headers: offsetHeaders(upload) });
+    } catch (error: unknown) {
+        if (error instanceof UploadError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        log.error("API error", { error });
+        return NextResponse.json({ error: "Failed to save upload chunk" }, { status: 500 });
+    }
+}
+
+// DELETE: Abandon an upload and remove what was received
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const auth = await authenticate(request);
+    if (!auth) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    try {
+        if (!(await deleteUpload(id, auth.user.id))) {
+            return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+        }
+        return new NextResponse(null, { status: 204 });
+    } catch (error: unknown) {
+        requestLogger(request).error("API error", { error });
+        return NextResponse.json({ error: "Failed to delete upload" }, { status: 500 });
+    }
+}
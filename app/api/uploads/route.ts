@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/supabase";
+import { checkUpload, createUpload } from "@/lib/uploads";
+import { checkQuota, getRateLimitStore, RateLimitError } from "@/lib/rate-limit";
+import { requestLogger } from "@/lib/logger";
+
+// POST: Start a resumable upload from { filename, type, size }. Responds with
+// the upload (offset 0) and its Location; send the bytes there with PATCH.
+// See lib/uploads.ts. Refused with 429 when the user's quota is used up, so
+// nobody uploads a large file only to have it turned away by POST /api/judge.
+export async function POST(request: NextRequest) {
+    const auth = await authenticate(request);
+    if (!auth) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    let body: { filename?: unknown; type?: unknown; size?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+    }
+
+    const errors = checkUpload({ filename: body.filename, type: body.type, size: body.size });
+    if (errors.length > 0) {
+        return NextResponse.json({ error: errors.join(" "), details: errors }, { status: 400 });
+    }
+
+    const log = requestLogger(request);
+    try {
+        await checkQuota(getRateLimitStore(), auth.user.id);
+        const upload = await createUpload(auth.user.id, {
+            filename: body.filename as string,
+            type: body.type as string,
+            size: body.size as number,
+        }, log);
+        return NextResponse.json(upload, { status: 201, headers: { Location: `/api/uploads/${upload.id}` } });
+    } catch (error: unknown) {
+        if (error instanceof RateLimitError) {
+            return NextResponse.json({ error: error.message }, { status: 429, headers: { "Retry-After": String(error.retryAfter) } });
+        }
+        log.error("API error", { error });
+        return NextResponse.json({ error: "Failed to start upload" }, { status: 500 });
+    }
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useState } from "react";
+import { getBrowserClient } from "@/lib/supabase-browser";
+
+// Email and password sign-in with Supabase Auth. The page picks up the new
+// session through onAuthStateChange.
+export default function AuthPanel() {
+  const [mode, setMode] = useState<"signin" | "signup">("signin");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const auth = getBrowserClient().auth;
+      if (mode === "signin") {
+        const { error } = await auth.signInWithPassword({ email, password });
+        if (error) setError(error.message);
+      } else {
+        const { data, error } = await auth.signUp({ email, password });
+        if (error) setError(error.message);
+        // Without a session the project requires email confirmation first
+        else if (!data.session) setNotice("Check your inbox to confirm your email, then sign in.");
+      }
+    } catch {
+      setError("Network error. Please check your connection and try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form className="glass-card" onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '12px', maxWidth: '380px', margin: '0 auto' }}>
+      <h3 style={{ fontSize: '16px', fontWeight: '600', color: 'white' }}>
+        {mode === "signin" ? "Sign in to judge your videos" : "Create an account"}
+      </h3>
+      <p style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+        Your uploads, transcripts and reports are private to your account.
+      </p>
+      <input className="field" type="email" required autoComplete="email" placeholder="you@example.com" value={email} onChange={e => setEmail(e.target.value)} />
+      <input
+        className="field"
+        type="password"
+        required
+        minLength={6}
+        autoComplete={mode === "signin" ? "current-password" : "new-password"}
+        placeholder="Password"
+        value={password}
+        onChange={e => setPassword(e.target.value)}
+      />
+      {error && <p style={{ color: '#f87171', fontSize: '13px' }}>{error}</p>}
+      {notice && <p style={{ color: '#34d399', fontSize: '13px' }}>{notice}</p>}
+      <button className="btn btn-primary" type="submit" disabled={busy}>
+        {busy ? "Please wait…" : mode === "signin" ? "Sign in" : "Create account"}
+      </button>
+      <button
+        className="btn btn-outline"
+        type="button"
+        onClick={() => { setMode(mode === "signin" ? "signup" : "signin"); setError(null); setNotice(null); }}
+      >
+        {mode === "signin" ? "New here? Create an account" : "Already have an account? Sign in"}
+      </button>
+    </form>
+  );
+}
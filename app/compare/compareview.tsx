@@ -0,0 +1,177 @@
+"use client";
+
+import { useEffect, useState, type CSSProperties } from "react";
+import Link from "next/link";
+import { parseFeedback, plainFeedback, type Judgment } from "@/lib/judgment";
+import type { ChangeAnalysis, Comparison, DiffPart } from "@/lib/compare";
+import { authFetch, getAccessToken } from "@/lib/supabase-browser";
+import { CategoryCards } from "../feedbackdisplay";
+
+const DIFF_STYLES: Record<DiffPart["type"], CSSProperties> = {
+  same: { color: 'var(--text-secondary)' },
+  added: { color: '#34d399', background: 'rgba(52, 211, 153, 0.12)', borderRadius: '3px' },
+  removed: { color: '#f87171', background: 'rgba(248, 113, 113, 0.12)', borderRadius: '3px', textDecoration: 'line-through' },
+};
+
+function TakeColumn({ label, judgment, deltas }: { label: string; judgment: Judgment; deltas?: Record<string, number> }) {
+  const feedback = parseFeedback(judgment.feedback);
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', minWidth: 0 }}>
+      <Link href={`/judgments/${judgment.id}`} className="glass-card" style={{ padding: '18px', textDecoration: 'none', color: 'inherit' }}>
+        <div style={{ fontSize: '11px', textTransform: 'uppercase', letterSpacing: '1.5px', color: 'var(--text-secondary)', marginBottom: '8px' }}>{label}</div>
+        <div style={{ fontSize: '28px', fontWeight: '800', color: 'var(--accent-primary)' }}>{judgment.score ?? '—'}</div>
+        <div style={{ fontSize: '13px', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+          {judgment.video_filename}{judgment.version && judgment.version > 1 ? ` · v${judgment.version}` : ''}
+        </div>
+        <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>{new Date(judgment.created_at).toLocaleString()}</div>
+      </Link>
+      {feedback ? (
+        <CategoryCards feedback={feedback} deltas={deltas} />
+      ) : (
+        <p style={{ fontSize: '13px', color: 'var(--text-secondary)', whiteSpace: 'pre-wrap' }}>{plainFeedback(judgment.feedback)}</p>
+      )}
+    </div>
+  );
+}
+
+// Two judgments side by side, from GET /api/judge/compare. The model's
+// write-up is only requested on demand since it costs a judge call.
+export default function CompareView({ a, b }: { a: string; b: string }) {
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [state, setState] = useState<"loading" | "ready" | "signed-out" | "error">("loading");
+  const [error, setError] = useState<string | null>(null);
+  const [analysis, setAnalysis] = useState<ChangeAnalysis | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setState("loading");
+      setAnalysis(null);
+      if (!(await getAccessToken())) {
+        setState("signed-out");
+        return;
+      }
+      try {
+        const res = await authFetch(`/api/judge/compare?${new URLSearchParams({ a, b })}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+        setComparison(data);
+        setState("ready");
+      } catch (err) {
+        setError(err instanceof Error && err.message ? err.message : "Failed to compare these judgments.");
+        setState("error");
+      }
+    };
+    load();
+  }, [a, b]);
+
+  const analyze = async () => {
+    setAnalyzing(true);
+    setAnalysisError(null);
+    try {
+      const res = await authFetch("/api/judge/compare", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ a, b }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setAnalysis(data.analysis);
+    } catch (err) {
+      setAnalysisError(err instanceof Error && err.message ? err.message : "Failed to analyze the changes.");
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  if (state !== "ready" || !comparison) {
+    return (
+      <div className="glass-card" style={{ textAlign: 'center', padding: '48px 24px' }}>
+        <p style={{ color: state === "error" ? '#f87171' : 'var(--text-secondary)', fontSize: '14px', marginBottom: '16px' }}>
+          {state === "loading"
+            ? "Loading comparison…"
+            : state === "signed-out"
+              ? "Sign in to compare your judgments."
+              : error}
+        </p>
+        {state !== "loading" && <Link href="/#history" className="btn btn-outline">Back to history</Link>}
+      </div>
+    );
+  }
+
+  const deltas: Record<string, number> = {};
+  for (const c of comparison.criteria) if (c.delta !== null) deltas[c.key] = c.delta;
+  const { scoreDelta } = comparison;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', flexWrap: 'wrap', gap: '12px' }}>
+        <div>
+          <h1 style={{ fontSize: '28px', fontWeight: '700', letterSpacing: '-0.5px' }}>Compare takes</h1>
+          <p style={{ color: 'var(--text-secondary)', fontSize: '14px' }}>
+            {scoreDelta === null
+              ? 'One of these takes has no score.'
+              : scoreDelta === 0
+                ? 'Both takes scored the same.'
+                : <>Take B scored <strong style={{ color: scoreDelta > 0 ? '#34d399' : '#f87171' }}>{scoreDelta > 0 ? '+' : ''}{scoreDelta}</strong> compared with take A.</>}
+          </p>
+        </div>
+        <Link href={`/compare?${new URLSearchParams({ a: b, b: a })}`} className="btn btn-outline">⇄ Swap</Link>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(320px, 1fr))', gap: '16px' }}>
+        <TakeColumn label="Take A" judgment={comparison.a} />
+        <TakeColumn label="Take B" judgment={comparison.b} deltas={deltas} />
+      </div>
+
+      <div className="glass-card">
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '12px', marginBottom: analysis || analysisError ? '12px' : 0 }}>
+          <h3 style={{ fontSize: '14px', fontWeight: '600', color: 'var(--accent-primary)' }}>🔍 What changed</h3>
+          <button className="btn btn-outline" onClick={analyze} disabled={analyzing}>
+            {analyzing ? 'Analyzing…' : analysis ? 'Ask again' : 'Explain the changes'}
+          </button>
+        </div>
+        {analysisError && <p style={{ color: '#f87171', fontSize: '13px' }}>{analysisError}</p>}
+        {analysis && (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '10px', fontSize: '14px', lineHeight: '1.6' }}>
+            <p style={{ color: '#cbd5e1' }}>{analysis.summary}</p>
+            <p style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+              Stronger take: <strong style={{ color: 'var(--text-primary)' }}>{analysis.better === 'tie' ? 'neither' : `Take ${analysis.better.toUpperCase()}`}</strong>
+            </p>
+            {analysis.improvements.length > 0 && (
+              <div>
+                <div style={{ fontSize: '13px', fontWeight: '600', color: '#34d399', marginBottom: '4px' }}>Better in take B</div>
+                <ul style={{ paddingLeft: '18px', color: 'var(--text-secondary)', fontSize: '13px' }}>
+                  {analysis.improvements.map((item, i) => <li key={i}>{item}</li>)}
+                </ul>
+              </div>
+            )}
+            {analysis.regressions.length > 0 && (
+              <div>
+                <div style={{ fontSize: '13px', fontWeight: '600', color: '#f87171', marginBottom: '4px' }}>Worse in take B</div>
+                <ul style={{ paddingLeft: '18px', color: 'var(--text-secondary)', fontSize: '13px' }}>
+                  {analysis.regressions.map((item, i) => <li key={i}>{item}</li>)}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="glass-card">
+        <h3 style={{ fontSize: '14px', fontWeight: '600', color: 'var(--accent-primary)', marginBottom: '12px' }}>📝 Transcript changes</h3>
+        <p style={{ fontSize: '14px', lineHeight: '1.8' }}>
+          {comparison.diff.map((part, i) => (
+            <span key={i}>
+              <span style={DIFF_STYLES[part.type]}>{part.text}</span>{' '}
+            </span>
+          ))}
+        </p>
+        <p style={{ fontSize: '12px', color: 'var(--text-secondary)', marginTop: '12px' }}>
+          <span style={DIFF_STYLES.removed}>Struck out</span> only in take A · <span style={DIFF_STYLES.added}>highlighted</span> only in take B
+        </p>
+      </div>
+    </div>
+  );
+}
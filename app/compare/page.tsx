@@ -0,0 +1,36 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import CompareView from "./compareview";
+
+export const metadata: Metadata = {
+  title: "Compare takes — Agentic Judge",
+  robots: { index: false },
+};
+
+export default async function ComparePage({ searchParams }: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}) {
+  const { a, b } = await searchParams;
+
+  return (
+    <>
+      <nav className="navbar">
+        <Link href="/" className="nav-logo" style={{ textDecoration: 'none', color: 'inherit' }}>
+          <svg width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+            <path d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          Evala
+        </Link>
+        <div className="nav-links">
+          <Link href="/#history" className="nav-link">History</Link>
+          <Link href="/dashboard" className="nav-link">Progress</Link>
+        </div>
+        <Link href="/#upload" className="nav-cta" style={{ textDecoration: 'none' }}>New recording</Link>
+      </nav>
+
+      <div className="container" style={{ paddingTop: '100px', paddingBottom: '100px' }}>
+        <CompareView a={typeof a === "string" ? a : ""} b={typeof b === "string" ? b : ""} />
+      </div>
+    </>
+  );
+}
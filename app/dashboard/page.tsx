@@ -0,0 +1,205 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { Session } from "@supabase/supabase-js";
+import { authFetch, getBrowserClient } from "@/lib/supabase-browser";
+import { DEFAULT_RUBRIC, type Rubric } from "@/lib/rubrics";
+import type { CriterionProgress, ProgressStats, SessionScore, Trend } from "@/lib/stats";
+import TrendChart from "../trendchart";
+import AuthPanel from "../authpanel";
+import { categoryMeta } from "../feedbackdisplay";
+
+const TREND_STYLES: Record<Trend["direction"], { label: string; color: string; arrow: string }> = {
+  improving: { label: 'Improving', color: '#34d399', arrow: '↗' },
+  regressing: { label: 'Regressing', color: '#f87171', arrow: '↘' },
+  steady: { label: 'Steady', color: 'var(--text-secondary)', arrow: '→' },
+};
+
+function TrendBadge({ trend }: { trend: Trend }) {
+  const style = TREND_STYLES[trend.direction];
+  return (
+    <span style={{
+      fontSize: '11px', fontWeight: '600', padding: '2px 8px', borderRadius: '100px',
+      color: style.color, border: `1px solid ${trend.direction === 'steady' ? 'rgba(255,255,255,0.1)' : `${style.color}40`}`,
+    }}>
+      {style.arrow} {style.label} {trend.delta > 0 ? '+' : ''}{trend.delta}
+    </span>
+  );
+}
+
+function SessionCard({ title, session }: { title: string; session: SessionScore | null }) {
+  return (
+    <div className="glass-card" style={{ padding: '18px' }}>
+      <div style={{ fontSize: '11px', textTransform: 'uppercase', letterSpacing: '1.5px', color: 'var(--text-secondary)', marginBottom: '8px' }}>{title}</div>
+      {session ? (
+        <Link href={`/judgments/${session.id}`} style={{ textDecoration: 'none', color: 'inherit' }}>
+          <div style={{ fontSize: '28px', fontWeight: '800', color: 'var(--accent-secondary)' }}>{session.score}</div>
+          <div style={{ fontSize: '13px', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{session.filename}</div>
+          <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>{new Date(session.createdAt).toLocaleDateString()}</div>
+        </Link>
+      ) : (
+        <div style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>Not enough sessions yet</div>
+      )}
+    </div>
+  );
+}
+
+function CriterionCard({ criterion, index }: { criterion: CriterionProgress; index: number }) {
+  const meta = categoryMeta(criterion.key, index);
+  return (
+    <div className="glass-card" style={{ padding: '18px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px', gap: '8px' }}>
+        <span style={{ fontSize: '13px', fontWeight: '600' }}>{meta.icon} {criterion.name}</span>
+        <TrendBadge trend={criterion.trend} />
+      </div>
+      <TrendChart points={criterion.points} color={meta.color} height={120} compact />
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', color: 'var(--text-secondary)', marginTop: '8px' }}>
+        <span>Latest <strong style={{ color: meta.color }}>{criterion.latest}</strong></span>
+        <span>Average {criterion.average}</span>
+      </div>
+    </div>
+  );
+}
+
+// Score trends across the user's recordings, from GET /api/judge/stats
+export default function Dashboard() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [authReady, setAuthReady] = useState(false);
+  const [stats, setStats] = useState<ProgressStats | null>(null);
+  const [rubrics, setRubrics] = useState<Rubric[]>([DEFAULT_RUBRIC]);
+  const [rubric, setRubric] = useState("");
+  const [trendWindow, setTrendWindow] = useState(5);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const auth = getBrowserClient().auth;
+    auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setAuthReady(true);
+    });
+    const { data: { subscription } } = auth.onAuthStateChange((_event, next) => setSession(next));
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const userId = session?.user.id;
+  useEffect(() => {
+    if (!userId) return;
+    authFetch("/api/rubrics")
+      .then(res => (res.ok ? res.json() : [DEFAULT_RUBRIC]))
+      .then(setRubrics)
+      .catch(() => { });
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+    const load = async () => {
+      setError(null);
+      try {
+        const params = new URLSearchParams({ window: String(trendWindow) });
+        if (rubric) params.set("rubric", rubric);
+        const res = await authFetch(`/api/judge/stats?${params}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+        setStats(data);
+      } catch (err) {
+        setError(err instanceof Error && err.message ? err.message : "Failed to load your progress.");
+      }
+    };
+    load();
+  }, [userId, rubric, trendWindow]);
+
+  const improving = stats?.criteria.filter(c => c.trend.direction === 'improving') ?? [];
+  const regressing = stats?.criteria.filter(c => c.trend.direction === 'regressing') ?? [];
+
+  return (
+    <>
+      <nav className="navbar">
+        <Link href="/" className="nav-logo" style={{ textDecoration: 'none', color: 'inherit' }}>
+          <svg width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+            <path d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          Evala
+        </Link>
+        <div className="nav-links">
+          <Link href="/#upload" className="nav-link">Upload</Link>
+          <Link href="/#history" className="nav-link">History</Link>
+        </div>
+        <Link href="/#upload" className="nav-cta" style={{ textDecoration: 'none' }}>New recording</Link>
+      </nav>
+
+      <div className="container" style={{ paddingTop: '100px', paddingBottom: '100px', display: 'flex', flexDirection: 'column', gap: '16px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', flexWrap: 'wrap', gap: '12px' }}>
+          <div>
+            <h1 style={{ fontSize: '28px', fontWeight: '700', letterSpacing: '-0.5px' }}>Your Progress</h1>
+            <p style={{ color: 'var(--text-secondary)', fontSize: '14px' }}>
+              Scores across your recordings. Criteria are shown on a 0–100 scale.
+            </p>
+          </div>
+          {session && (
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <select className="field" value={rubric} onChange={e => setRubric(e.target.value)} aria-label="Rubric">
+                <option value="">All rubrics</option>
+                {rubrics.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+              </select>
+              <select className="field" value={trendWindow} onChange={e => setTrendWindow(Number(e.target.value))} aria-label="Rolling average">
+                {[3, 5, 10].map(n => <option key={n} value={n}>{n}-session average</option>)}
+              </select>
+            </div>
+          )}
+        </div>
+
+        {authReady && !session ? (
+          <AuthPanel />
+        ) : error ? (
+          <p style={{ color: '#f87171', fontSize: '14px' }}>{error}</p>
+        ) : !stats ? (
+          <p style={{ color: 'var(--text-secondary)', fontSize: '14px' }}>Loading…</p>
+        ) : stats.sessionCount === 0 ? (
+          <div className="glass-card" style={{ textAlign: 'center', padding: '48px 24px', color: 'var(--text-secondary)', fontSize: '14px' }}>
+            No judged recordings yet. <Link href="/#upload" style={{ color: 'var(--accent-primary)' }}>Upload one</Link> to start tracking.
+          </div>
+        ) : (
+          <>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '12px' }}>
+              <div className="glass-card" style={{ padding: '18px' }}>
+                <div style={{ fontSize: '11px', textTransform: 'uppercase', letterSpacing: '1.5px', color: 'var(--text-secondary)', marginBottom: '8px' }}>Average score</div>
+                <div style={{ fontSize: '28px', fontWeight: '800', color: 'var(--accent-primary)' }}>{stats.overall.average}</div>
+                <div style={{ fontSize: '12px', color: 'var(--text-secondary)', marginBottom: '8px' }}>over {stats.sessionCount} recording{stats.sessionCount === 1 ? '' : 's'}</div>
+                <TrendBadge trend={stats.overall.trend} />
+              </div>
+              <SessionCard title="Best session" session={stats.best} />
+              <SessionCard title="Worst session" session={stats.worst} />
+            </div>
+
+            <div className="glass-card">
+              <h3 style={{ fontSize: '14px', fontWeight: '600', color: 'var(--accent-primary)', marginBottom: '12px' }}>📈 Overall score</h3>
+              <TrendChart points={stats.overall.points} color="#a78bfa" />
+              <p style={{ fontSize: '12px', color: 'var(--text-secondary)', marginTop: '8px' }}>
+                Dots are individual recordings; the line is the {stats.window}-session rolling average.
+              </p>
+            </div>
+
+            {(improving.length > 0 || regressing.length > 0) && (
+              <div className="glass-card" style={{ display: 'flex', flexDirection: 'column', gap: '6px', fontSize: '14px', lineHeight: '1.6' }}>
+                {improving.length > 0 && (
+                  <p><span style={{ color: '#34d399', fontWeight: '600' }}>Getting better:</span> {improving.map(c => `${c.name} (+${c.trend.delta})`).join(', ')}</p>
+                )}
+                {regressing.length > 0 && (
+                  <p><span style={{ color: '#f87171', fontWeight: '600' }}>Slipping:</span> {regressing.map(c => `${c.name} (${c.trend.delta})`).join(', ')}</p>
+                )}
+                <p style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                  Compares your last {stats.window} recordings with the {stats.window} before them.
+                </p>
+              </div>
+            )}
+
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))', gap: '12px' }}>
+              {stats.criteria.map((c, i) => <CriterionCard key={c.key} criterion={c} index={i} />)}
+            </div>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useState } from "react";
+import type { Judgment } from "@/lib/judgment";
+import { EXPORT_FORMATS, exportFilename, type ExportFormat } from "@/lib/export";
+import { authFetch } from "@/lib/supabase-browser";
+
+// Download buttons for a report. Downloads go through fetch so the owner's
+// access token is sent; shared viewers pass the link's token instead.
+export default function ExportButtons({ judgment, shareToken }: { judgment: Judgment; shareToken?: string }) {
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = async (format: ExportFormat) => {
+    setBusy(format);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ format });
+      if (shareToken) params.set("token", shareToken);
+      const res = await authFetch(`/api/judge/${judgment.id}/export?${params}`);
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || "Failed to export the report.");
+        return;
+      }
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = exportFilename(judgment, format);
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch {
+      setError("Network error. Please check your connection and try again.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+      <span style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>Download</span>
+      {EXPORT_FORMATS.map(f => (
+        <button
+          key={f.value}
+          className="btn btn-outline"
+          style={{ fontSize: '12px', padding: '6px 12px' }}
+          onClick={() => handleDownload(f.value)}
+          disabled={busy !== null}
+        >
+          {busy === f.value ? 'Preparing…' : f.label}
+        </button>
+      ))}
+      {error && <span style={{ fontSize: '12px', color: '#f87171' }}>{error}</span>}
+    </div>
+  );
+}
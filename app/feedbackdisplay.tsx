@@ -0,0 +1,545 @@
+"use client";
+
+import { useEffect, useRef, useState, type RefObject } from "react";
+import type { Agreement } from "@/lib/panel";
+import type { RubricCriterion } from "@/lib/rubrics";
+import type { DeliveryMetrics } from "@/lib/metrics";
+import type { VideoAnalysis } from "@/lib/video";
+import { formatTimecode, segmentAt, splitTimeRanges } from "@/lib/transcript";
+import { parseFeedback, plainFeedback, type Judgment, type StructuredFeedback } from "@/lib/judgment";
+import { languageName } from "@/lib/languages";
+import { authFetch } from "@/lib/supabase-browser";
+import ShareControls from "./sharecontrols";
+import JudgmentActions from "./judgmentactions";
+import ExportButtons from "./exportbuttons";
+
+const AGREEMENT_STYLES: Record<Agreement, { label: string; color: string }> = {
+  agree: { label: 'Judges agree', color: '#34d399' },
+  mixed: { label: 'Mixed views', color: '#fbbf24' },
+  split: { label: 'Judges split', color: '#f87171' },
+};
+
+const CATEGORY_ICONS: Record<string, { icon: string; color: string }> = {
+  clarity: { icon: '💡', color: '#a78bfa' },
+  engagement: { icon: '🎯', color: '#f472b6' },
+  structure: { icon: '🏗️', color: '#38bdf8' },
+  delivery: { icon: '🎙️', color: '#34d399' },
+  value: { icon: '💎', color: '#fbbf24' },
+};
+
+// Criteria from custom rubrics cycle through the same palette
+const CATEGORY_PALETTE = ['#a78bfa', '#f472b6', '#38bdf8', '#34d399', '#fbbf24', '#fb923c'];
+
+export function categoryMeta(key: string, index: number): { icon: string; color: string } {
+  return CATEGORY_ICONS[key] || { icon: '📌', color: CATEGORY_PALETTE[index % CATEGORY_PALETTE.length] };
+}
+
+// Renders feedback text with any cited time ranges ("0:42–0:58") as links into the transcript
+function TimeLinkedText({ text, onJump }: { text: string; onJump?: (seconds: number) => void }) {
+  if (!onJump) return <>{text}</>;
+  return (
+    <>
+      {splitTimeRanges(text).map((part, i) =>
+        typeof part === 'string' ? (
+          <span key={i}>{part}</span>
+        ) : (
+          <button
+            key={i}
+            onClick={() => onJump(part.start)}
+            title={`Jump to ${formatTimecode(part.start)}`}
+            style={{
+              background: 'rgba(56, 189, 248, 0.1)', border: '1px solid rgba(56, 189, 248, 0.25)',
+              color: 'var(--accent-secondary)', borderRadius: '6px', padding: '0 6px',
+              font: 'inherit', fontWeight: '600', cursor: 'pointer',
+            }}
+          >
+            {part.label}
+          </button>
+        )
+      )}
+    </>
+  );
+}
+
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  return total >= 60 ? `${Math.floor(total / 60)}m ${total % 60}s` : `${total}s`;
+}
+
+function MetricsPanel({ metrics, onJump }: { metrics: DeliveryMetrics; onJump?: (seconds: number) => void }) {
+  const topFillers = Object.entries(metrics.fillers).sort((a, b) => b[1] - a[1]).slice(0, 3);
+  const stats = [
+    { label: 'Speaking rate', value: `${metrics.wordsPerMinute}`, unit: 'wpm', hint: '130–160 is conversational' },
+    { label: 'Filler words', value: `${metrics.fillerCount}`, unit: `${metrics.fillersPerMinute}/min`, hint: topFillers.map(([w, n]) => `"${w}" ×${n}`).join(', ') || 'None detected' },
+    { label: 'Long pauses', value: `${metrics.longPauses.length}`, unit: '≥1.5s', hint: 'Click a pause to jump to it' },
+    { label: 'Silence', value: `${Math.round(metrics.silenceRatio * 100)}`, unit: '%', hint: 'Share of the recording' },
+    { label: 'Vocal variety', value: `${metrics.loudnessVariationDb}`, unit: 'dB', hint: 'Below ~3 dB sounds monotone' },
+    { label: 'Speaking time', value: formatDuration(metrics.speakingSeconds), unit: `of ${formatDuration(metrics.durationSeconds)}`, hint: `${metrics.wordCount} words` },
+  ];
+
+  return (
+    <div className="glass-card">
+      <h3 style={{ fontSize: '14px', color: 'var(--accent-primary)', marginBottom: '14px', display: 'flex', alignItems: 'center', gap: '8px', fontWeight: '600' }}>
+        📊 Delivery Metrics
+      </h3>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))', gap: '12px' }}>
+        {stats.map(stat => (
+          <div key={stat.label} style={{ padding: '12px', borderRadius: '10px', background: 'rgba(0,0,0,0.25)' }}>
+            <div style={{ fontSize: '11px', textTransform: 'uppercase', letterSpacing: '1px', color: 'var(--text-secondary)', marginBottom: '6px' }}>{stat.label}</div>
+            <div style={{ fontSize: '20px', fontWeight: '800' }}>
+              {stat.value} <span style={{ fontSize: '12px', fontWeight: '500', color: 'var(--text-secondary)' }}>{stat.unit}</span>
+            </div>
+            <div style={{ fontSize: '11px', color: 'var(--text-secondary)', marginTop: '4px' }}>{stat.hint}</div>
+          </div>
+        ))}
+      </div>
+      {metrics.longPauses.length > 0 && onJump && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginTop: '12px' }}>
+          {metrics.longPauses.map(pause => (
+            <button
+              key={pause.start}
+              onClick={() => onJump(pause.start)}
+              className="btn btn-outline"
+              style={{ fontSize: '11px', padding: '4px 10px' }}
+            >
+              ⏸ {formatTimecode(pause.start)} · {pause.duration}s
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function VideoPanel({ video, onJump }: { video: VideoAnalysis; onJump?: (seconds: number) => void }) {
+  const stats = [
+    { label: 'Format', value: video.aspectRatio, unit: video.orientation, hint: `${video.width}x${video.height} · ${video.fps} fps` },
+    { label: 'Cuts', value: `${video.cuts.length}`, unit: `${video.cutsPerMinute}/min`, hint: `Avg shot ${video.averageShotSeconds}s` },
+    { label: 'Longest shot', value: `${video.longestShotSeconds}`, unit: 's', hint: 'Without a scene change' },
+    { label: 'Static stretches', value: `${video.staticStretches.length}`, unit: '≥3s', hint: 'Frozen or unchanging picture' },
+  ];
+
+  return (
+    <div className="glass-card">
+      <h3 style={{ fontSize: '14px', color: 'var(--accent-primary)', marginBottom: '14px', display: 'flex', alignItems: 'center', gap: '8px', fontWeight: '600' }}>
+        🎬 Visual Pacing
+      </h3>
+      {video.warnings.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginBottom: '12px' }}>
+          {video.warnings.map(warning => (
+            <div key={warning} style={{
+              fontSize: '12px', lineHeight: '1.5', color: '#fbbf24', padding: '8px 12px', borderRadius: '8px',
+              background: 'rgba(251, 191, 36, 0.06)', border: '1px solid rgba(251, 191, 36, 0.2)',
+            }}>
+              ⚠️ {warning}
+            </div>
+          ))}
+        </div>
+      )}
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))', gap: '12px' }}>
+        {stats.map(stat => (
+          <div key={stat.label} style={{ padding: '12px', borderRadius: '10px', background: 'rgba(0,0,0,0.25)' }}>
+            <div style={{ fontSize: '11px', textTransform: 'uppercase', letterSpacing: '1px', color: 'var(--text-secondary)', marginBottom: '6px' }}>{stat.label}</div>
+            <div style={{ fontSize: '20px', fontWeight: '800' }}>
+              {stat.value} <span style={{ fontSize: '12px', fontWeight: '500', color: 'var(--text-secondary)' }}>{stat.unit}</span>
+            </div>
+            <div style={{ fontSize: '11px', color: 'var(--text-secondary)', marginTop: '4px' }}>{stat.hint}</div>
+          </div>
+        ))}
+      </div>
+      {video.staticStretches.length > 0 && onJump && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginTop: '12px' }}>
+          {video.staticStretches.map(stretch => (
+            <button
+              key={stretch.start}
+              onClick={() => onJump(stretch.start)}
+              className="btn btn-outline"
+              style={{ fontSize: '11px', padding: '4px 10px' }}
+            >
+              🧊 {formatTimecode(stretch.start)}–{formatTimecode(stretch.end)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// First-pass scores for each section of a long recording
+function SectionsPanel({ feedback, onJump }: { feedback: StructuredFeedback; onJump?: (seconds: number) => void }) {
+  const sections = feedback.sections ?? [];
+  return (
+    <div className="glass-card">
+      <h3 style={{ fontSize: '14px', color: 'var(--accent-primary)', marginBottom: '14px', display: 'flex', alignItems: 'center', gap: '8px', fontWeight: '600' }}>
+        📑 Sections
+      </h3>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+        {sections.map((section, i) => (
+          <div key={i} style={{
+            padding: '14px 16px', borderRadius: '12px',
+            background: 'rgba(0,0,0,0.25)', border: '1px solid rgba(255,255,255,0.06)'
+          }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '12px', marginBottom: '8px' }}>
+              <span style={{ fontSize: '13px', fontWeight: '600', display: 'flex', alignItems: 'center', gap: '8px' }}>
+                Part {i + 1}
+                {section.start !== null && section.end !== null && (
+                  <button
+                    onClick={() => onJump?.(section.start ?? 0)}
+                    disabled={!onJump}
+                    className="btn btn-outline"
+                    style={{ fontSize: '11px', padding: '2px 8px' }}
+                  >
+                    {formatTimecode(section.start)}–{formatTimecode(section.end)}
+                  </button>
+                )}
+              </span>
+              <span style={{ fontSize: '18px', fontWeight: '800', color: 'var(--accent-secondary)' }}>{section.score}</span>
+            </div>
+            <p style={{ fontSize: '12px', lineHeight: '1.5', color: 'var(--text-secondary)', marginBottom: '10px' }}><TimeLinkedText text={section.summary} onJump={onJump} /></p>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+              {feedback.rubric.criteria.filter(c => section.criteria[c.key] !== undefined).map(({ key, name }, j) => (
+                <span key={key} style={{
+                  fontSize: '11px', padding: '2px 8px', borderRadius: '100px',
+                  background: 'rgba(255,255,255,0.04)', border: '1px solid rgba(255,255,255,0.08)',
+                  color: 'var(--text-secondary)',
+                }}>
+                  {categoryMeta(key, j).icon} {name} {section.criteria[key]}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// One card per rubric criterion with its score, panel agreement and comment.
+// `deltas` adds the change from another take, in the criterion's own units.
+export function CategoryCards({ feedback, onJump, deltas }: {
+  feedback: StructuredFeedback;
+  onJump?: (seconds: number) => void;
+  deltas?: Record<string, number>;
+}) {
+  const categories: RubricCriterion[] = feedback.rubric.criteria.filter(c => feedback.criteria[c.key]);
+  if (categories.length === 0) return null;
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '12px' }}>
+      {categories.map((criterion, i) => {
+        const { key } = criterion;
+        const cat = feedback.criteria[key];
+        const meta = categoryMeta(key, i);
+        const consensus = feedback.consensus?.criteria[key];
+        const delta = deltas?.[key];
+        return (
+          <div key={key} className="glass-card" style={{ padding: '18px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+              <span title={criterion.description} style={{ fontSize: '13px', fontWeight: '600', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                {meta.icon} {criterion.name}
+              </span>
+              <span style={{ fontSize: '16px', fontWeight: '800', color: meta.color }}>
+                {cat.score}/{criterion.max}
+                {delta !== undefined && delta !== 0 && (
+                  <span style={{ fontSize: '11px', fontWeight: '700', marginLeft: '6px', color: delta > 0 ? '#34d399' : '#f87171' }}>
+                    {delta > 0 ? '▲' : '▼'} {Math.abs(delta)}
+                  </span>
+                )}
+              </span>
+            </div>
+            <div style={{ height: '3px', background: 'rgba(255,255,255,0.06)', borderRadius: '2px', overflow: 'hidden', marginBottom: '10px' }}>
+              <div style={{
+                height: '100%', width: `${((cat.score - criterion.min) / (criterion.max - criterion.min)) * 100}%`,
+                background: meta.color, borderRadius: '2px',
+                transition: 'width 0.8s ease'
+              }} />
+            </div>
+            {consensus && feedback.judges && feedback.judges.length > 1 && (
+              <div style={{
+                display: 'inline-block', fontSize: '10px', fontWeight: '600', letterSpacing: '0.5px',
+                padding: '2px 8px', borderRadius: '100px', marginBottom: '8px',
+                color: AGREEMENT_STYLES[consensus.agreement].color,
+                border: `1px solid ${AGREEMENT_STYLES[consensus.agreement].color}40`,
+              }}>
+                {AGREEMENT_STYLES[consensus.agreement].label} · {consensus.min}–{consensus.max}
+              </div>
+            )}
+            <p style={{ fontSize: '12px', lineHeight: '1.5', color: 'var(--text-secondary)' }}><TimeLinkedText text={cat.comment} onJump={onJump} /></p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// The full report for a judgment. Used on the home page and on the
+// /judgments/[id] permalink page.
+export default function FeedbackDisplay({ result, onReset, owner = false, onOpen, onDeleted, shareToken }: {
+  result: Judgment;
+  // Shows a "New Analysis" button when given
+  onReset?: () => void;
+  // The viewer owns the judgment and can change how it's shared
+  owner?: boolean;
+  // Owner actions: show another version (e.g. after re-judging), and leave after deleting
+  onOpen?: (judgment: Judgment) => void;
+  onDeleted?: () => void;
+  // Token from an unlisted link, needed by viewers other than the owner to download the report
+  shareToken?: string;
+}) {
+  const structured = parseFeedback(result.feedback);
+  const segments = result.segments || [];
+  const [activeSegment, setActiveSegment] = useState<number | null>(null);
+  const segmentRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const transcriptRef = useRef<HTMLDivElement>(null);
+  const playerRef = useRef<HTMLMediaElement>(null);
+  const [media, setMedia] = useState<{ id: string; url: string } | null>(null);
+
+  // The recording is only playable by its owner, through a signed URL
+  const canPlay = owner && !!result.storage_path;
+  useEffect(() => {
+    if (!canPlay) return;
+    authFetch(`/api/judge/${result.id}/media`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => { if (data?.url) setMedia({ id: result.id, url: data.url }); })
+      .catch(() => { });
+  }, [canPlay, result.id]);
+  const mediaSrc = canPlay && media?.id === result.id ? media.url : null;
+
+  // Keep the line in view inside the transcript box without scrolling the page
+  const showSegment = (index: number) => {
+    const container = transcriptRef.current;
+    const line = segmentRefs.current[index];
+    if (!container || !line) return;
+    const top = line.offsetTop;
+    if (top < container.scrollTop || top + line.offsetHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: top - container.clientHeight / 3, behavior: 'smooth' });
+    }
+  };
+
+  const jumpTo = segments.length > 0 || mediaSrc
+    ? (seconds: number) => {
+      const player = playerRef.current;
+      if (player && mediaSrc) {
+        player.currentTime = seconds;
+        player.play().catch(() => { });
+      }
+      if (segments.length === 0) return;
+      const index = segmentAt(segments, seconds);
+      setActiveSegment(index);
+      showSegment(index);
+    }
+    : undefined;
+
+  // Highlight the line being spoken during playback
+  const handleTimeUpdate = () => {
+    const player = playerRef.current;
+    if (!player || segments.length === 0) return;
+    const index = segmentAt(segments, player.currentTime);
+    if (index !== activeSegment) {
+      setActiveSegment(index);
+      showSegment(index);
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+      {/* Top row: Score + Summary */}
+      <div style={{ display: 'grid', gridTemplateColumns: '200px 1fr', gap: '16px' }}>
+        {/* Score card */}
+        <div className="glass-card" style={{ textAlign: 'center', display: 'flex', flexDirection: 'column', justifyContent: 'center' }}>
+          <div style={{ fontSize: '11px', textTransform: 'uppercase', letterSpacing: '1.5px', color: 'var(--text-secondary)', marginBottom: '12px' }}>Overall Score</div>
+          <div style={{
+            fontSize: '64px', fontWeight: '800', lineHeight: '1', marginBottom: '12px',
+            background: 'linear-gradient(135deg, var(--accent-primary), var(--accent-secondary))',
+            WebkitBackgroundClip: 'text', WebkitTextFillColor: 'transparent',
+          }}>
+            {result.score ?? '—'}
+          </div>
+          <div style={{ height: '4px', background: 'rgba(255,255,255,0.06)', borderRadius: '2px', overflow: 'hidden', marginBottom: '16px' }}>
+            <div style={{
+              height: '100%', width: `${result.score ?? 0}%`,
+              background: 'linear-gradient(90deg, var(--accent-primary), var(--accent-secondary))',
+              borderRadius: '2px', transition: 'width 1s ease'
+            }} />
+          </div>
+          {(result.language || result.feedback_language) && (
+            <div style={{ fontSize: '11px', lineHeight: '1.6', color: 'var(--text-secondary)', marginBottom: '12px' }}>
+              {result.language && <div>🗣️ Spoken in {languageName(result.language)}</div>}
+              {result.feedback_language && <div>💬 Feedback in {languageName(result.feedback_language)}</div>}
+            </div>
+          )}
+          {onReset && (
+            <button onClick={onReset} className="btn btn-outline" style={{ fontSize: '13px', padding: '8px 14px', width: '100%' }}>
+              New Analysis
+            </button>
+          )}
+        </div>
+
+        {/* Summary + Tips */}
+        <div className="glass-card" style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          {structured?.summary && (
+            <div>
+              <h3 style={{ fontSize: '14px', fontWeight: '600', color: 'var(--accent-primary)', marginBottom: '8px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+                ✦ Summary
+              </h3>
+              <p style={{ fontSize: '14px', lineHeight: '1.7', color: '#cbd5e1' }}><TimeLinkedText text={structured.summary} onJump={jumpTo} /></p>
+            </div>
+          )}
+          {structured?.tips && structured.tips.length > 0 && (
+            <div>
+              <h3 style={{ fontSize: '14px', fontWeight: '600', color: 'var(--accent-primary)', marginBottom: '10px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+                🚀 Tips to Improve
+              </h3>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                {structured.tips.map((tip, i) => (
+                  <div key={i} style={{
+                    display: 'flex', gap: '10px', alignItems: 'flex-start',
+                    padding: '10px 14px', borderRadius: '10px',
+                    background: 'rgba(167, 139, 250, 0.04)',
+                    border: '1px solid rgba(167, 139, 250, 0.1)',
+                    fontSize: '13px', lineHeight: '1.5', color: '#cbd5e1'
+                  }}>
+                    <span style={{ color: 'var(--accent-primary)', fontWeight: '600', flexShrink: 0 }}>{i + 1}.</span>
+                    <span><TimeLinkedText text={tip} onJump={jumpTo} /></span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          {/* Judging failed validation: no score was stored */}
+          {result.status === 'failed' && (
+            <div>
+              <h3 style={{ fontSize: '14px', fontWeight: '600', color: '#f87171', marginBottom: '8px' }}>
+                ⚠️ Judging failed
+              </h3>
+              <p style={{ fontSize: '13px', lineHeight: '1.6', color: 'var(--text-secondary)' }}>
+                {result.error || 'The judges did not return a valid verdict.'}
+              </p>
+            </div>
+          )}
+          {/* Fallback for old plain-text feedback */}
+          {!structured && result.status !== 'failed' && (
+            <div style={{ fontSize: '14px', lineHeight: '1.7', color: '#cbd5e1' }}>
+              {plainFeedback(result.feedback)}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Original recording */}
+      {mediaSrc && (
+        <div className="glass-card" style={{ padding: '12px' }}>
+          {/* Audio uploads, and downloads without a picture, get an audio player */}
+          {result.input_kind === 'audio' || !result.video_analysis ? (
+            <audio
+              ref={playerRef}
+              src={mediaSrc}
+              controls
+              preload="metadata"
+              onTimeUpdate={handleTimeUpdate}
+              style={{ width: '100%', display: 'block' }}
+            />
+          ) : (
+            <video
+              ref={playerRef as RefObject<HTMLVideoElement>}
+              src={mediaSrc}
+              controls
+              preload="metadata"
+              onTimeUpdate={handleTimeUpdate}
+              style={{ width: '100%', maxHeight: '420px', borderRadius: '10px', background: 'black', display: 'block' }}
+            />
+          )}
+        </div>
+      )}
+
+      <ExportButtons judgment={result} shareToken={shareToken} />
+      {owner && <ShareControls judgment={result} />}
+      {owner && onOpen && onDeleted && <JudgmentActions judgment={result} onOpen={onOpen} onDeleted={onDeleted} />}
+
+      {/* Category breakdown */}
+      {structured && <CategoryCards feedback={structured} onJump={jumpTo} />}
+
+      {/* Section scores for long recordings */}
+      {structured?.sections && structured.sections.length > 0 && <SectionsPanel feedback={structured} onJump={jumpTo} />}
+
+      {/* Delivery metrics */}
+      {result.metrics && <MetricsPanel metrics={result.metrics} onJump={jumpTo} />}
+
+      {/* Visual pacing */}
+      {result.video_analysis && <VideoPanel video={result.video_analysis} onJump={jumpTo} />}
+
+      {/* Judge panel */}
+      {structured?.judges && structured.judges.length > 1 && (
+        <div className="glass-card">
+          <h3 style={{ fontSize: '14px', color: 'var(--accent-primary)', marginBottom: '14px', display: 'flex', alignItems: 'center', gap: '8px', fontWeight: '600' }}>
+            ⚖️ Judge Panel
+          </h3>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(240px, 1fr))', gap: '12px' }}>
+            {structured.judges.map(verdict => (
+              <div key={verdict.judge.id} style={{
+                padding: '16px', borderRadius: '12px',
+                background: 'rgba(0,0,0,0.25)', border: '1px solid rgba(255,255,255,0.06)'
+              }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+                  <span style={{ fontSize: '13px', fontWeight: '600' }}>{verdict.judge.icon} {verdict.judge.name}</span>
+                  <span style={{ fontSize: '18px', fontWeight: '800', color: 'var(--accent-secondary)' }}>{verdict.score}</span>
+                </div>
+                <p style={{ fontSize: '12px', lineHeight: '1.5', color: 'var(--text-secondary)', marginBottom: '10px' }}><TimeLinkedText text={verdict.summary} onJump={jumpTo} /></p>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+                  {structured.rubric.criteria.filter(c => verdict.criteria[c.key]).map(({ key, name, min, max }, i) => {
+                    const cat = verdict.criteria[key];
+                    // Flag scores at least a fifth of the range away from the panel's mean
+                    const mean = structured.consensus?.criteria[key]?.mean;
+                    const outlier = mean !== undefined && Math.abs(cat.score - mean) >= (max - min) / 5;
+                    return (
+                      <span key={key} title={cat.comment} style={{
+                        fontSize: '11px', padding: '2px 8px', borderRadius: '100px',
+                        background: outlier ? 'rgba(248, 113, 113, 0.1)' : 'rgba(255,255,255,0.04)',
+                        border: `1px solid ${outlier ? 'rgba(248, 113, 113, 0.3)' : 'rgba(255,255,255,0.08)'}`,
+                        color: outlier ? '#f87171' : 'var(--text-secondary)',
+                      }}>
+                        {categoryMeta(key, i).icon} {name} {cat.score}
+                      </span>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Transcript */}
+      <div className="glass-card">
+        <h3 style={{ fontSize: '14px', color: 'var(--accent-primary)', marginBottom: '10px', display: 'flex', alignItems: 'center', gap: '8px', fontWeight: '600' }}>
+          🎙️ Transcript
+        </h3>
+        <div ref={transcriptRef} style={{
+          position: 'relative',
+          fontSize: '13px', lineHeight: '1.6', color: 'var(--text-secondary)',
+          maxHeight: segments.length > 0 ? '260px' : '160px', overflowY: 'auto',
+          padding: '12px', background: 'rgba(0,0,0,0.25)', borderRadius: '10px'
+        }}>
+          {segments.length > 0 ? segments.map((segment, i) => (
+            <div
+              key={i}
+              ref={el => { segmentRefs.current[i] = el; }}
+              onClick={() => jumpTo?.(segment.start)}
+              style={{
+                display: 'flex', gap: '12px', padding: '4px 8px', borderRadius: '6px', cursor: 'pointer',
+                background: activeSegment === i ? 'rgba(56, 189, 248, 0.12)' : 'transparent',
+                color: activeSegment === i ? 'white' : undefined,
+                transition: 'background 0.2s ease',
+              }}
+            >
+              <span style={{ fontFamily: 'monospace', fontSize: '12px', color: 'var(--accent-secondary)', flexShrink: 0, paddingTop: '1px' }}>
+                {formatTimecode(segment.start)}
+              </span>
+              <span>{segment.text}</span>
+            </div>
+          )) : result.transcript}
+        </div>
+      </div>
+    </div>
+  );
+}
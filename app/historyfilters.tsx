@@ -0,0 +1,70 @@
+"use client";
+
+import { HISTORY_SORTS, type HistorySort } from "@/lib/history";
+import type { Rubric } from "@/lib/rubrics";
+
+// Search box and filters for the history grid. Values are kept as the raw
+// input strings and validated by the API.
+export interface HistoryFilterValues {
+  q: string;
+  minScore: string;
+  maxScore: string;
+  from: string;
+  to: string;
+  filename: string;
+  rubric: string;
+  sort: HistorySort;
+}
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilterValues = {
+  q: "", minScore: "", maxScore: "", from: "", to: "", filename: "", rubric: "", sort: "newest",
+};
+
+export function hasActiveFilters(filters: HistoryFilterValues): boolean {
+  return (Object.keys(EMPTY_HISTORY_FILTERS) as (keyof HistoryFilterValues)[])
+    .some(key => key !== "sort" && filters[key] !== EMPTY_HISTORY_FILTERS[key]);
+}
+
+export default function HistoryFilters({ value, rubrics, onChange }: {
+  value: HistoryFilterValues;
+  rubrics: Rubric[];
+  onChange: (value: HistoryFilterValues) => void;
+}) {
+  const set = (patch: Partial<HistoryFilterValues>) => onChange({ ...value, ...patch });
+  const label = { fontSize: '12px', color: 'var(--text-secondary)' };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px', marginBottom: '20px' }}>
+      <input
+        className="field"
+        type="search"
+        placeholder="Search transcripts and feedback…"
+        value={value.q}
+        onChange={e => set({ q: e.target.value })}
+      />
+      <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', alignItems: 'center' }}>
+        <input className="field" placeholder="Filename" value={value.filename} onChange={e => set({ filename: e.target.value })} style={{ flex: '1 1 160px' }} />
+        <span style={label}>Score</span>
+        <input className="field" type="number" min="1" max="100" placeholder="1" value={value.minScore} onChange={e => set({ minScore: e.target.value })} style={{ width: '72px' }} />
+        <span style={label}>–</span>
+        <input className="field" type="number" min="1" max="100" placeholder="100" value={value.maxScore} onChange={e => set({ maxScore: e.target.value })} style={{ width: '72px' }} />
+        <span style={label}>From</span>
+        <input className="field" type="date" value={value.from} onChange={e => set({ from: e.target.value })} />
+        <span style={label}>To</span>
+        <input className="field" type="date" value={value.to} onChange={e => set({ to: e.target.value })} />
+        <select className="field" value={value.rubric} onChange={e => set({ rubric: e.target.value })} aria-label="Rubric">
+          <option value="">Any rubric</option>
+          {rubrics.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+        </select>
+        <select className="field" value={value.sort} onChange={e => set({ sort: e.target.value as HistorySort })} aria-label="Sort">
+          {HISTORY_SORTS.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+        </select>
+        {hasActiveFilters(value) && (
+          <button className="btn btn-outline" style={{ fontSize: '13px', padding: '8px 14px' }} onClick={() => onChange({ ...EMPTY_HISTORY_FILTERS, sort: value.sort })}>
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Judgment } from "@/lib/judgment";
+import type { JudgmentVersion } from "@/lib/judgment-store";
+import type { Rubric } from "@/lib/rubrics";
+import { DEFAULT_RUBRIC, DEFAULT_RUBRIC_ID } from "@/lib/rubrics";
+import { DEFAULT_FEEDBACK_LANGUAGE, LANGUAGES } from "@/lib/languages";
+import { authFetch } from "@/lib/supabase-browser";
+import { watchJob } from "@/lib/job-watch";
+
+// Owner actions on a report: switch between versions, re-judge the stored
+// transcript with another model or rubric, and delete one version or the
+// whole recording.
+export default function JudgmentActions({ judgment, onOpen, onDeleted }: {
+  judgment: Judgment;
+  onOpen: (judgment: Judgment) => void;
+  onDeleted: () => void;
+}) {
+  const [versions, setVersions] = useState<JudgmentVersion[]>([]);
+  const [rubrics, setRubrics] = useState<Rubric[]>([DEFAULT_RUBRIC]);
+  const [models, setModels] = useState<string[]>([]);
+  const [rubricId, setRubricId] = useState(judgment.rubric_id || DEFAULT_RUBRIC_ID);
+  const [model, setModel] = useState("");
+  const [feedbackLanguage, setFeedbackLanguage] = useState(judgment.feedback_language || DEFAULT_FEEDBACK_LANGUAGE);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [versionsRes, rubricsRes, modelsRes] = await Promise.all([
+          authFetch(`/api/judge/${judgment.id}/versions`),
+          authFetch("/api/rubrics"),
+          authFetch("/api/judge/models"),
+        ]);
+        if (versionsRes.ok) setVersions(await versionsRes.json());
+        if (rubricsRes.ok) setRubrics(await rubricsRes.json());
+        if (modelsRes.ok) {
+          const list: string[] = await modelsRes.json();
+          setModels(list);
+          setModel(current => current || list[0] || "");
+        }
+      } catch {
+        // the report still works without these
+      }
+    };
+    load();
+  }, [judgment.id]);
+
+  const openVersion = async (id: string) => {
+    if (id === judgment.id) return;
+    setError(null);
+    try {
+      const res = await authFetch(`/api/judge/${id}`);
+      if (!res.ok) throw new Error();
+      onOpen(await res.json());
+    } catch {
+      setError("Failed to load that version.");
+    }
+  };
+
+  const handleRejudge = async () => {
+    setBusy("Queued…");
+    setError(null);
+    try {
+      const res = await authFetch(`/api/judge/${judgment.id}/rejudge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rubricId, model, feedbackLanguage }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to re-judge.");
+        return;
+      }
+
+      const job = await watchJob(data.jobId, (update) => {
+        setBusy(update.stage === "persisting" ? "Saving…" : update.stage === "judging" ? "Judges are deliberating…" : "Queued…");
+      });
+      if (job.stage === "failed" || !job.result) {
+        setError(job.error || "Re-judging failed.");
+        return;
+      }
+      onOpen(job.result);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "Network error. Please check your connection and try again.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Deleting one version opens the latest of the others
+  const handleDelete = async (scope: "recording" | "version") => {
+    if (scope === "version") {
+      const version = versions.find(v => v.id === judgment.id)?.version;
+      if (!window.confirm(`Delete version ${version ?? ""} of "${judgment.video_filename}"? The other versions are kept. This can't be undone.`)) return;
+    } else {
+      const others = versions.length > 1 ? ` and all ${versions.length} versions of its report` : "";
+      if (!window.confirm(`Delete "${judgment.video_filename}"${others}? This can't be undone.`)) return;
+    }
+
+    setBusy(scope === "version" ? "Deleting version…" : "Deleting…");
+    setError(null);
+    try {
+      const res = await authFetch(`/api/judge/${judgment.id}${scope === "version" ? "?scope=version" : ""}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || "Failed to delete.");
+        return;
+      }
+      const next = scope === "version" ? versions.filter(v => v.id !== judgment.id).pop() : undefined;
+      if (next) await openVersion(next.id);
+      else onDeleted();
+    } catch {
+      setError("Network error. Please check your connection and try again.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const label = { fontSize: '12px', color: 'var(--text-secondary)' };
+
+  return (
+    <div className="glass-card" style={{ display: 'flex', flexDirection: 'column', gap: '12px', padding: '14px 18px' }}>
+      {versions.length > 1 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '6px' }}>
+          <span style={{ ...label, marginRight: '4px' }}>Versions</span>
+          {versions.map(v => (
+            <button
+              key={v.id}
+              onClick={() => openVersion(v.id)}
+              title={`${v.model || 'unknown model'} · ${new Date(v.created_at).toLocaleString()}`}
+              style={{
+                fontSize: '12px', padding: '4px 10px', borderRadius: '100px', cursor: 'pointer',
+                background: v.id === judgment.id ? 'rgba(167, 139, 250, 0.15)' : 'rgba(255,255,255,0.04)',
+                border: `1px solid ${v.id === judgment.id ? 'rgba(167, 139, 250, 0.4)' : 'rgba(255,255,255,0.08)'}`,
+                color: v.id === judgment.id ? 'white' : 'var(--text-secondary)',
+              }}
+            >
+              v{v.version} · {v.status === 'failed' ? 'failed' : v.score}
+            </button>
+          ))}
+        </div>
+      )}
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '8px' }}>
+        <span style={{ fontSize: '13px', fontWeight: '600', color: 'var(--accent-primary)' }}>🔁 Re-judge</span>
+        <select className="field" value={rubricId} onChange={e => setRubricId(e.target.value)} aria-label="Rubric" disabled={!!busy}>
+          {rubrics.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+        </select>
+        <select className="field" value={feedbackLanguage} onChange={e => setFeedbackLanguage(e.target.value)} aria-label="Feedback language" disabled={!!busy}>
+          {LANGUAGES.map(l => <option key={l.code} value={l.code}>Feedback in {l.name}</option>)}
+        </select>
+        {models.length > 1 && (
+          <select className="field" value={model} onChange={e => setModel(e.target.value)} aria-label="Model" disabled={!!busy}>
+            {models.map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+        )}
+        <button className="btn btn-primary" style={{ fontSize: '13px', padding: '8px 14px' }} onClick={handleRejudge} disabled={!!busy}>
+          {busy && !busy.startsWith("Deleting") ? busy : "Judge again"}
+        </button>
+        <span style={{ flex: 1 }} />
+        {versions.length > 1 && (
+          <button
+            className="btn btn-outline"
+            style={{ fontSize: '13px', padding: '8px 14px', color: '#f87171', borderColor: 'rgba(248, 113, 113, 0.3)' }}
+            onClick={() => handleDelete("version")}
+            disabled={!!busy}
+          >
+            {busy === "Deleting version…" ? busy : "Delete this version"}
+          </button>
+        )}
+        <button
+          className="btn btn-outline"
+          style={{ fontSize: '13px', padding: '8px 14px', color: '#f87171', borderColor: 'rgba(248, 113, 113, 0.3)' }}
+          onClick={() => handleDelete("recording")}
+          disabled={!!busy}
+        >
+          {busy === "Deleting…" ? busy : "Delete recording"}
+        </button>
+      </div>
+      {error && <p style={{ color: '#f87171', fontSize: '13px' }}>{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import type { Judgment } from "@/lib/judgment";
+import { authFetch, getAccessToken } from "@/lib/supabase-browser";
+import FeedbackDisplay from "../../feedbackdisplay";
+
+// A report that isn't shared: load it with the signed-in user's session
+export default function OwnerReport({ id }: { id: string }) {
+  const [judgment, setJudgment] = useState<Judgment | null>(null);
+  const [state, setState] = useState<"loading" | "ready" | "signed-out" | "not-found">("loading");
+  const router = useRouter();
+
+  useEffect(() => {
+    const load = async () => {
+      if (!(await getAccessToken())) {
+        setState("signed-out");
+        return;
+      }
+      try {
+        const res = await authFetch(`/api/judge/${id}`);
+        if (!res.ok) throw new Error();
+        setJudgment(await res.json());
+        setState("ready");
+      } catch {
+        setState("not-found");
+      }
+    };
+    load();
+  }, [id]);
+
+  if (state === "ready" && judgment) {
+    return (
+      <>
+        <h1 style={{ fontSize: '24px', fontWeight: '700', marginBottom: '20px', letterSpacing: '-0.5px' }}>
+          {judgment.video_filename}
+        </h1>
+        <FeedbackDisplay
+          key={judgment.id}
+          result={judgment}
+          owner
+          onOpen={(next) => {
+            setJudgment(next);
+            router.replace(`/judgments/${next.id}`);
+          }}
+          onDeleted={() => router.push("/")}
+        />
+      </>
+    );
+  }
+
+  return (
+    <div className="glass-card" style={{ textAlign: 'center', padding: '48px 24px' }}>
+      <p style={{ color: 'var(--text-secondary)', fontSize: '14px', marginBottom: '16px' }}>
+        {state === "loading"
+          ? "Loading report…"
+          : state === "signed-out"
+            ? "This report is private. Sign in as its owner to view it."
+            : "This report doesn’t exist or isn’t shared with you."}
+      </p>
+      {state !== "loading" && <Link href="/" className="btn btn-outline">Go to Evala</Link>}
+    </div>
+  );
+}
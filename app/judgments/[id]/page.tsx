@@ -0,0 +1,76 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { loadSharedJudgment } from "@/lib/judgment-store";
+import { parseFeedback, type Judgment } from "@/lib/judgment";
+import { logger } from "@/lib/logger";
+import FeedbackDisplay from "../../feedbackdisplay";
+import OwnerReport from "./ownerreport";
+
+type PageProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+};
+
+// Shared reports render on the server. Private ones can only be read with the
+// owner's session, which lives in the browser, so they load client-side.
+async function sharedJudgment({ params, searchParams }: PageProps): Promise<Judgment | null> {
+  const { id } = await params;
+  const { token } = await searchParams;
+  try {
+    return await loadSharedJudgment(id, typeof token === "string" ? token : null);
+  } catch (error) {
+    logger.error("Failed to load shared judgment", { error });
+    return null;
+  }
+}
+
+export async function generateMetadata(props: PageProps): Promise<Metadata> {
+  const judgment = await sharedJudgment(props);
+  if (!judgment) {
+    return { title: "Judgment report — Agentic Judge", robots: { index: false } };
+  }
+
+  const title = `${judgment.video_filename} scored ${judgment.score}/100 — Agentic Judge`;
+  const description = parseFeedback(judgment.feedback)?.summary || "AI feedback on clarity, engagement and delivery.";
+  return {
+    title,
+    description,
+    // Unlisted reports shouldn't turn up in search results
+    robots: { index: judgment.visibility === "public" },
+    openGraph: { title, description, type: "article" },
+    twitter: { card: "summary", title, description },
+  };
+}
+
+export default async function JudgmentPage(props: PageProps) {
+  const { id } = await props.params;
+  const { token } = await props.searchParams;
+  const judgment = await sharedJudgment(props);
+
+  return (
+    <>
+      <nav className="navbar">
+        <Link href="/" className="nav-logo" style={{ textDecoration: 'none', color: 'inherit' }}>
+          <svg width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+            <path d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          Evala
+        </Link>
+        <Link href="/" className="nav-cta" style={{ textDecoration: 'none' }}>Judge your own video</Link>
+      </nav>
+
+      <div className="container" style={{ paddingTop: '100px', paddingBottom: '100px' }}>
+        {judgment ? (
+          <>
+            <h1 style={{ fontSize: '24px', fontWeight: '700', marginBottom: '20px', letterSpacing: '-0.5px' }}>
+              {judgment.video_filename}
+            </h1>
+            <FeedbackDisplay result={judgment} shareToken={typeof token === "string" ? token : undefined} />
+          </>
+        ) : (
+          <OwnerReport id={id} />
+        )}
+      </div>
+    </>
+  );
+}
@@ -2,14 +2,50 @@
 
 import { useState, useRef, useEffect, useCallback } from "react";
 import Orb from "./backgroundanimation";
+import type { JobStage } from "@/lib/jobs";
+import { DEFAULT_RUBRIC, DEFAULT_RUBRIC_ID, type Rubric } from "@/lib/rubrics";
+import type { TargetPlatform } from "@/lib/video";
+import { DEFAULT_FEEDBACK_LANGUAGE, LANGUAGES } from "@/lib/languages";
+import type { InputKind, Judgment } from "@/lib/judgment";
+import { authFetch, getBrowserClient } from "@/lib/supabase-browser";
+import { cancelJob, watchJob } from "@/lib/job-watch";
+import { forgetUpload, uploadFile } from "@/lib/upload-client";
+import type { Session } from "@supabase/supabase-js";
+import RubricEditor from "./rubriceditor";
+import FeedbackDisplay from "./feedbackdisplay";
+import AuthPanel from "./authpanel";
+import HistoryFilters, { EMPTY_HISTORY_FILTERS, hasActiveFilters, type HistoryFilterValues } from "./historyfilters";
+import { historySearchParams, type HistoryPage } from "@/lib/history";
+import type { Quota, QuotaPeriod } from "@/lib/rate-limit";
+
+// What the user is submitting: a video or audio file, a link to one, or text
+type InputMode = "file" | "url" | "text";
+
+const INPUT_MODES: { mode: InputMode; label: string }[] = [
+  { mode: "file", label: "Upload file" },
+  { mode: "url", label: "From URL" },
+  { mode: "text", label: "Paste script" },
+];
+
+// `modes` limits a stage to the inputs that go through it
+const PIPELINE_STAGES: { stage: JobStage; label: string; modes?: InputMode[] }[] = [
+  { stage: "saving", label: "Uploading file", modes: ["file"] },
+  { stage: "downloading", label: "Downloading media", modes: ["url"] },
+  { stage: "extracting", label: "Extracting audio", modes: ["file", "url"] },
+  { stage: "transcribing", label: "Transcribing speech", modes: ["file", "url"] },
+  { stage: "analyzing", label: "Measuring delivery & visuals", modes: ["file", "url"] },
+  { stage: "judging", label: "Analyzing content" },
+  { stage: "persisting", label: "Finalizing report" },
+];
+
+const INPUT_ICONS: Record<InputKind, string> = { video: '🎬', audio: '🎧', url: '🔗', text: '📝' };
+
+function isMediaFile(file: File): boolean {
+  return file.type.startsWith("video/") || file.type.startsWith("audio/");
+}
 
-interface JudgmentResult {
-  id: string;
-  video_filename: string;
-  transcript: string;
-  feedback: string;
-  score: number;
-  created_at: string;
+function stageLabel(stage: JobStage): string {
+  return PIPELINE_STAGES.find(s => s.stage === stage)?.label || "Queued";
 }
 
 function formatDate(dateStr: string): string {
@@ -22,185 +58,151 @@ function formatDate(dateStr: string): string {
   });
 }
 
-function formatFileSize(bytes: number): string {
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+// "12 judgments and 45 minutes of audio left today"; null when nothing is limited
+function describeQuota(period: QuotaPeriod, when: string): string | null {
+  const parts: string[] = [];
+  const { judgments, minutes } = period;
+  if (judgments.remaining !== null) parts.push(`${judgments.remaining} judgment${judgments.remaining === 1 ? '' : 's'}`);
+  if (minutes.remaining !== null) parts.push(`${Math.floor(minutes.remaining)} minutes of audio`);
+  return parts.length > 0 ? `${parts.join(' and ')} left ${when}` : null;
 }
 
-interface StructuredFeedback {
-  summary?: string;
-  clarity?: { score: number; comment: string };
-  engagement?: { score: number; comment: string };
-  structure?: { score: number; comment: string };
-  delivery?: { score: number; comment: string };
-  value?: { score: number; comment: string };
-  tips?: string[];
+// The period whose judgments or minutes have run out, if any
+function exhaustedPeriod(quota: Quota): QuotaPeriod | null {
+  const used = (p: QuotaPeriod) => p.judgments.remaining === 0 || p.minutes.remaining === 0;
+  return used(quota.month) ? quota.month : used(quota.day) ? quota.day : null;
 }
 
-const CATEGORY_ICONS: Record<string, { icon: string; color: string }> = {
-  clarity: { icon: '💡', color: '#a78bfa' },
-  engagement: { icon: '🎯', color: '#f472b6' },
-  structure: { icon: '🏗️', color: '#38bdf8' },
-  delivery: { icon: '🎙️', color: '#34d399' },
-  value: { icon: '💎', color: '#fbbf24' },
-};
-
-function parseFeedback(raw: string): StructuredFeedback | null {
-  try {
-    const parsed = JSON.parse(raw);
-    if (parsed.summary || parsed.clarity || parsed.tips) return parsed;
-    return null;
-  } catch {
-    return null;
-  }
-}
-
-function FeedbackDisplay({ result, onReset }: { result: JudgmentResult; onReset: () => void }) {
-  const structured = parseFeedback(result.feedback);
-
-  const categories = structured
-    ? (['clarity', 'engagement', 'structure', 'delivery', 'value'] as const).filter(k => structured[k])
-    : [];
-
-  return (
-    <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
-      {/* Top row: Score + Summary */}
-      <div style={{ display: 'grid', gridTemplateColumns: '200px 1fr', gap: '16px' }}>
-        {/* Score card */}
-        <div className="glass-card" style={{ textAlign: 'center', display: 'flex', flexDirection: 'column', justifyContent: 'center' }}>
-          <div style={{ fontSize: '11px', textTransform: 'uppercase', letterSpacing: '1.5px', color: 'var(--text-secondary)', marginBottom: '12px' }}>Overall Score</div>
-          <div style={{
-            fontSize: '64px', fontWeight: '800', lineHeight: '1', marginBottom: '12px',
-            background: 'linear-gradient(135deg, var(--accent-primary), var(--accent-secondary))',
-            WebkitBackgroundClip: 'text', WebkitTextFillColor: 'transparent',
-          }}>
-            {result.score}
-          </div>
-          <div style={{ height: '4px', background: 'rgba(255,255,255,0.06)', borderRadius: '2px', overflow: 'hidden', marginBottom: '16px' }}>
-            <div style={{
-              height: '100%', width: `${result.score}%`,
-              background: 'linear-gradient(90deg, var(--accent-primary), var(--accent-secondary))',
-              borderRadius: '2px', transition: 'width 1s ease'
-            }} />
-          </div>
-          <button onClick={onReset} className="btn btn-outline" style={{ fontSize: '13px', padding: '8px 14px', width: '100%' }}>
-            New Analysis
-          </button>
-        </div>
-
-        {/* Summary + Tips */}
-        <div className="glass-card" style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
-          {structured?.summary && (
-            <div>
-              <h3 style={{ fontSize: '14px', fontWeight: '600', color: 'var(--accent-primary)', marginBottom: '8px', display: 'flex', alignItems: 'center', gap: '8px' }}>
-                ✦ Summary
-              </h3>
-              <p style={{ fontSize: '14px', lineHeight: '1.7', color: '#cbd5e1' }}>{structured.summary}</p>
-            </div>
-          )}
-          {structured?.tips && structured.tips.length > 0 && (
-            <div>
-              <h3 style={{ fontSize: '14px', fontWeight: '600', color: 'var(--accent-primary)', marginBottom: '10px', display: 'flex', alignItems: 'center', gap: '8px' }}>
-                🚀 Tips to Improve
-              </h3>
-              <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
-                {structured.tips.map((tip, i) => (
-                  <div key={i} style={{
-                    display: 'flex', gap: '10px', alignItems: 'flex-start',
-                    padding: '10px 14px', borderRadius: '10px',
-                    background: 'rgba(167, 139, 250, 0.04)',
-                    border: '1px solid rgba(167, 139, 250, 0.1)',
-                    fontSize: '13px', lineHeight: '1.5', color: '#cbd5e1'
-                  }}>
-                    <span style={{ color: 'var(--accent-primary)', fontWeight: '600', flexShrink: 0 }}>{i + 1}.</span>
-                    {tip}
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
-          {/* Fallback for old plain-text feedback */}
-          {!structured && (
-            <div style={{ fontSize: '14px', lineHeight: '1.7', color: '#cbd5e1' }}>
-              {result.feedback}
-            </div>
-          )}
-        </div>
-      </div>
-
-      {/* Category breakdown */}
-      {categories.length > 0 && (
-        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '12px' }}>
-          {categories.map(key => {
-            const cat = structured![key]!;
-            const meta = CATEGORY_ICONS[key];
-            return (
-              <div key={key} className="glass-card" style={{ padding: '18px' }}>
-                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
-                  <span style={{ fontSize: '13px', fontWeight: '600', display: 'flex', alignItems: 'center', gap: '6px', textTransform: 'capitalize' }}>
-                    {meta.icon} {key}
-                  </span>
-                  <span style={{ fontSize: '16px', fontWeight: '800', color: meta.color }}>{cat.score}/10</span>
-                </div>
-                <div style={{ height: '3px', background: 'rgba(255,255,255,0.06)', borderRadius: '2px', overflow: 'hidden', marginBottom: '10px' }}>
-                  <div style={{
-                    height: '100%', width: `${cat.score * 10}%`,
-                    background: meta.color, borderRadius: '2px',
-                    transition: 'width 0.8s ease'
-                  }} />
-                </div>
-                <p style={{ fontSize: '12px', lineHeight: '1.5', color: 'var(--text-secondary)' }}>{cat.comment}</p>
-              </div>
-            );
-          })}
-        </div>
-      )}
-
-      {/* Transcript */}
-      <div className="glass-card">
-        <h3 style={{ fontSize: '14px', color: 'var(--accent-primary)', marginBottom: '10px', display: 'flex', alignItems: 'center', gap: '8px', fontWeight: '600' }}>
-          🎙️ Transcript
-        </h3>
-        <div style={{
-          fontSize: '13px', lineHeight: '1.6', color: 'var(--text-secondary)',
-          maxHeight: '160px', overflowY: 'auto',
-          padding: '12px', background: 'rgba(0,0,0,0.25)', borderRadius: '10px'
-        }}>
-          {result.transcript}
-        </div>
-      </div>
-    </div>
-  );
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
 export default function Home() {
+  const [inputMode, setInputMode] = useState<InputMode>("file");
   const [file, setFile] = useState<File | null>(null);
+  const [mediaUrl, setMediaUrl] = useState("");
+  const [scriptTitle, setScriptTitle] = useState("");
+  const [scriptText, setScriptText] = useState("");
   const [dragging, setDragging] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [processingStep, setProcessingStep] = useState(0);
-  const [result, setResult] = useState<JudgmentResult | null>(null);
+  const [jobStage, setJobStage] = useState<JobStage | null>(null);
+  const [failedStage, setFailedStage] = useState<JobStage | null>(null);
+  // Fraction of the file uploaded so far, while in the "saving" stage
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [cancelling, setCancelling] = useState(false);
+  const [result, setResult] = useState<Judgment | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [history, setHistory] = useState<JudgmentResult[]>([]);
-  const [selectedHistory, setSelectedHistory] = useState<JudgmentResult | null>(null);
+  // Shown above a report that was reused instead of judged again
+  const [notice, setNotice] = useState<string | null>(null);
+  const [history, setHistory] = useState<Judgment[]>([]);
+  const [selectedHistory, setSelectedHistory] = useState<Judgment | null>(null);
+  // Up to two history items picked for /compare, in the order they were picked
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [rubrics, setRubrics] = useState<Rubric[]>([DEFAULT_RUBRIC]);
+  const [rubricId, setRubricId] = useState(DEFAULT_RUBRIC_ID);
+  const [editingRubric, setEditingRubric] = useState(false);
+  const [platform, setPlatform] = useState<TargetPlatform | "">("");
+  // Spoken language override; "auto" lets the transcription model detect it
+  const [language, setLanguage] = useState("auto");
+  const [feedbackLanguage, setFeedbackLanguage] = useState(DEFAULT_FEEDBACK_LANGUAGE);
+  const [quota, setQuota] = useState<Quota | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
+  const [authReady, setAuthReady] = useState(false);
+  const [filters, setFilters] = useState<HistoryFilterValues>(EMPTY_HISTORY_FILTERS);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const historyRequest = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const uploadRef = useRef<HTMLDivElement>(null);
+  // The submission in progress: aborted to cancel, with its job once enqueued
+  const submission = useRef<{ controller: AbortController; jobId: string | null } | null>(null);
 
   useEffect(() => {
-    fetchHistory();
+    const auth = getBrowserClient().auth;
+    auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setAuthReady(true);
+    });
+    const { data: { subscription } } = auth.onAuthStateChange((_event, next) => setSession(next));
+    return () => subscription.unsubscribe();
   }, []);
 
-  const fetchHistory = async () => {
+  // Reload the user's own history and rubrics whenever someone signs in or out
+  const userId = session?.user.id;
+  useEffect(() => {
+    setHistory([]);
+    setRubrics([DEFAULT_RUBRIC]);
+    setRubricId(DEFAULT_RUBRIC_ID);
+    setSelectedHistory(null);
+    setCompareIds([]);
+    setResult(null);
+    setQuota(null);
+    if (!userId) return;
+    fetchRubrics();
+    fetchQuota();
+  }, [userId]);
+
+  const fetchRubrics = async () => {
     try {
-      const res = await fetch("/api/judge");
+      const res = await authFetch("/api/rubrics");
       if (res.ok) {
-        const data = await res.json();
-        setHistory(data);
+        setRubrics(await res.json());
       }
     } catch {
-      // silently fail
+      // keep the built-in rubric
+    }
+  };
+
+  const fetchQuota = async () => {
+    try {
+      const res = await authFetch("/api/judge/quota");
+      if (res.ok) {
+        setQuota(await res.json());
+      }
+    } catch {
+      // the quota line just isn't shown
     }
   };
 
+  // Load the first page for the current filters, or the page after `cursor`.
+  // Responses to superseded requests (e.g. older search terms) are dropped.
+  const fetchHistory = useCallback(async (cursor?: string) => {
+    const request = ++historyRequest.current;
+    setHistoryLoading(true);
+    try {
+      const res = await authFetch(`/api/judge?${historySearchParams({ ...filters, cursor })}`);
+      if (res.ok && request === historyRequest.current) {
+        const page: HistoryPage<Judgment> = await res.json();
+        setHistory(prev => (cursor ? [...prev, ...page.items] : page.items));
+        setNextCursor(page.nextCursor);
+      }
+    } catch {
+      // silently fail
+    } finally {
+      if (request === historyRequest.current) setHistoryLoading(false);
+    }
+  }, [filters]);
+
+  // Refetch from the top when the filters change, debounced for typing
+  useEffect(() => {
+    if (!userId) return;
+    const timer = setTimeout(() => fetchHistory(), 300);
+    return () => clearTimeout(timer);
+  }, [userId, fetchHistory]);
+
+  // Infinite scroll: load the next page when the end of the grid comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor || historyLoading) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) fetchHistory(nextCursor);
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, historyLoading, fetchHistory]);
+
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setDragging(true);
@@ -215,13 +217,13 @@ export default function Home() {
     e.preventDefault();
     setDragging(false);
     const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile && droppedFile.type.startsWith("video/")) {
+    if (droppedFile && isMediaFile(droppedFile)) {
       setFile(droppedFile);
       setError(null);
       setResult(null);
       setSelectedHistory(null);
     } else {
-      setError("Please upload a valid video file (MP4, MOV, WebM).");
+      setError("Please upload a video (MP4, MOV, WebM) or audio file (MP3, WAV, M4A).");
     }
   }, []);
 
@@ -236,24 +238,40 @@ export default function Home() {
   };
 
   const handleSubmit = async () => {
-    if (!file) return;
+    if (inputMode === "file" ? !file : inputMode === "url" ? !mediaUrl.trim() : !scriptText.trim()) return;
 
     setLoading(true);
     setError(null);
+    setNotice(null);
+    setFailedStage(null);
     setResult(null);
-    setProcessingStep(0);
-
-    const stepTimer1 = setTimeout(() => setProcessingStep(1), 2000);
-    const stepTimer2 = setTimeout(() => setProcessingStep(2), 5000);
-    const stepTimer3 = setTimeout(() => setProcessingStep(3), 8000);
+    setJobStage(inputMode === "file" ? "saving" : "queued");
+    setUploadProgress(0);
+    const controller = new AbortController();
+    const current: { controller: AbortController; jobId: string | null } = { controller, jobId: null };
+    submission.current = current;
+    const { signal } = controller;
 
     try {
-      const formData = new FormData();
-      formData.append("video", file);
+      let input: Record<string, string | undefined>;
+      if (inputMode === "file" && file) {
+        input = { uploadId: await uploadFile(file, { onProgress: setUploadProgress, signal }) };
+      } else if (inputMode === "url") {
+        input = { url: mediaUrl.trim() };
+      } else {
+        input = { text: scriptText, title: scriptTitle.trim() || undefined };
+      }
 
-      const res = await fetch("/api/judge", {
+      const res = await authFetch("/api/judge", {
         method: "POST",
-        body: formData,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...input,
+          rubricId,
+          platform: (inputMode !== "text" && platform) || undefined,
+          language,
+          feedbackLanguage,
+        }),
       });
 
       const data = await res.json();
@@ -262,18 +280,67 @@ export default function Home() {
         setError(data.error || "Something went wrong.");
         return;
       }
+      if (inputMode === "file" && file) forgetUpload(file);
+      if (signal.aborted) {
+        // Cancelled while the job was being enqueued
+        if (data.jobId && !data.duplicate) await cancelJob(data.jobId);
+        return;
+      }
+      current.jobId = data.jobId;
+
+      // Content judged before the same way comes back as that judgment, right
+      // away for uploads and text, or as the job's result for downloads
+      let judgment: Judgment = data.judgment;
+      if (!data.duplicate) {
+        const job = await watchJob(data.jobId, (update) => setJobStage(update.stage));
+
+        if (job.stage === "cancelled") return;
+        if (job.stage === "failed" || !job.result) {
+          setFailedStage(job.failedStage || null);
+          setError(job.error || "Something went wrong.");
+          return;
+        }
+        judgment = job.result;
+      }
+      if (judgment.id !== data.jobId) {
+        setNotice(`This was already judged on ${formatDate(judgment.created_at)} with the same rubric and model, so this is that report. Re-judge it for a fresh verdict.`);
+      }
 
-      setResult(data);
+      setResult(judgment);
       setFile(null);
+      setMediaUrl("");
+      setScriptTitle("");
+      setScriptText("");
       fetchHistory();
-    } catch {
-      setError("Network error. Please check your connection and try again.");
+    } catch (err) {
+      // An upload stopped by the cancel button isn't an error
+      if (signal.aborted) return;
+      setError(err instanceof Error && err.message
+        ? err.message
+        : "Network error. Please check your connection and try again.");
     } finally {
-      clearTimeout(stepTimer1);
-      clearTimeout(stepTimer2);
-      clearTimeout(stepTimer3);
+      submission.current = null;
       setLoading(false);
-      setProcessingStep(0);
+      setCancelling(false);
+      setJobStage(null);
+      fetchQuota();
+    }
+  };
+
+  // Stop the upload, or the job once it is running. The form keeps its input
+  // so the same recording can be sent again.
+  const handleCancel = async () => {
+    const current = submission.current;
+    if (!current) return;
+    setCancelling(true);
+    current.controller.abort();
+    if (current.jobId) {
+      try {
+        await cancelJob(current.jobId);
+      } catch {
+        // The job keeps reporting; if it finishes anyway the result is shown
+        setCancelling(false);
+      }
     }
   };
 
@@ -281,23 +348,91 @@ export default function Home() {
     setFile(null);
     setResult(null);
     setError(null);
+    setNotice(null);
+    setFailedStage(null);
     setSelectedHistory(null);
     if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
   const displayResult = selectedHistory || result;
 
-  const processingSteps = [
-    "Extracting audio...",
-    "Transcribing speech...",
-    "Analyzing content...",
-    "Finalizing report...",
-  ];
-
   const scrollToUpload = () => {
     uploadRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
   };
 
+  const stages = PIPELINE_STAGES.filter(s => !s.modes || s.modes.includes(inputMode));
+
+  // Target platforms only matter when there's a picture to judge
+  const showPlatform = inputMode === "url" || (inputMode === "file" && !!file?.type.startsWith("video/"));
+
+  const quotaExhausted = quota ? exhaustedPeriod(quota) : null;
+  const quotaLine = quota
+    ? [describeQuota(quota.day, 'today'), describeQuota(quota.month, 'this month')].filter(Boolean).join(' · ')
+    : '';
+
+  // Rubric, platform and language pickers, shared by every input mode
+  const judgeOptions = (
+    <>
+      <div
+        style={{ display: 'flex', gap: '8px', justifyContent: 'center', alignItems: 'center', flexWrap: 'wrap', marginTop: '20px' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <label htmlFor="rubric" style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>Rubric</label>
+        <select id="rubric" className="field" value={rubricId} onChange={(e) => setRubricId(e.target.value)}>
+          {rubrics.map(r => (
+            <option key={r.id} value={r.id}>{r.name} ({r.criteria.length} criteria)</option>
+          ))}
+        </select>
+        <button
+          className="btn btn-outline"
+          style={{ fontSize: '12px', padding: '8px 12px' }}
+          onClick={() => setEditingRubric(true)}
+        >
+          + New
+        </button>
+        {showPlatform && (
+          <>
+            <label htmlFor="platform" style={{ fontSize: '13px', color: 'var(--text-secondary)', marginLeft: '8px' }}>For</label>
+            <select id="platform" className="field" value={platform} onChange={(e) => setPlatform(e.target.value as TargetPlatform | "")}>
+              <option value="">Any platform</option>
+              <option value="vertical">Vertical (Reels, TikTok, Shorts)</option>
+              <option value="horizontal">Horizontal (YouTube, LMS)</option>
+            </select>
+          </>
+        )}
+      </div>
+
+      <div
+        style={{ display: 'flex', gap: '8px', justifyContent: 'center', alignItems: 'center', flexWrap: 'wrap', marginTop: '10px' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <label htmlFor="language" style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>{inputMode === "text" ? 'Written in' : 'Spoken in'}</label>
+        <select id="language" className="field" value={language} onChange={(e) => setLanguage(e.target.value)}>
+          <option value="auto">Detect automatically</option>
+          {LANGUAGES.map(l => (
+            <option key={l.code} value={l.code}>{l.name}</option>
+          ))}
+        </select>
+        <label htmlFor="feedback-language" style={{ fontSize: '13px', color: 'var(--text-secondary)', marginLeft: '8px' }}>Feedback in</label>
+        <select id="feedback-language" className="field" value={feedbackLanguage} onChange={(e) => setFeedbackLanguage(e.target.value)}>
+          {LANGUAGES.map(l => (
+            <option key={l.code} value={l.code}>{l.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {quotaExhausted ? (
+        <p style={{ fontSize: '12px', color: '#fbbf24', textAlign: 'center', marginTop: '12px' }}>
+          You&apos;ve used up your quota. It resets {formatDate(quotaExhausted.resetsAt)}.
+        </p>
+      ) : quotaLine && (
+        <p style={{ fontSize: '12px', color: 'var(--text-secondary)', textAlign: 'center', marginTop: '12px' }}>
+          {quotaLine}
+        </p>
+      )}
+    </>
+  );
+
   return (
     <>
       {/* ─── Navbar ─── */}
@@ -311,8 +446,15 @@ export default function Home() {
         <div className="nav-links">
           <a href="#upload" className="nav-link">Upload</a>
           <a href="#history" className="nav-link">History</a>
+          <a href="/dashboard" className="nav-link">Progress</a>
         </div>
-        <button className="nav-cta" onClick={scrollToUpload}>Get Started</button>
+        {session ? (
+          <button className="nav-cta" onClick={() => getBrowserClient().auth.signOut()} title={session.user.email}>
+            Sign out
+          </button>
+        ) : (
+          <button className="nav-cta" onClick={scrollToUpload}>Get Started</button>
+        )}
       </nav>
 
       {/* ─── Hero with Orb ─── */}
@@ -365,101 +507,215 @@ export default function Home() {
             textAlign: 'center', color: 'var(--text-secondary)', fontSize: '15px',
             marginBottom: '32px', maxWidth: '400px', margin: '0 auto 32px'
           }}>
-            Drop your video and let the AI do the rest
+            Drop a video or audio file, link one, or paste a script
           </p>
 
           <div className="upload-container">
-            {!displayResult && !loading ? (
-              <div
-                className={`upload-zone-custom ${dragging ? "dragging" : ""}`}
-                onDragOver={handleDragOver}
-                onDragLeave={handleDragLeave}
-                onDrop={handleDrop}
-                onClick={() => fileInputRef.current?.click()}
-              >
-                {!file ? (
-                  <>
-                    {/* Upload icon with glow ring */}
-                    <div style={{
-                      width: '72px', height: '72px', borderRadius: '50%',
-                      background: 'rgba(167, 139, 250, 0.08)',
-                      border: '1px solid rgba(167, 139, 250, 0.2)',
-                      display: 'flex', alignItems: 'center', justifyContent: 'center',
-                      margin: '0 auto 20px',
-                    }}>
-                      <svg width="28" height="28" fill="none" stroke="var(--accent-primary)" viewBox="0 0 24 24" strokeWidth="1.8">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M12 16V4m0 0l-4 4m4-4l4 4" />
-                        <path strokeLinecap="round" d="M20 16.7V19a2 2 0 01-2 2H6a2 2 0 01-2-2v-2.3" />
-                      </svg>
-                    </div>
-                    <h3 style={{ fontSize: '17px', fontWeight: '600', marginBottom: '6px', color: 'white' }}>
-                      Upload Video for Analysis
-                    </h3>
-                    <p style={{ color: 'var(--text-secondary)', fontSize: '13px', marginBottom: '18px' }}>
-                      Drag & drop or click to browse
-                    </p>
-                    {/* Format pills */}
-                    <div style={{ display: 'flex', gap: '8px', justifyContent: 'center', flexWrap: 'wrap' }}>
-                      {['MP4', 'MOV', 'MKV', 'WebM'].map(fmt => (
-                        <span key={fmt} style={{
-                          fontSize: '11px', fontWeight: '500', padding: '4px 12px',
-                          borderRadius: '100px', background: 'rgba(255,255,255,0.04)',
-                          border: '1px solid rgba(255,255,255,0.08)', color: 'var(--text-secondary)',
-                          letterSpacing: '0.5px'
-                        }}>{fmt}</span>
-                      ))}
-                    </div>
-                  </>
-                ) : (
-                  <div>
-                    {/* File ready icon */}
-                    <div style={{
-                      width: '64px', height: '64px', borderRadius: '50%',
-                      background: 'rgba(56, 189, 248, 0.1)',
-                      border: '1px solid rgba(56, 189, 248, 0.25)',
-                      display: 'flex', alignItems: 'center', justifyContent: 'center',
-                      margin: '0 auto 16px',
-                    }}>
-                      <svg width="24" height="24" fill="none" stroke="var(--accent-secondary)" viewBox="0 0 24 24" strokeWidth="2">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
-                      </svg>
-                    </div>
-                    <h3 style={{ color: 'white', fontSize: '18px', fontWeight: '600', marginBottom: '4px' }}>{file.name}</h3>
-                    <p style={{ color: 'var(--text-secondary)', fontSize: '13px' }}>{formatFileSize(file.size)}</p>
+            {authReady && !session ? (
+              <AuthPanel />
+            ) : !displayResult && !loading ? (
+              <>
+                <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', marginBottom: '16px' }}>
+                  {INPUT_MODES.map(({ mode, label }) => (
+                    <button
+                      key={mode}
+                      className={`btn ${inputMode === mode ? 'btn-primary' : 'btn-outline'}`}
+                      style={{ fontSize: '12px', padding: '6px 14px' }}
+                      onClick={() => { setInputMode(mode); setError(null); }}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
 
-                    <div style={{ display: 'flex', gap: '12px', justifyContent: 'center', marginTop: '24px' }}>
+                {inputMode === "file" ? (
+                  <div
+                    className={`upload-zone-custom ${dragging ? "dragging" : ""}`}
+                    onDragOver={handleDragOver}
+                    onDragLeave={handleDragLeave}
+                    onDrop={handleDrop}
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    {!file ? (
+                      <>
+                        {/* Upload icon with glow ring */}
+                        <div style={{
+                          width: '72px', height: '72px', borderRadius: '50%',
+                          background: 'rgba(167, 139, 250, 0.08)',
+                          border: '1px solid rgba(167, 139, 250, 0.2)',
+                          display: 'flex', alignItems: 'center', justifyContent: 'center',
+                          margin: '0 auto 20px',
+                        }}>
+                          <svg width="28" height="28" fill="none" stroke="var(--accent-primary)" viewBox="0 0 24 24" strokeWidth="1.8">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M12 16V4m0 0l-4 4m4-4l4 4" />
+                            <path strokeLinecap="round" d="M20 16.7V19a2 2 0 01-2 2H6a2 2 0 01-2-2v-2.3" />
+                          </svg>
+                        </div>
+                        <h3 style={{ fontSize: '17px', fontWeight: '600', marginBottom: '6px', color: 'white' }}>
+                          Upload Video or Audio for Analysis
+                        </h3>
+                        <p style={{ color: 'var(--text-secondary)', fontSize: '13px', marginBottom: '18px' }}>
+                          Drag & drop or click to browse
+                        </p>
+                        {/* Format pills */}
+                        <div style={{ display: 'flex', gap: '8px', justifyContent: 'center', flexWrap: 'wrap' }}>
+                          {['MP4', 'MOV', 'MKV', 'WebM', 'MP3', 'WAV', 'M4A'].map(fmt => (
+                            <span key={fmt} style={{
+                              fontSize: '11px', fontWeight: '500', padding: '4px 12px',
+                              borderRadius: '100px', background: 'rgba(255,255,255,0.04)',
+                              border: '1px solid rgba(255,255,255,0.08)', color: 'var(--text-secondary)',
+                              letterSpacing: '0.5px'
+                            }}>{fmt}</span>
+                          ))}
+                        </div>
+                      </>
+                    ) : (
+                      <div>
+                        {/* File ready icon */}
+                        <div style={{
+                          width: '64px', height: '64px', borderRadius: '50%',
+                          background: 'rgba(56, 189, 248, 0.1)',
+                          border: '1px solid rgba(56, 189, 248, 0.25)',
+                          display: 'flex', alignItems: 'center', justifyContent: 'center',
+                          margin: '0 auto 16px',
+                        }}>
+                          <svg width="24" height="24" fill="none" stroke="var(--accent-secondary)" viewBox="0 0 24 24" strokeWidth="2">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                          </svg>
+                        </div>
+                        <h3 style={{ color: 'white', fontSize: '18px', fontWeight: '600', marginBottom: '4px' }}>{file.name}</h3>
+                        <p style={{ color: 'var(--text-secondary)', fontSize: '13px' }}>{formatFileSize(file.size)}</p>
+
+                        {judgeOptions}
+
+                        <div style={{ display: 'flex', gap: '12px', justifyContent: 'center', marginTop: '24px' }}>
+                          <button
+                            className="btn btn-primary"
+                            onClick={(e) => { e.stopPropagation(); handleSubmit(); }}
+                            disabled={loading || !!quotaExhausted}
+                          >
+                            Analyze Now
+                          </button>
+                          <button
+                            className="btn btn-outline"
+                            onClick={(e) => { e.stopPropagation(); handleReset(); }}
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="video/*,audio/*"
+                      style={{ display: 'none' }}
+                      onChange={handleFileSelect}
+                    />
+                  </div>
+                ) : (
+                  <div className="upload-zone-custom" style={{ cursor: 'default', textAlign: 'left' }}>
+                    {inputMode === "url" ? (
+                      <>
+                        <label htmlFor="media-url" style={{ display: 'block', fontSize: '13px', color: 'var(--text-secondary)', marginBottom: '8px' }}>
+                          Link to a video or audio file
+                        </label>
+                        <input
+                          id="media-url"
+                          type="url"
+                          className="field"
+                          style={{ width: '100%' }}
+                          placeholder="https://example.com/episode-12.mp3"
+                          value={mediaUrl}
+                          onChange={(e) => setMediaUrl(e.target.value)}
+                        />
+                        <p style={{ fontSize: '12px', color: 'var(--text-secondary)', marginTop: '6px' }}>
+                          The link must point at the media file itself, not a page that plays it.
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <input
+                          className="field"
+                          style={{ width: '100%', marginBottom: '10px' }}
+                          placeholder="Title (optional)"
+                          aria-label="Title"
+                          value={scriptTitle}
+                          onChange={(e) => setScriptTitle(e.target.value)}
+                        />
+                        <textarea
+                          className="field"
+                          style={{ width: '100%', minHeight: '200px', resize: 'vertical', lineHeight: '1.6' }}
+                          placeholder="Paste a script or transcript. SRT and WebVTT subtitles keep their timestamps."
+                          aria-label="Script or transcript"
+                          value={scriptText}
+                          onChange={(e) => setScriptText(e.target.value)}
+                        />
+                      </>
+                    )}
+
+                    {judgeOptions}
+
+                    <div style={{ display: 'flex', justifyContent: 'center', marginTop: '24px' }}>
                       <button
                         className="btn btn-primary"
-                        onClick={(e) => { e.stopPropagation(); handleSubmit(); }}
-                        disabled={loading}
+                        onClick={handleSubmit}
+                        disabled={!!quotaExhausted || (inputMode === "url" ? !mediaUrl.trim() : !scriptText.trim())}
                       >
                         Analyze Now
                       </button>
-                      <button
-                        className="btn btn-outline"
-                        onClick={(e) => { e.stopPropagation(); handleReset(); }}
-                      >
-                        Cancel
-                      </button>
                     </div>
                   </div>
                 )}
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  accept="video/*"
-                  style={{ display: 'none' }}
-                  onChange={handleFileSelect}
-                />
-              </div>
+              </>
             ) : null}
 
+            {editingRubric && !loading && !displayResult && (
+              <RubricEditor
+                onCreated={(rubric) => {
+                  setRubrics(prev => [...prev, rubric]);
+                  setRubricId(rubric.id);
+                  setEditingRubric(false);
+                }}
+                onCancel={() => setEditingRubric(false)}
+              />
+            )}
+
             {/* Loading State */}
             {loading && (
               <div style={{ textAlign: 'center', padding: '56px 24px' }}>
                 <div className="spinner" />
-                <h3 style={{ fontSize: '18px', fontWeight: '600', marginBottom: '8px' }}>Analyzing Your Video</h3>
-                <p style={{ color: 'var(--text-secondary)', fontSize: '14px' }}>{processingSteps[processingStep] || "Finalizing..."}</p>
+                <h3 style={{ fontSize: '18px', fontWeight: '600', marginBottom: '8px' }}>{inputMode === "text" ? 'Analyzing Your Script' : 'Analyzing Your Recording'}</h3>
+                <p style={{ color: 'var(--text-secondary)', fontSize: '14px', marginBottom: '20px' }}>
+                  {jobStage === "saving"
+                    ? `Uploading file... ${Math.floor(uploadProgress * 100)}%`
+                    : jobStage ? `${stageLabel(jobStage)}...` : "Finalizing..."}
+                </p>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', maxWidth: '260px', margin: '0 auto', textAlign: 'left' }}>
+                  {stages.map(({ stage, label }, i) => {
+                    const current = stages.findIndex(s => s.stage === jobStage);
+                    const done = i < current;
+                    const active = i === current;
+                    return (
+                      <div key={stage} style={{
+                        display: 'flex', alignItems: 'center', gap: '10px', fontSize: '13px',
+                        color: active ? 'white' : done ? 'var(--accent-secondary)' : 'var(--text-secondary)',
+                        opacity: done || active ? 1 : 0.5,
+                      }}>
+                        <span style={{ width: '16px', textAlign: 'center' }}>{done ? '✓' : active ? '●' : '○'}</span>
+                        {label}
+                      </div>
+                    );
+                  })}
+                </div>
+                <button
+                  className="btn btn-outline"
+                  onClick={handleCancel}
+                  disabled={cancelling || jobStage === "persisting"}
+                  style={{ marginTop: '24px' }}
+                >
+                  {cancelling ? 'Cancelling…' : 'Cancel analysis'}
+                </button>
               </div>
             )}
 
@@ -470,13 +726,42 @@ export default function Home() {
                 background: 'rgba(248, 113, 113, 0.06)', borderRadius: '10px',
                 border: '1px solid rgba(248, 113, 113, 0.15)', marginTop: '16px'
               }}>
+                {failedStage && (
+                  <div style={{ fontSize: '11px', textTransform: 'uppercase', letterSpacing: '1px', marginBottom: '6px', opacity: 0.8 }}>
+                    Failed while: {stageLabel(failedStage)}
+                  </div>
+                )}
                 {error}
               </div>
             )}
 
+            {notice && displayResult === result && !loading && (
+              <div style={{
+                padding: '12px 16px', color: '#38bdf8', fontSize: '13px', lineHeight: '1.5',
+                background: 'rgba(56, 189, 248, 0.06)', borderRadius: '10px',
+                border: '1px solid rgba(56, 189, 248, 0.15)', marginBottom: '16px'
+              }}>
+                ♻️ {notice}
+              </div>
+            )}
+
             {/* Results */}
             {displayResult && !loading && (
-              <FeedbackDisplay result={displayResult} onReset={handleReset} />
+              <FeedbackDisplay
+                key={displayResult.id}
+                result={displayResult}
+                onReset={handleReset}
+                owner
+                onOpen={(judgment) => {
+                  setSelectedHistory(null);
+                  setResult(judgment);
+                  fetchHistory();
+                }}
+                onDeleted={() => {
+                  handleReset();
+                  fetchHistory();
+                }}
+              />
             )}
           </div>
         </div>
@@ -496,51 +781,104 @@ export default function Home() {
             Click any past analysis to view details
           </p>
 
+          {session && <HistoryFilters value={filters} rubrics={rubrics} onChange={setFilters} />}
+
+          {compareIds.length > 0 && (
+            <div className="glass-card" style={{
+              display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '12px',
+              padding: '12px 18px', marginBottom: '14px', fontSize: '13px',
+            }}>
+              <span style={{ color: 'var(--text-secondary)' }}>
+                {compareIds.length === 1 ? 'Pick another analysis to compare with.' : 'Two analyses selected.'}
+              </span>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <button className="btn btn-outline" onClick={() => setCompareIds([])}>Clear</button>
+                {compareIds.length === 2 && (
+                  <a href={`/compare?${new URLSearchParams({ a: compareIds[0], b: compareIds[1] })}`} className="btn btn-primary" style={{ textDecoration: 'none' }}>
+                    Compare
+                  </a>
+                )}
+              </div>
+            </div>
+          )}
+
           {history.length > 0 ? (
-            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))', gap: '14px' }}>
-              {history.map((item) => (
-                <div
-                  key={item.id}
-                  className="history-card"
-                  onClick={() => {
-                    setSelectedHistory(item);
-                    setResult(null);
-                    setFile(null);
-                    uploadRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
-                  }}
-                >
-                  <div style={{ display: 'flex', alignItems: 'center', gap: '14px', overflow: 'hidden', flex: 1 }}>
-                    {/* Video file icon */}
-                    <div style={{
-                      width: '40px', height: '40px', borderRadius: '10px', flexShrink: 0,
-                      background: 'rgba(167, 139, 250, 0.08)',
-                      border: '1px solid rgba(167, 139, 250, 0.15)',
-                      display: 'flex', alignItems: 'center', justifyContent: 'center',
-                    }}>
-                      <svg width="18" height="18" fill="none" stroke="var(--accent-primary)" viewBox="0 0 24 24" strokeWidth="1.8">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                      </svg>
-                    </div>
-                    <div style={{ overflow: 'hidden' }}>
+            <>
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))', gap: '14px' }}>
+                {history.map((item) => (
+                  <div
+                    key={item.id}
+                    className="history-card"
+                    onClick={() => {
+                      setSelectedHistory(item);
+                      setResult(null);
+                      setFile(null);
+                      uploadRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+                    }}
+                  >
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '14px', overflow: 'hidden', flex: 1 }}>
+                      {/* Video file icon */}
                       <div style={{
-                        fontWeight: '600', fontSize: '14px', marginBottom: '2px',
-                        whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis'
+                        width: '40px', height: '40px', borderRadius: '10px', flexShrink: 0,
+                        background: 'rgba(167, 139, 250, 0.08)',
+                        border: '1px solid rgba(167, 139, 250, 0.15)',
+                        display: 'flex', alignItems: 'center', justifyContent: 'center',
                       }}>
-                        {item.video_filename}
+                        <svg width="18" height="18" fill="none" stroke="var(--accent-primary)" viewBox="0 0 24 24" strokeWidth="1.8">
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                        </svg>
+                      </div>
+                      <div style={{ overflow: 'hidden' }}>
+                        <div style={{
+                          fontWeight: '600', fontSize: '14px', marginBottom: '2px',
+                          whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis'
+                        }}>
+                          {INPUT_ICONS[item.input_kind ?? 'video']} {item.video_filename}
+                        </div>
+                        <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                          {formatDate(item.created_at)}{item.version && item.version > 1 ? ` · v${item.version}` : ''}
+                        </div>
                       </div>
-                      <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>{formatDate(item.created_at)}</div>
                     </div>
+                    {item.status !== 'failed' && (
+                      <button
+                        title={compareIds.includes(item.id) ? 'Remove from comparison' : 'Compare with another analysis'}
+                        aria-pressed={compareIds.includes(item.id)}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setCompareIds(prev => prev.includes(item.id)
+                            ? prev.filter(id => id !== item.id)
+                            : [...prev, item.id].slice(-2));
+                        }}
+                        style={{
+                          marginLeft: '12px', width: '28px', height: '28px', borderRadius: '8px', flexShrink: 0,
+                          cursor: 'pointer', fontSize: '14px',
+                          background: compareIds.includes(item.id) ? 'rgba(167, 139, 250, 0.2)' : 'transparent',
+                          border: `1px solid ${compareIds.includes(item.id) ? 'var(--accent-primary)' : 'rgba(255,255,255,0.1)'}`,
+                          color: compareIds.includes(item.id) ? 'var(--accent-primary)' : 'var(--text-secondary)',
+                        }}
+                      >
+                        ⇄
+                      </button>
+                    )}
+                    {item.status === 'failed' ? (
+                      <div style={{ fontSize: '12px', fontWeight: '600', color: '#f87171', marginLeft: '16px' }}>Failed</div>
+                    ) : (
+                      <div style={{
+                        fontSize: '22px', fontWeight: '800', marginLeft: '16px',
+                        background: 'linear-gradient(135deg, var(--accent-primary), var(--accent-secondary))',
+                        WebkitBackgroundClip: 'text', WebkitTextFillColor: 'transparent',
+                      }}>
+                        {item.score}
+                      </div>
+                    )}
                   </div>
-                  <div style={{
-                    fontSize: '22px', fontWeight: '800', marginLeft: '16px',
-                    background: 'linear-gradient(135deg, var(--accent-primary), var(--accent-secondary))',
-                    WebkitBackgroundClip: 'text', WebkitTextFillColor: 'transparent',
-                  }}>
-                    {item.score}
-                  </div>
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+              <div ref={loadMoreRef} style={{ textAlign: 'center', padding: '20px', fontSize: '13px', color: 'var(--text-secondary)' }}>
+                {historyLoading && 'Loading…'}
+              </div>
+            </>
           ) : (
             <div style={{
               textAlign: 'center', padding: '48px 24px',
@@ -560,7 +898,11 @@ export default function Home() {
                 </svg>
               </div>
               <p style={{ color: 'var(--text-secondary)', fontSize: '14px' }}>
-                No analyses yet. Upload a video to get started.
+                {historyLoading
+                  ? 'Loading…'
+                  : hasActiveFilters(filters)
+                    ? 'No analyses match these filters.'
+                    : 'No analyses yet. Upload a video to get started.'}
               </p>
             </div>
           )}
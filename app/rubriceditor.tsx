@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import type { Rubric } from "@/lib/rubrics";
+import { authFetch } from "@/lib/supabase-browser";
+
+interface CriterionDraft {
+  name: string;
+  description: string;
+  weight: string;
+  min: string;
+  max: string;
+}
+
+const EMPTY_CRITERION: CriterionDraft = { name: "", description: "", weight: "1", min: "1", max: "10" };
+
+export default function RubricEditor({ onCreated, onCancel }: {
+  onCreated: (rubric: Rubric) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [criteria, setCriteria] = useState<CriterionDraft[]>([{ ...EMPTY_CRITERION }]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateCriterion = (index: number, patch: Partial<CriterionDraft>) => {
+    setCriteria(prev => prev.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await authFetch("/api/rubrics", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          description,
+          criteria: criteria.map(c => ({
+            name: c.name,
+            description: c.description,
+            weight: Number(c.weight),
+            min: Number(c.min),
+            max: Number(c.max),
+          })),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to save rubric.");
+        return;
+      }
+      onCreated(data);
+    } catch {
+      setError("Network error. Please check your connection and try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="glass-card" style={{ display: 'flex', flexDirection: 'column', gap: '12px', marginTop: '16px' }}>
+      <h3 style={{ fontSize: '14px', fontWeight: '600', color: 'var(--accent-primary)' }}>📐 New Rubric</h3>
+      <input className="field" placeholder="Rubric name (e.g. Sales pitch)" value={name} onChange={e => setName(e.target.value)} />
+      <input className="field" placeholder="Description (optional)" value={description} onChange={e => setDescription(e.target.value)} />
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr 64px 56px 56px 32px', gap: '6px', fontSize: '11px', color: 'var(--text-secondary)' }}>
+          <span>Criterion</span><span>What judges look for</span><span>Weight</span><span>Min</span><span>Max</span><span />
+        </div>
+        {criteria.map((c, i) => (
+          <div key={i} style={{ display: 'grid', gridTemplateColumns: '1fr 2fr 64px 56px 56px 32px', gap: '6px' }}>
+            <input className="field" value={c.name} placeholder="Objection handling" onChange={e => updateCriterion(i, { name: e.target.value })} />
+            <input className="field" value={c.description} placeholder="Does the speaker address likely objections?" onChange={e => updateCriterion(i, { description: e.target.value })} />
+            <input className="field" type="number" min="0" step="0.5" value={c.weight} onChange={e => updateCriterion(i, { weight: e.target.value })} />
+            <input className="field" type="number" min="0" value={c.min} onChange={e => updateCriterion(i, { min: e.target.value })} />
+            <input className="field" type="number" max="100" value={c.max} onChange={e => updateCriterion(i, { max: e.target.value })} />
+            <button
+              className="btn btn-outline"
+              style={{ padding: '0', fontSize: '14px' }}
+              disabled={criteria.length === 1}
+              onClick={() => setCriteria(prev => prev.filter((_, j) => j !== i))}
+              aria-label="Remove criterion"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {error && <p style={{ color: '#f87171', fontSize: '13px' }}>{error}</p>}
+
+      <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
+        <button className="btn btn-outline" style={{ fontSize: '13px', padding: '8px 16px' }} onClick={() => setCriteria(prev => [...prev, { ...EMPTY_CRITERION }])}>
+          + Add criterion
+        </button>
+        <div style={{ flex: 1 }} />
+        <button className="btn btn-outline" style={{ fontSize: '13px', padding: '8px 16px' }} onClick={onCancel}>
+          Cancel
+        </button>
+        <button className="btn btn-primary" style={{ fontSize: '13px', padding: '8px 16px' }} onClick={handleSave} disabled={saving}>
+          {saving ? "Saving..." : "Save Rubric"}
+        </button>
+      </div>
+    </div>
+  );
+}
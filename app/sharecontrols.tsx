@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+import { reportPath, type Judgment, type JudgmentVisibility } from "@/lib/judgment";
+import { authFetch } from "@/lib/supabase-browser";
+
+const VISIBILITY_OPTIONS: { value: JudgmentVisibility; label: string; hint: string }[] = [
+  { value: "private", label: "Private", hint: "Only you can open this report." },
+  { value: "unlisted", label: "Anyone with the link", hint: "The link includes a secret token. Switch back to private to revoke it." },
+  { value: "public", label: "Public", hint: "Anyone with the report's address can open it." },
+];
+
+// Visibility picker and permalink for a report the viewer owns
+export default function ShareControls({ judgment }: { judgment: Judgment }) {
+  const [sharing, setSharing] = useState({
+    visibility: judgment.visibility || "private",
+    share_token: judgment.share_token ?? null,
+  });
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const path = reportPath({ id: judgment.id, ...sharing });
+  const option = VISIBILITY_OPTIONS.find(o => o.value === sharing.visibility)!;
+
+  const handleChange = async (visibility: JudgmentVisibility) => {
+    setSaving(true);
+    setError(null);
+    setCopied(false);
+    try {
+      const res = await authFetch(`/api/judge/${judgment.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ visibility }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to update sharing.");
+        return;
+      }
+      setSharing(data);
+    } catch {
+      setError("Network error. Please check your connection and try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(`${window.location.origin}${path}`);
+    setCopied(true);
+  };
+
+  return (
+    <div className="glass-card" style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px', padding: '14px 18px' }}>
+      <span style={{ fontSize: '13px', fontWeight: '600', color: 'var(--accent-primary)' }}>🔗 Share</span>
+      <select
+        className="field"
+        value={sharing.visibility}
+        disabled={saving}
+        onChange={e => handleChange(e.target.value as JudgmentVisibility)}
+        aria-label="Who can open this report"
+      >
+        {VISIBILITY_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+      </select>
+      <span style={{ fontSize: '12px', color: 'var(--text-secondary)', flex: '1 1 200px' }}>{error || option.hint}</span>
+      {sharing.visibility !== "private" && (
+        <button className="btn btn-outline" style={{ fontSize: '13px', padding: '8px 14px' }} onClick={handleCopy}>
+          {copied ? "Copied!" : "Copy link"}
+        </button>
+      )}
+      <a className="btn btn-outline" style={{ fontSize: '13px', padding: '8px 14px' }} href={path} target="_blank" rel="noreferrer">
+        Open report page
+      </a>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import type { SeriesPoint } from "@/lib/stats";
+
+const WIDTH = 600;
+const PADDING = { top: 10, right: 10, bottom: 10, left: 32 };
+
+// Line chart of scores (0-100) over sessions: one dot per session and the
+// rolling average as a solid line. Sessions are spaced evenly rather than by
+// date so bursts of recordings stay readable.
+export default function TrendChart({ points, color, height = 200, compact = false }: {
+  points: SeriesPoint[];
+  color: string;
+  height?: number;
+  // Hide the axis labels, for small multiples
+  compact?: boolean;
+}) {
+  const left = compact ? PADDING.right : PADDING.left;
+  const innerWidth = WIDTH - left - PADDING.right;
+  const innerHeight = height - PADDING.top - PADDING.bottom;
+  const x = (i: number) => left + (points.length > 1 ? (i / (points.length - 1)) * innerWidth : innerWidth / 2);
+  const y = (value: number) => PADDING.top + (1 - value / 100) * innerHeight;
+  const line = (key: "value" | "rolling") => points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(p[key]).toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} style={{ width: '100%', height: 'auto', display: 'block' }} role="img">
+      {[0, 25, 50, 75, 100].map(tick => (
+        <g key={tick}>
+          <line x1={left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="rgba(255,255,255,0.06)" />
+          {!compact && (
+            <text x={left - 8} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="var(--text-secondary)">{tick}</text>
+          )}
+        </g>
+      ))}
+      {points.length > 1 && (
+        <path d={line('value')} fill="none" stroke={color} strokeOpacity="0.3" strokeWidth="1.5" strokeDasharray="4 4" />
+      )}
+      <path d={line('rolling')} fill="none" stroke={color} strokeWidth={compact ? 2.5 : 3} strokeLinejoin="round" />
+      {points.map((p, i) => (
+        <circle key={p.id} cx={x(i)} cy={y(p.value)} r={compact ? 3 : 4} fill={color}>
+          <title>{`${new Date(p.createdAt).toLocaleDateString()} · ${p.value} (rolling ${p.rolling})`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
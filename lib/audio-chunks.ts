@@ -0,0 +1,138 @@
+import { createReadStream, createWriteStream } from "fs";
+import { pipeline } from "stream/promises";
+import type { WavAudio } from "@/lib/metrics";
+import type { TranscriptionResult } from "@/lib/providers";
+
+// Splitting long recordings for transcription. Whisper endpoints cap the file
+// size (25MB on Groq and OpenAI, about 13 minutes of 16 kHz WAV), so long
+// audio is cut into chunks at the quietest moment near each boundary. Chunks
+// overlap slightly so words at a cut aren't lost; when stitching, each chunk
+// only contributes what falls inside its own span.
+
+// Target chunk length, from TRANSCRIPTION_CHUNK_SECONDS (default 10 minutes)
+export const CHUNK_SECONDS = Number(process.env.TRANSCRIPTION_CHUNK_SECONDS || 600);
+export const CHUNK_OVERLAP_SECONDS = 2;
+// How far before a boundary to look for a pause to cut at
+const CUT_SEARCH_SECONDS = 30;
+const FRAME_SECONDS = 0.05;
+
+export interface AudioChunk {
+    // The chunk's own span; stitching keeps what starts inside it
+    start: number;
+    end: number;
+    // The audio actually sent, including the overlap on either side
+    paddedStart: number;
+    paddedEnd: number;
+}
+
+// Pick the quietest stretch in a window: the centre of the longest run of
+// frames within 3 dB of the window's quietest frame
+function quietestPoint(frames: number[], from: number, to: number): number {
+    const window = frames.slice(from, to);
+    if (window.length === 0) return to;
+    const floor = Math.min(...window) + 3;
+
+    let best = { start: to - 1, length: 0 };
+    let runStart = -1;
+    for (let i = 0; i <= window.length; i++) {
+        const quiet = i < window.length && window[i] <= floor;
+        if (quiet && runStart === -1) runStart = i;
+        if (!quiet && runStart !== -1) {
+            if (i - runStart > best.length) best = { start: from + runStart, length: i - runStart };
+            runStart = -1;
+        }
+    }
+    return best.start + Math.floor(best.length / 2);
+}
+
+// Plan chunks for a recording. Short recordings come back as a single chunk.
+export function planChunks(audio: WavAudio, chunkSeconds = CHUNK_SECONDS, overlapSeconds = CHUNK_OVERLAP_SECONDS): AudioChunk[] {
+    const duration = audio.sampleCount / audio.sampleRate;
+    if (duration <= chunkSeconds) {
+        return [{ start: 0, end: duration, paddedStart: 0, paddedEnd: duration }];
+    }
+
+    const { frames } = audio;
+    const searchFrames = Math.min(Math.round(CUT_SEARCH_SECONDS / FRAME_SECONDS), Math.round(chunkSeconds / FRAME_SECONDS / 2));
+    const cuts = [0];
+    // Cut before the target length so padded chunks stay under the size limit
+    while (duration - cuts[cuts.length - 1] > chunkSeconds) {
+        const previous = cuts[cuts.length - 1];
+        const target = Math.round((previous + chunkSeconds - overlapSeconds * 2) / FRAME_SECONDS);
+        const cut = quietestPoint(frames, target - searchFrames, target) * FRAME_SECONDS;
+        // Always move forward, even with a tiny configured chunk length
+        cuts.push(Math.max(cut, previous + chunkSeconds / 2));
+    }
+    cuts.push(duration);
+
+    return cuts.slice(0, -1).map((start, i) => ({
+        start,
+        end: cuts[i + 1],
+        paddedStart: Math.max(0, start - overlapSeconds),
+        paddedEnd: Math.min(duration, cuts[i + 1] + overlapSeconds),
+    }));
+}
+
+// Write part of a recording as a 16-bit mono WAV, copying the samples
+// straight from the recording's file
+export async function writeWavChunk(path: string, audio: WavAudio, start: number, end: number): Promise<void> {
+    const from = Math.floor(start * audio.sampleRate);
+    const to = Math.min(audio.sampleCount, Math.ceil(end * audio.sampleRate));
+    const length = Math.max(0, to - from) * 2;
+
+    const header = Buffer.alloc(44);
+    header.write("RIFF", 0, "ascii");
+    header.writeUInt32LE(36 + length, 4);
+    header.write("WAVE", 8, "ascii");
+    header.write("fmt ", 12, "ascii");
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(1, 20); // PCM
+    header.writeUInt16LE(1, 22); // mono
+    header.writeUInt32LE(audio.sampleRate, 24);
+    header.writeUInt32LE(audio.sampleRate * 2, 28);
+    header.writeUInt16LE(2, 32);
+    header.writeUInt16LE(16, 34);
+    header.write("data", 36, "ascii");
+    header.writeUInt32LE(length, 40);
+
+    await pipeline(
+        async function* () {
+            yield header;
+            if (length > 0) yield* createReadStream(audio.path, { start: audio.dataOffset + from * 2, end: audio.dataOffset + from * 2 + length - 1 });
+        },
+        createWriteStream(path)
+    );
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+// Merge per-chunk transcriptions into one with timestamps on the recording's
+// clock. Segments and words belong to the chunk whose span contains their start.
+export function stitchTranscripts(chunks: AudioChunk[], results: TranscriptionResult[]): TranscriptionResult {
+    if (results.length === 1) return results[0];
+
+    const segments: TranscriptionResult["segments"] = [];
+    const words: TranscriptionResult["words"] = [];
+    const texts: string[] = [];
+    chunks.forEach((chunk, i) => {
+        const result = results[i];
+        const offset = chunk.paddedStart;
+        const inSpan = (start: number) => start + offset >= chunk.start && start + offset < chunk.end;
+
+        const kept = result.segments.filter((s) => inSpan(s.start));
+        segments.push(...kept.map((s) => ({ start: round(s.start + offset), end: round(s.end + offset), text: s.text })));
+        words.push(...result.words.filter((w) => inSpan(w.start)).map((w) => ({ word: w.word, start: round(w.start + offset), end: round(w.end + offset) })));
+        // Without segments there is nothing to trim the overlap by
+        texts.push(result.segments.length > 0 ? kept.map((s) => s.text).join(" ") : result.text);
+    });
+
+    const language = results.find((r) => r.language)?.language;
+    return {
+        text: texts.filter(Boolean).join(" ").trim(),
+        segments,
+        words,
+        ...(language ? { language } : {}),
+    };
+}
@@ -0,0 +1,141 @@
+import type { Judgment, StructuredFeedback } from "@/lib/judgment";
+
+// Comparing two takes: per-criterion score deltas and a word-level transcript
+// diff. The "what changed" write-up comes from the judge model, see
+// analyzeChanges in lib/pipeline.ts.
+
+export interface DiffPart {
+    type: "same" | "added" | "removed";
+    text: string;
+}
+
+export interface CriterionDelta {
+    key: string;
+    name: string;
+    min: number;
+    max: number;
+    // Null when the criterion is only in one take's rubric
+    a: number | null;
+    b: number | null;
+    // b - a in the criterion's units
+    delta: number | null;
+}
+
+export interface ChangeAnalysis {
+    summary: string;
+    // Which take is stronger overall
+    better: "a" | "b" | "tie";
+    improvements: string[];
+    regressions: string[];
+}
+
+export interface Comparison {
+    a: Judgment;
+    b: Judgment;
+    scoreDelta: number | null;
+    criteria: CriterionDelta[];
+    diff: DiffPart[];
+}
+
+// Above this many LCS cells the diff falls back to whole sentences
+const MAX_DIFF_CELLS = 4_000_000;
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+// Criteria of both rubrics, in take A's order followed by any only in take B
+export function criterionDeltas(a: StructuredFeedback | null, b: StructuredFeedback | null): CriterionDelta[] {
+    const criteria = [...(a?.rubric.criteria ?? [])];
+    for (const c of b?.rubric.criteria ?? []) {
+        if (!criteria.some((existing) => existing.key === c.key)) criteria.push(c);
+    }
+
+    return criteria.map(({ key, name, min, max }) => {
+        const scoreA = a?.criteria[key]?.score ?? null;
+        const scoreB = b?.criteria[key]?.score ?? null;
+        return {
+            key,
+            name,
+            min,
+            max,
+            a: scoreA,
+            b: scoreB,
+            delta: scoreA !== null && scoreB !== null ? round(scoreB - scoreA) : null,
+        };
+    });
+}
+
+function lcsDiff(a: string[], b: string[]): DiffPart[] {
+    const n = a.length;
+    const m = b.length;
+    // lengths[i][j] = LCS length of a[i..] and b[j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lengths[i * (m + 1) + j] = a[i] === b[j]
+                ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+                : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && a[i] === b[j]) {
+            parts.push({ type: "same", text: a[i] });
+            i++;
+            j++;
+        } else if (i < n && (j === m || lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+            parts.push({ type: "removed", text: a[i++] });
+        } else {
+            parts.push({ type: "added", text: b[j++] });
+        }
+    }
+    return parts;
+}
+
+function merge(parts: DiffPart[]): DiffPart[] {
+    const merged: DiffPart[] = [];
+    for (const part of parts) {
+        const last = merged[merged.length - 1];
+        if (last && last.type === part.type) last.text += ` ${part.text}`;
+        else merged.push({ ...part });
+    }
+    return merged;
+}
+
+// Word-level diff of two transcripts. Long, very different transcripts are
+// compared sentence by sentence to keep the table small.
+export function diffWords(a: string, b: string): DiffPart[] {
+    let tokensA = a.split(/\s+/).filter(Boolean);
+    let tokensB = b.split(/\s+/).filter(Boolean);
+
+    // The shared opening and ending don't need the table
+    let prefix = 0;
+    while (prefix < tokensA.length && prefix < tokensB.length && tokensA[prefix] === tokensB[prefix]) prefix++;
+    let suffix = 0;
+    while (
+        suffix < tokensA.length - prefix && suffix < tokensB.length - prefix &&
+        tokensA[tokensA.length - 1 - suffix] === tokensB[tokensB.length - 1 - suffix]
+    ) suffix++;
+
+    const head: DiffPart[] = tokensA.slice(0, prefix).map((text) => ({ type: "same", text }));
+    const tail: DiffPart[] = tokensA.slice(tokensA.length - suffix).map((text) => ({ type: "same", text }));
+    tokensA = tokensA.slice(prefix, tokensA.length - suffix);
+    tokensB = tokensB.slice(prefix, tokensB.length - suffix);
+
+    if ((tokensA.length + 1) * (tokensB.length + 1) > MAX_DIFF_CELLS) {
+        tokensA = tokensA.join(" ").split(/(?<=[.!?])\s+/);
+        tokensB = tokensB.join(" ").split(/(?<=[.!?])\s+/);
+    }
+    const middle = (tokensA.length + 1) * (tokensB.length + 1) > MAX_DIFF_CELLS
+        ? [
+            ...tokensA.map((text): DiffPart => ({ type: "removed", text })),
+            ...tokensB.map((text): DiffPart => ({ type: "added", text })),
+        ]
+        : lcsDiff(tokensA, tokensB);
+
+    return merge([...head, ...middle, ...tail]);
+}
@@ -0,0 +1,247 @@
+import { parseFeedback, plainFeedback, type InputKind, type Judgment } from "@/lib/judgment";
+import type { DeliveryMetrics } from "@/lib/metrics";
+import type { VideoAnalysis } from "@/lib/video";
+import { formatTimecode } from "@/lib/transcript";
+import type { PdfBlock, PdfReport } from "@/lib/pdf";
+import { languageName } from "@/lib/languages";
+
+// Judgment reports for download, from GET /api/judge/[id]/export. The JSON
+// format is versioned: fields may be added within a schema version, but
+// renaming or removing one means bumping EXPORT_SCHEMA_VERSION. Markdown and
+// PDF are rendered from the same export so all three say the same thing.
+
+export type ExportFormat = "pdf" | "markdown" | "json";
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; contentType: string }[] = [
+    { value: "pdf", label: "PDF", extension: "pdf", contentType: "application/pdf" },
+    { value: "markdown", label: "Markdown", extension: "md", contentType: "text/markdown; charset=utf-8" },
+    { value: "json", label: "JSON", extension: "json", contentType: "application/json; charset=utf-8" },
+];
+
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export interface JudgmentExport {
+    schema: "evala.judgment";
+    schemaVersion: typeof EXPORT_SCHEMA_VERSION;
+    exportedAt: string;
+    judgment: {
+        id: string;
+        filename: string;
+        inputKind: InputKind;
+        sourceUrl: string | null;
+        createdAt: string;
+        status: "completed" | "failed";
+        error: string | null;
+        score: number | null;
+        // Recording this is a re-judged version of, and which version
+        sourceId: string | null;
+        version: number;
+        model: string | null;
+        promptVersion: number | null;
+        durationMs: number | null;
+        language: string | null;
+        feedbackLanguage: string | null;
+    };
+    rubric: { id: string; name: string } | null;
+    summary: string | null;
+    criteria: {
+        key: string;
+        name: string;
+        min: number;
+        max: number;
+        weight: number;
+        score: number;
+        comment: string;
+    }[];
+    tips: string[];
+    judges: { name: string; score: number; summary: string }[];
+    // Per-section scores, for long recordings judged in sections
+    sections: { start: number | null; end: number | null; score: number; summary: string }[];
+    transcript: {
+        text: string;
+        segments: { start: number; end: number; text: string }[];
+    };
+    metrics: DeliveryMetrics | null;
+    videoAnalysis: VideoAnalysis | null;
+}
+
+export function toExport(judgment: Judgment, exportedAt = new Date()): JudgmentExport {
+    const feedback = parseFeedback(judgment.feedback);
+    return {
+        schema: "evala.judgment",
+        schemaVersion: EXPORT_SCHEMA_VERSION,
+        exportedAt: exportedAt.toISOString(),
+        judgment: {
+            id: judgment.id,
+            filename: judgment.video_filename,
+            inputKind: judgment.input_kind ?? "video",
+            sourceUrl: judgment.source_url ?? null,
+            createdAt: judgment.created_at,
+            status: judgment.status ?? "completed",
+            error: judgment.error ?? null,
+            score: judgment.score,
+            sourceId: judgment.source_id ?? null,
+            version: judgment.version ?? 1,
+            model: judgment.model ?? null,
+            promptVersion: judgment.prompt_version ?? null,
+            durationMs: judgment.duration_ms ?? null,
+            language: judgment.language ?? null,
+            feedbackLanguage: judgment.feedback_language ?? null,
+        },
+        rubric: feedback ? { id: feedback.rubric.id, name: feedback.rubric.name } : null,
+        // Feedback from before it was structured only has text
+        summary: feedback?.summary ?? (judgment.feedback ? plainFeedback(judgment.feedback) : null),
+        criteria: (feedback?.rubric.criteria ?? []).flatMap((c) => {
+            const scored = feedback?.criteria[c.key];
+            return scored
+                ? [{ key: c.key, name: c.name, min: c.min, max: c.max, weight: c.weight, score: scored.score, comment: scored.comment }]
+                : [];
+        }),
+        tips: feedback?.tips ?? [],
+        judges: (feedback?.judges ?? []).map((v) => ({ name: v.judge.name, score: v.score, summary: v.summary })),
+        sections: (feedback?.sections ?? []).map(({ start, end, score, summary }) => ({ start, end, score, summary })),
+        transcript: {
+            text: judgment.transcript,
+            segments: (judgment.segments ?? []).map(({ start, end, text }) => ({ start, end, text: text.trim() })),
+        },
+        metrics: judgment.metrics ?? null,
+        videoAnalysis: judgment.video_analysis ?? null,
+    };
+}
+
+// Label/value lines shared by the Markdown and PDF headers
+function details(data: JudgmentExport): [string, string][] {
+    const { judgment } = data;
+    const rows: [string, string][] = [
+        ["Recorded", new Date(judgment.createdAt).toUTCString()],
+        ["Score", judgment.score !== null ? `${judgment.score}/100` : "Not scored"],
+    ];
+    if (judgment.sourceUrl) rows.push(["Source", judgment.sourceUrl]);
+    if (data.rubric) rows.push(["Rubric", data.rubric.name]);
+    if (judgment.version > 1) rows.push(["Version", String(judgment.version)]);
+    if (judgment.model) rows.push(["Model", judgment.model]);
+    if (judgment.language) rows.push(["Spoken language", languageName(judgment.language)]);
+    if (judgment.feedbackLanguage) rows.push(["Feedback language", languageName(judgment.feedbackLanguage)]);
+    if (judgment.status === "failed" && judgment.error) rows.push(["Error", judgment.error]);
+    return rows;
+}
+
+function metricLines(metrics: DeliveryMetrics): string[] {
+    return [
+        `Speaking rate: ${metrics.wordsPerMinute} words per minute (${metrics.wordCount} words)`,
+        `Filler words: ${metrics.fillerCount} (${metrics.fillersPerMinute} per minute)`,
+        `Long pauses: ${metrics.longPauses.length}`,
+        `Silence: ${Math.round(metrics.silenceRatio * 100)}% of the recording`,
+        `Loudness variation: ${metrics.loudnessVariationDb} dB`,
+    ];
+}
+
+function sectionLabel(section: JudgmentExport["sections"][number], index: number): string {
+    const range = section.start !== null && section.end !== null
+        ? ` (${formatTimecode(section.start)}–${formatTimecode(section.end)})`
+        : "";
+    return `Part ${index + 1}${range}: ${section.score}/100`;
+}
+
+function transcriptLines(data: JudgmentExport): string[] {
+    const { segments, text } = data.transcript;
+    return segments.length > 0
+        ? segments.map((s) => `[${formatTimecode(s.start)}] ${s.text}`)
+        : [text];
+}
+
+export function toMarkdown(data: JudgmentExport): string {
+    const lines = [`# ${data.judgment.filename}`, ""];
+    for (const [label, value] of details(data)) lines.push(`- **${label}:** ${value}`);
+
+    if (data.summary) lines.push("", "## Summary", "", data.summary);
+
+    if (data.criteria.length > 0) {
+        lines.push("", "## Breakdown", "", "| Criterion | Score | Comment |", "| --- | --- | --- |");
+        for (const c of data.criteria) {
+            lines.push(`| ${c.name} | ${c.score}/${c.max} | ${c.comment.replace(/\|/g, "\\|").replace(/\n/g, " ")} |`);
+        }
+    }
+
+    if (data.tips.length > 0) {
+        lines.push("", "## Tips", "", ...data.tips.map((tip, i) => `${i + 1}. ${tip}`));
+    }
+
+    if (data.sections.length > 0) {
+        lines.push("", "## Sections", "", ...data.sections.map((s, i) => `- **${sectionLabel(s, i)}** ${s.summary}`));
+    }
+
+    if (data.judges.length > 1) {
+        lines.push("", "## Judges", "", ...data.judges.map((j) => `- **${j.name}** (${j.score}): ${j.summary}`));
+    }
+
+    if (data.metrics) {
+        lines.push("", "## Delivery", "", ...metricLines(data.metrics).map((line) => `- ${line}`));
+    }
+
+    lines.push("", "## Transcript", "", ...transcriptLines(data).flatMap((line) => [line, ""]));
+    lines.push("---", `Exported ${data.exportedAt} · judgment ${data.judgment.id}`, "");
+    return lines.join("\n");
+}
+
+const HEADING: Partial<PdfBlock> = { size: 13, bold: true, spaceBefore: 14, color: [0.33, 0.23, 0.66] };
+const MUTED: [number, number, number] = [0.4, 0.4, 0.45];
+
+function pdfBlocks(data: JudgmentExport): PdfBlock[] {
+    const blocks: PdfBlock[] = [
+        { text: data.judgment.filename, size: 20, bold: true },
+        ...details(data).map(([label, value]): PdfBlock => ({ text: `${label}: ${value}`, color: MUTED, spaceBefore: 2 })),
+    ];
+
+    if (data.summary) {
+        blocks.push({ ...HEADING, text: "Summary" }, { text: data.summary, size: 11, spaceBefore: 4 });
+    }
+
+    if (data.criteria.length > 0) {
+        blocks.push({ ...HEADING, text: "Breakdown" });
+        for (const c of data.criteria) {
+            blocks.push(
+                { text: `${c.name}: ${c.score}/${c.max}`, bold: true, spaceBefore: 6 },
+                { text: c.comment, color: MUTED, indent: 12 }
+            );
+        }
+    }
+
+    if (data.tips.length > 0) {
+        blocks.push({ ...HEADING, text: "Tips" });
+        data.tips.forEach((tip, i) => blocks.push({ text: `${i + 1}. ${tip}`, spaceBefore: 4 }));
+    }
+
+    if (data.sections.length > 0) {
+        blocks.push({ ...HEADING, text: "Sections" });
+        data.sections.forEach((section, i) => blocks.push(
+            { text: sectionLabel(section, i), bold: true, spaceBefore: 6 },
+            { text: section.summary, color: MUTED, indent: 12 }
+        ));
+    }
+
+    if (data.metrics) {
+        blocks.push({ ...HEADING, text: "Delivery" });
+        for (const line of metricLines(data.metrics)) blocks.push({ text: line, spaceBefore: 2 });
+    }
+
+    blocks.push({ ...HEADING, text: "Transcript" });
+    for (const line of transcriptLines(data)) blocks.push({ text: line, size: 9, spaceBefore: 3 });
+
+    blocks.push({ text: `Exported ${data.exportedAt} - judgment ${data.judgment.id}`, size: 8, color: MUTED, spaceBefore: 16 });
+    return blocks;
+}
+
+// What renderPdf draws. It's kept apart from this module, which the browser
+// uses too, because it reads its fonts from disk.
+export function pdfReport(data: JudgmentExport): PdfReport {
+    return { blocks: pdfBlocks(data), title: `${data.judgment.filename} - judgment report`, createdAt: new Date(data.exportedAt) };
+}
+
+// "My Take.mp4" -> "my-take-report.pdf"
+export function exportFilename(judgment: Pick<Judgment, "video_filename" | "version">, format: ExportFormat): string {
+    const base = judgment.video_filename.replace(/\.[^.]+$/, "").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "judgment";
+    const version = judgment.version && judgment.version > 1 ? `-v${judgment.version}` : "";
+    const { extension } = EXPORT_FORMATS.find((f) => f.value === format)!;
+    return `${base}${version}-report.${extension}`;
+}
@@ -0,0 +1,86 @@
+import { spawn } from "child_process";
+import ffmpegPath from "ffmpeg-static";
+import { logger, type Logger } from "@/lib/logger";
+
+export class FfmpegError extends Error {
+    constructor(public code: number, public stderr: string) {
+        super(`ffmpeg exited with code ${code}: ${stderr}`);
+        this.name = "FfmpegError";
+    }
+}
+
+export interface FfmpegOptions {
+    // Aborting it kills the process and rejects with the abort reason
+    signal?: AbortSignal;
+    // The job's logger
+    log?: Logger;
+}
+
+// Run the static ffmpeg binary and resolve with its stderr, where ffmpeg writes
+// both progress and filter output (scene, black and freeze detection).
+export function runFfmpeg(args: string[], { signal, log = logger }: FfmpegOptions = {}): Promise<string> {
+    return new Promise((resolve, reject) => {
+        if (!ffmpegPath) {
+            reject(new Error("ffmpeg binary is not available on this platform"));
+            return;
+        }
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        log.debug(`Spawning: ${ffmpegPath} ${args.join(" ")}`);
+
+        const ffmpegProcess = spawn(ffmpegPath, args);
+        const kill = () => ffmpegProcess.kill("SIGKILL");
+        signal?.addEventListener("abort", kill, { once: true });
+
+        let stderr = "";
+        ffmpegProcess.stderr.on("data", (data: Buffer) => {
+            stderr += data.toString();
+        });
+
+        ffmpegProcess.on("close", (code: number) => {
+            signal?.removeEventListener("abort", kill);
+            if (signal?.aborted) {
+                log.info("ffmpeg killed");
+                reject(signal.reason);
+            } else if (code === 0) {
+                resolve(stderr);
+            } else {
+                log.error(`ffmpeg failed with code ${code}`);
+                reject(new FfmpegError(code, stderr));
+            }
+        });
+
+        ffmpegProcess.on("error", (err: Error) => {
+            log.error("Failed to start ffmpeg process", { error: err });
+            reject(err);
+        });
+    });
+}
+
+// Extract audio from video as 16 kHz mono PCM WAV
+export async function extractAudio(videoPath: string, audioPath: string, options: FfmpegOptions = {}): Promise<void> {
+    const { log = logger } = options;
+    try {
+        await runFfmpeg([
+            "-i", videoPath,
+            "-vn",
+            "-acodec", "pcm_s16le",
+            "-ar", "16000",
+            "-ac", "1",
+            "-f", "wav",
+            "-y", // force overwrite
+            audioPath
+        ], options);
+        log.info("Audio extracted");
+    } catch (err) {
+        // Check if error is due to missing audio stream
+        if (err instanceof FfmpegError && err.stderr.includes("Output file does not contain any stream")) {
+            throw new Error("No audio track found in the video. Please upload a video with sound.");
+        }
+        if (err instanceof FfmpegError) log.error("ffmpeg stderr", { stderr: err.stderr });
+        throw err;
+    }
+}
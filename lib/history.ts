@@ -0,0 +1,133 @@
+import { DEFAULT_RUBRIC_ID, isRubricId } from "@/lib/rubrics";
+
+// Query parameters for the judgment history (GET /api/judge), shared by the
+// route and the page. Pages are fetched with an opaque keyset cursor: the sort
+// value and id of the last row of the previous page.
+
+export type HistorySort = "newest" | "oldest" | "score_desc" | "score_asc";
+
+export const HISTORY_SORTS: { value: HistorySort; label: string }[] = [
+    { value: "newest", label: "Newest first" },
+    { value: "oldest", label: "Oldest first" },
+    { value: "score_desc", label: "Highest score" },
+    { value: "score_asc", label: "Lowest score" },
+];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 50;
+
+export interface HistoryQuery {
+    // Full-text search over filename, transcript and feedback
+    q?: string;
+    minScore?: number;
+    maxScore?: number;
+    // ISO dates, inclusive
+    from?: string;
+    to?: string;
+    filename?: string;
+    // A rubric id, or "default" for the built-in rubric
+    rubric?: string;
+    sort: HistorySort;
+    limit: number;
+    cursor?: string;
+}
+
+export interface HistoryCursor {
+    // created_at or score of the last row, depending on the sort
+    value: string | number;
+    id: string;
+}
+
+export interface HistoryPage<T> {
+    items: T[];
+    nextCursor: string | null;
+}
+
+export function encodeCursor(cursor: HistoryCursor): string {
+    return btoa(JSON.stringify([cursor.value, cursor.id])).replace(/=+$/, "");
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// created_at as Postgres returns it
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d{1,6})?(?:Z|[+-]\d{2}(?::\d{2})?)$/;
+
+// The cursor ends up in a PostgREST filter, so anything but a row id and a
+// timestamp or whole-number score is rejected
+export function decodeCursor(raw: string): HistoryCursor | null {
+    try {
+        const [value, id] = JSON.parse(atob(raw));
+        if (typeof id !== "string" || !UUID_PATTERN.test(id)) return null;
+        const validValue = typeof value === "number"
+            ? Number.isInteger(value)
+            : typeof value === "string" && TIMESTAMP_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+        if (!validValue) return null;
+        return { value, id };
+    } catch {
+        return null;
+    }
+}
+
+function isDate(value: string): boolean {
+    return /^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+// Validate the query string. Empty parameters are ignored.
+export function parseHistoryQuery(params: URLSearchParams): { query?: HistoryQuery; errors: string[] } {
+    const errors: string[] = [];
+    const get = (name: string) => params.get(name)?.trim() || undefined;
+
+    const score = (name: string) => {
+        const raw = get(name);
+        if (raw === undefined) return undefined;
+        const value = Number(raw);
+        if (!Number.isInteger(value) || value < 1 || value > 100) {
+            errors.push(`${name} must be a whole number from 1 to 100.`);
+            return undefined;
+        }
+        return value;
+    };
+    const minScore = score("minScore");
+    const maxScore = score("maxScore");
+    if (minScore !== undefined && maxScore !== undefined && minScore > maxScore) {
+        errors.push("minScore cannot be greater than maxScore.");
+    }
+
+    const from = get("from");
+    const to = get("to");
+    if (from && !isDate(from)) errors.push("from must be a date (YYYY-MM-DD).");
+    if (to && !isDate(to)) errors.push("to must be a date (YYYY-MM-DD).");
+
+    const sort = (get("sort") || "newest") as HistorySort;
+    if (!HISTORY_SORTS.some((s) => s.value === sort)) {
+        errors.push(`sort must be one of ${HISTORY_SORTS.map((s) => s.value).join(", ")}.`);
+    }
+
+    const limitRaw = get("limit");
+    const limit = limitRaw === undefined ? DEFAULT_PAGE_SIZE : Number(limitRaw);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        errors.push(`limit must be a whole number from 1 to ${MAX_PAGE_SIZE}.`);
+    }
+
+    const rubric = get("rubric");
+    if (rubric && rubric !== DEFAULT_RUBRIC_ID && !isRubricId(rubric)) {
+        errors.push(`rubric must be a rubric id or "${DEFAULT_RUBRIC_ID}".`);
+    }
+
+    const cursor = get("cursor");
+    if (cursor && !decodeCursor(cursor)) errors.push("cursor is invalid.");
+
+    if (errors.length > 0) return { errors };
+    return {
+        errors,
+        query: { q: get("q"), minScore, maxScore, from, to, filename: get("filename"), rubric, sort, limit, cursor },
+    };
+}
+
+// Build the query string for a history request, skipping empty values
+export function historySearchParams(query: Record<string, string | number | undefined | null>): URLSearchParams {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== null && value !== "") params.set(key, String(value));
+    }
+    return params;
+}
@@ -0,0 +1,43 @@
+import type { JobSnapshot } from "@/lib/jobs";
+import type { Judgment } from "@/lib/judgment";
+import { authFetch, getAccessToken } from "@/lib/supabase-browser";
+
+// Browser-side progress tracking for judging jobs
+
+export type JudgeJob = JobSnapshot<Judgment>;
+
+// EventSource can't send headers, so the access token goes in the query string
+export async function watchJob(jobId: string, onUpdate: (job: JudgeJob) => void): Promise<JudgeJob> {
+    const token = await getAccessToken();
+    return new Promise((resolve, reject) => {
+        const source = new EventSource(`/api/judge/jobs/${jobId}/events?access_token=${encodeURIComponent(token || "")}`);
+
+        source.onmessage = (e) => {
+            const job: JudgeJob = JSON.parse(e.data);
+            onUpdate(job);
+            if (job.stage === "completed" || job.stage === "failed" || job.stage === "cancelled") {
+                source.close();
+                resolve(job);
+            }
+        };
+
+        source.onerror = async () => {
+            // The browser retries on its own unless the stream was refused outright
+            if (source.readyState !== EventSource.CLOSED) return;
+            try {
+                const res = await authFetch(`/api/judge/jobs/${jobId}`);
+                if (!res.ok) throw new Error();
+                const job: JudgeJob = await res.json();
+                if (job.stage === "completed" || job.stage === "failed" || job.stage === "cancelled") resolve(job);
+                else reject(new Error("Lost connection to the analysis job."));
+            } catch {
+                reject(new Error("Lost connection to the analysis job."));
+            }
+        };
+    });
+}
+
+// Ask the server to stop a job; watchJob then resolves with the cancelled job
+export async function cancelJob(jobId: string): Promise<void> {
+    await authFetch(`/api/judge/jobs/${jobId}/cancel`, { method: "POST" });
+}
@@ -0,0 +1,162 @@
+import { EventEmitter } from "events";
+import { logger } from "@/lib/logger";
+
+// In-memory registry of judging jobs.
+//
+// POST /api/judge enqueues a job and returns immediately; the pipeline reports
+// each stage here and the status / SSE endpoints read it back. Jobs live in the
+// server process, so this assumes a single long-running Node instance.
+//
+// Every running job has an AbortController. Cancelling the job, from the
+// cancel endpoint or because nobody has watched it for a while, aborts its
+// signal and the pipeline stops whatever it is doing.
+
+export type JobStage =
+    | "queued"
+    // Only shown by the client while the upload is in progress
+    | "saving"
+    | "downloading"
+    | "extracting"
+    | "transcribing"
+    | "analyzing"
+    | "judging"
+    | "persisting"
+    | "completed"
+    | "failed"
+    | "cancelled";
+
+export interface JobSnapshot<T = unknown> {
+    id: string;
+    filename: string;
+    // User who started the job; only they can watch it
+    userId: string;
+    stage: JobStage;
+    // Stage the job was in when it failed
+    failedStage?: JobStage;
+    error?: string;
+    result?: T;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Finished jobs are kept around long enough for a client to reconnect and read the outcome
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+// How long a running job is kept once its last watcher disconnects, e.g.
+// because the tab was closed; long enough for EventSource to reconnect
+const ABANDONED_JOB_GRACE_MS = Number(process.env.ABANDONED_JOB_GRACE_SECONDS || 30) * 1000;
+
+export class JobCancelledError extends Error {
+    constructor() {
+        super("The analysis was cancelled.");
+        this.name = "JobCancelledError";
+    }
+}
+
+interface JobRegistry {
+    jobs: Map<string, JobSnapshot>;
+    events: EventEmitter;
+    // Abort controllers of jobs that haven't finished
+    controllers: Map<string, AbortController>;
+    // Pending cancellations of jobs nobody is watching
+    abandoned: Map<string, NodeJS.Timeout>;
+}
+
+// Cached on globalThis so dev-mode module reloads don't drop running jobs
+const globalForJobs = globalThis as unknown as { judgeJobs?: JobRegistry };
+const registry: JobRegistry = globalForJobs.judgeJobs ??= {
+    jobs: new Map(),
+    events: new EventEmitter().setMaxListeners(0),
+    controllers: new Map(),
+    abandoned: new Map(),
+};
+
+export function isTerminal(stage: JobStage): boolean {
+    return stage === "completed" || stage === "failed" || stage === "cancelled";
+}
+
+export function createJob(id: string, filename: string, userId: string): JobSnapshot {
+    const now = new Date().toISOString();
+    const job: JobSnapshot = { id, filename, userId, stage: "queued", createdAt: now, updatedAt: now };
+    registry.jobs.set(id, job);
+    registry.controllers.set(id, new AbortController());
+    return job;
+}
+
+// Aborted when the job is cancelled
+export function jobSignal(id: string): AbortSignal {
+    return registry.controllers.get(id)?.signal ?? AbortSignal.abort(new JobCancelledError());
+}
+
+// Look up a job. When a user id is given, other users' jobs are treated as missing.
+export function getJob<T = unknown>(id: string, userId?: string): JobSnapshot<T> | undefined {
+    const job = registry.jobs.get(id) as JobSnapshot<T> | undefined;
+    if (job && userId !== undefined && job.userId !== userId) return undefined;
+    return job;
+}
+
+function updateJob(id: string, patch: Partial<JobSnapshot>): void {
+    const current = registry.jobs.get(id);
+    // A cancelled job may still report a stage or two before it notices
+    if (!current || isTerminal(current.stage)) return;
+
+    const next = { ...current, ...patch, updatedAt: new Date().toISOString() };
+    registry.jobs.set(id, next);
+    registry.events.emit(id, next);
+
+    if (isTerminal(next.stage)) {
+        registry.controllers.delete(id);
+        clearTimeout(registry.abandoned.get(id));
+        registry.abandoned.delete(id);
+        setTimeout(() => registry.jobs.delete(id), FINISHED_JOB_TTL_MS).unref?.();
+    }
+}
+
+export function setJobStage(id: string, stage: JobStage): void {
+    updateJob(id, { stage });
+}
+
+export function completeJob<T>(id: string, result: T): void {
+    updateJob(id, { stage: "completed", result });
+}
+
+export function failJob(id: string, error: string): void {
+    const current = registry.jobs.get(id);
+    updateJob(id, { stage: "failed", failedStage: current?.stage, error });
+}
+
+// Stop a job that hasn't finished. Once the judgment is being saved it's too
+// late. Returns the job as it is now, or undefined when it doesn't exist (or
+// belongs to someone else).
+export function cancelJob(id: string, userId?: string): JobSnapshot | undefined {
+    const job = getJob(id, userId);
+    if (!job || isTerminal(job.stage) || job.stage === "persisting") return job;
+
+    registry.controllers.get(id)?.abort(new JobCancelledError());
+    updateJob(id, { stage: "cancelled", error: new JobCancelledError().message });
+    return registry.jobs.get(id);
+}
+
+// Listen for every update of a job. Returns the unsubscribe function. When
+// the last listener leaves a running job and nobody comes back within the
+// grace period, the job is cancelled.
+export function subscribeJob(id: string, listener: (job: JobSnapshot) => void): () => void {
+    registry.events.on(id, listener);
+    clearTimeout(registry.abandoned.get(id));
+    registry.abandoned.delete(id);
+
+    return () => {
+        registry.events.off(id, listener);
+        const job = registry.jobs.get(id);
+        if (!job || isTerminal(job.stage) || registry.events.listenerCount(id) > 0) return;
+
+        const timer = setTimeout(() => {
+            registry.abandoned.delete(id);
+            if (registry.events.listenerCount(id) > 0) return;
+            logger.info("Nobody is watching the job any more; cancelling it", { jobId: id });
+            cancelJob(id);
+        }, ABANDONED_JOB_GRACE_MS);
+        timer.unref?.();
+        registry.abandoned.set(id, timer);
+    };
+}
@@ -0,0 +1,177 @@
+import { randomBytes } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createAnonClient } from "@/lib/supabase";
+import { deleteMedia } from "@/lib/media-store";
+import { JUDGMENT_COLUMNS, type Judgment, type JudgmentVisibility } from "@/lib/judgment";
+import type { TargetPlatform } from "@/lib/video";
+
+// Supabase access for single judgments: the owner's view through row-level
+// security, and the shared view through the get_shared_judgment function.
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isJudgmentId(id: string): boolean {
+    return UUID_PATTERN.test(id);
+}
+
+// The user's own judgment, or null if it doesn't exist or isn't theirs
+export async function loadJudgment(db: SupabaseClient, id: string): Promise<Judgment | null> {
+    if (!isJudgmentId(id)) return null;
+
+    const { data, error } = await db
+        .from("judgments")
+        .select(JUDGMENT_COLUMNS)
+        .eq("id", id)
+        .maybeSingle();
+
+    if (error) throw new Error(`Failed to fetch judgment: ${error.message}`);
+    return (data as unknown as Judgment | null) ?? null;
+}
+
+// The user's latest completed judgment of the same content, made the same way:
+// same rubric, target platform, judge model, panel, prompt version and
+// languages. Re-uploads link to it instead of being judged again.
+export async function findDuplicateJudgment(
+    db: SupabaseClient,
+    { userId, mediaHash, rubricId, platform, model, panel, promptVersion, language, feedbackLanguage }: {
+        userId: string;
+        mediaHash: string;
+        // Null for the built-in rubric
+        rubricId: string | null;
+        platform: TargetPlatform | null;
+        model: string;
+        // panelKey of the judge panel
+        panel: string;
+        promptVersion: number;
+        // Spoken language the user chose; null when it was left to detection
+        language: string | null;
+        feedbackLanguage: string;
+    }
+): Promise<Judgment | null> {
+    let query = db
+        .from("judgments")
+        .select(JUDGMENT_COLUMNS)
+        .eq("user_id", userId)
+        .eq("media_hash", mediaHash)
+        .eq("status", "completed")
+        .eq("model", model)
+        .eq("panel", panel)
+        .eq("prompt_version", promptVersion)
+        .eq("feedback_language", feedbackLanguage);
+    query = rubricId ? query.eq("rubric_id", rubricId) : query.is("rubric_id", null);
+    query = platform ? query.eq("platform", platform) : query.is("platform", null);
+    // A detected language and a picked one are different requests, even when they agree
+    query = language ? query.eq("requested_language", language) : query.is("requested_language", null);
+
+    const { data, error } = await query.order("created_at", { ascending: false }).limit(1).maybeSingle();
+    if (error) throw new Error(`Failed to look up earlier judgments: ${error.message}`);
+    return (data as unknown as Judgment | null) ?? null;
+}
+
+// A judgment shared publicly, or unlisted with a matching token
+export async function loadSharedJudgment(id: string, token: string | null): Promise<Judgment | null> {
+    if (!isJudgmentId(id)) return null;
+
+    const { data, error } = await createAnonClient().rpc("get_shared_judgment", { judgment_id: id, token });
+
+    if (error) throw new Error(`Failed to fetch shared judgment: ${error.message}`);
+    return (data as Judgment | null) ?? null;
+}
+
+// Change who can open a report. Sharing creates a token if there isn't one;
+// making the report private again drops it, so old unlisted links stop working.
+export async function setVisibility(
+    db: SupabaseClient,
+    id: string,
+    visibility: JudgmentVisibility
+): Promise<Pick<Judgment, "visibility" | "share_token"> | null> {
+    if (!isJudgmentId(id)) return null;
+
+    const current = await loadJudgment(db, id);
+    if (!current) return null;
+
+    const share_token = visibility === "private"
+        ? null
+        : current.share_token || randomBytes(16).toString("base64url");
+
+    const { data, error } = await db
+        .from("judgments")
+        .update({ visibility, share_token })
+        .eq("id", id)
+        .select("visibility, share_token")
+        .maybeSingle();
+
+    if (error) throw new Error(`Failed to update judgment: ${error.message}`);
+    return data as Pick<Judgment, "visibility" | "share_token"> | null;
+}
+
+export type JudgmentVersion = Pick<Judgment, "id" | "version" | "score" | "status" | "model" | "rubric_id" | "created_at">;
+
+// Every version of the recording a judgment belongs to, oldest first
+export async function listVersions(db: SupabaseClient, judgment: Pick<Judgment, "id" | "source_id">): Promise<JudgmentVersion[]> {
+    const sourceId = judgment.source_id ?? judgment.id;
+    const { data, error } = await db
+        .from("judgments")
+        .select("id, version, score, status, model, rubric_id, created_at")
+        .or(`id.eq.${sourceId},source_id.eq.${sourceId}`)
+        .order("version", { ascending: true });
+
+    if (error) throw new Error(`Failed to fetch versions: ${error.message}`);
+    return data as JudgmentVersion[];
+}
+
+// Delete a recording: the original judgment and every re-judged version of it.
+// Resolves to false if the judgment doesn't exist or isn't the user's.
+export async function deleteRecording(db: SupabaseClient, id: string): Promise<boolean> {
+    const judgment = await loadJudgment(db, id);
+    if (!judgment) return false;
+
+    const sourceId = judgment.source_id ?? judgment.id;
+    const { data, error } = await db
+        .from("judgments")
+        .delete()
+        .or(`id.eq.${sourceId},source_id.eq.${sourceId}`)
+        .select("storage_path");
+
+    if (error) throw new Error(`Failed to delete judgment: ${error.message}`);
+
+    // Versions share the original's recording
+    const paths = Array.from(new Set((data ?? []).map((row) => row.storage_path).filter((p): p is string => !!p)));
+    await forgetRecording(db, paths, judgment.media_hash ?? null);
+    return true;
+}
+
+// Delete one version of a recording and keep the others. Deleting the
+// original makes the earliest remaining version the original. The recording
+// itself goes with the last version. Resolves to false if the judgment
+// doesn't exist or isn't the user's.
+export async function deleteVersion(db: SupabaseClient, id: string): Promise<boolean> {
+    if (!isJudgmentId(id)) return false;
+
+    const { data, error } = await db.rpc("delete_judgment_version", { p_id: id });
+    if (error) throw new Error(`Failed to delete judgment: ${error.message}`);
+
+    const rows = data as { deleted_storage_path: string | null; deleted_media_hash: string | null; versions_left: number }[];
+    if (rows.length === 0) return false;
+    const [deleted] = rows;
+    if (deleted.versions_left === 0) {
+        await forgetRecording(db, deleted.deleted_storage_path ? [deleted.deleted_storage_path] : [], deleted.deleted_media_hash);
+    }
+    return true;
+}
+
+// Remove a deleted recording's stored media, and its cached transcript unless
+// another judgment of the same content is kept
+async function forgetRecording(db: SupabaseClient, paths: string[], mediaHash: string | null): Promise<void> {
+    await deleteMedia(db, paths);
+    if (!mediaHash) return;
+
+    const { count } = await db
+        .from("judgments")
+        .select("id", { count: "exact", head: true })
+        .eq("media_hash", mediaHash);
+    if (!count) {
+        const { error } = await db.from("transcript_cache").delete().eq("media_hash", mediaHash);
+        if (error) throw new Error(`Failed to delete cached transcript: ${error.message}`);
+    }
+}
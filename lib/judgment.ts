@@ -0,0 +1,244 @@
+import { DEFAULT_RUBRIC, weightedScore, type Rubric } from "@/lib/rubrics";
+import type { DeliveryMetrics } from "@/lib/metrics";
+import type { TranscriptSegment, TranscriptWord } from "@/lib/transcript";
+import type { TargetPlatform, VideoAnalysis } from "@/lib/video";
+import type { PanelConsensus } from "@/lib/panel";
+
+// The judgment schema shared by the API routes and the UI, plus validation of
+// the verdicts the judging models return.
+
+export interface CriterionScore {
+    score: number;
+    comment: string;
+}
+
+// What a single judge must return for a rubric
+export interface Verdict {
+    score: number;
+    summary: string;
+    criteria: Record<string, CriterionScore>;
+    tips: string[];
+}
+
+export interface JudgeVerdict extends Verdict {
+    judge: { id: string; name: string; icon: string };
+}
+
+// A first-pass verdict on one section of a long recording
+export interface SectionVerdict {
+    // Null when the transcript has no timestamps
+    start: number | null;
+    end: number | null;
+    score: number;
+    summary: string;
+    // Criterion key -> score
+    criteria: Record<string, number>;
+}
+
+// The structured feedback stored on a judgment. The top-level verdict is the
+// panel's consensus; `judges` holds each persona's own verdict.
+export interface StructuredFeedback extends Verdict {
+    judges?: JudgeVerdict[];
+    // Long recordings are judged section by section before the panel sees them
+    sections?: SectionVerdict[];
+    consensus?: PanelConsensus;
+    // Judges whose answers never passed validation and were left out of the consensus
+    excludedJudges?: { judge: JudgeVerdict["judge"]; errors: string[] }[];
+    rubric: Rubric;
+}
+
+// Feedback from before it was structured, kept as { text } by the JSONB migration
+export interface PlainFeedback {
+    text: string;
+}
+
+export type JudgmentStatus = "completed" | "failed";
+
+// What was submitted for judging: an uploaded video or audio file, a media
+// file downloaded from a URL, or a pasted script or transcript
+export type InputKind = "video" | "audio" | "url" | "text";
+
+// Who can open the report's permalink besides its owner
+export type JudgmentVisibility = "private" | "unlisted" | "public";
+
+export interface Judgment {
+    id: string;
+    user_id?: string;
+    // The uploaded file's name, or the title of a pasted script
+    video_filename: string;
+    // Missing on rows from before other inputs than video were accepted
+    input_kind?: InputKind;
+    // Where a downloaded recording came from
+    source_url?: string | null;
+    // SHA-256 of the uploaded file, or of the text for pasted scripts
+    media_hash?: string | null;
+    transcript: string;
+    // Missing on judgments made before timestamps were stored
+    segments?: TranscriptSegment[];
+    words?: TranscriptWord[];
+    metrics?: DeliveryMetrics | null;
+    video_analysis?: VideoAnalysis | null;
+    rubric_id?: string | null;
+    // Older rows have no status and were always completed
+    status?: JudgmentStatus;
+    error?: string | null;
+    // Null when the judgment failed
+    feedback: StructuredFeedback | PlainFeedback | null;
+    score: number | null;
+    // Judge model, prompt and panel (see panelKey) the verdict came from; missing on older rows
+    model?: string | null;
+    prompt_version?: number | null;
+    panel?: string | null;
+    // Platform the recording was judged for; null when none was picked
+    platform?: TargetPlatform | null;
+    // Wall-clock time from upload to verdict
+    duration_ms?: number | null;
+    // Spoken language reported by the transcription model
+    language?: string | null;
+    // Spoken language the user picked; null when it was left to detection
+    requested_language?: string | null;
+    // Language the feedback was written in
+    feedback_language?: string | null;
+    visibility?: JudgmentVisibility;
+    // Required in the link to an unlisted report; null while private
+    share_token?: string | null;
+    // Re-judged versions point at the original judgment of the recording; null on the original
+    source_id?: string | null;
+    version?: number;
+    // The original recording in Supabase Storage; null when it wasn't kept
+    storage_path?: string | null;
+    created_at: string;
+}
+
+// Columns of the judgments table that make up a Judgment; everything except
+// the full-text search vector. Keep in step with the interface above.
+export const JUDGMENT_COLUMNS = [
+    "id", "user_id", "video_filename", "input_kind", "source_url", "media_hash", "transcript", "segments", "words", "metrics", "video_analysis",
+    "rubric_id", "status", "error", "feedback", "score", "model", "prompt_version", "panel", "platform", "duration_ms",
+    "language", "requested_language", "feedback_language", "visibility", "share_token", "source_id", "version", "storage_path", "created_at",
+].join(", ");
+
+// Permalink to a report. Unlisted reports carry their share token.
+export function reportPath(judgment: Pick<Judgment, "id" | "visibility" | "share_token">): string {
+    const path = `/judgments/${judgment.id}`;
+    return judgment.visibility === "unlisted" && judgment.share_token
+        ? `${path}?token=${encodeURIComponent(judgment.share_token)}`
+        : path;
+}
+
+// How far the overall score may drift from the weighted criteria scores, in points out of 100
+export const SCORE_TOLERANCE = 15;
+
+export class JudgmentValidationError extends Error {
+    constructor(message: string, public errors: string[]) {
+        super(message);
+        this.name = "JudgmentValidationError";
+    }
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === "string" && value.trim().length > 0;
+}
+
+// Check a judge's parsed JSON against the rubric. Errors are phrased so they
+// can be sent back to the model verbatim.
+export function validateVerdict(input: unknown, rubric: Rubric): { verdict?: Verdict; errors: string[] } {
+    const errors: string[] = [];
+    if (typeof input !== "object" || input === null || Array.isArray(input)) {
+        return { errors: ["The response must be a single JSON object."] };
+    }
+    const raw = input as Record<string, unknown>;
+
+    const score = raw.score;
+    if (typeof score !== "number" || !Number.isInteger(score) || score < 1 || score > 100) {
+        errors.push(`"score" must be a whole number from 1 to 100 (got ${JSON.stringify(score)}).`);
+    }
+    if (!isNonEmptyString(raw.summary)) {
+        errors.push(`"summary" must be a non-empty string.`);
+    }
+
+    const criteria: Record<string, CriterionScore> = {};
+    const rawCriteria = raw.criteria;
+    if (typeof rawCriteria !== "object" || rawCriteria === null || Array.isArray(rawCriteria)) {
+        errors.push(`"criteria" must be an object keyed by criterion.`);
+    } else {
+        for (const c of rubric.criteria) {
+            const entry = (rawCriteria as Record<string, unknown>)[c.key] as Record<string, unknown> | undefined;
+            if (!entry || typeof entry !== "object") {
+                errors.push(`"criteria.${c.key}" is missing.`);
+                continue;
+            }
+            if (typeof entry.score !== "number" || entry.score < c.min || entry.score > c.max) {
+                errors.push(`"criteria.${c.key}.score" must be a number from ${c.min} to ${c.max} (got ${JSON.stringify(entry.score)}).`);
+            }
+            if (!isNonEmptyString(entry.comment)) {
+                errors.push(`"criteria.${c.key}.comment" must be a non-empty string.`);
+            }
+            criteria[c.key] = { score: entry.score as number, comment: String(entry.comment ?? "") };
+        }
+        const known = new Set(rubric.criteria.map((c) => c.key));
+        for (const key of Object.keys(rawCriteria)) {
+            if (!known.has(key)) errors.push(`"criteria.${key}" is not part of the rubric; only use ${[...known].join(", ")}.`);
+        }
+    }
+
+    if (!Array.isArray(raw.tips) || raw.tips.length === 0 || !raw.tips.every(isNonEmptyString)) {
+        errors.push(`"tips" must be a non-empty array of strings.`);
+    }
+
+    if (errors.length > 0) return { errors };
+
+    // Only meaningful once every sub-score is known to be valid
+    const expected = weightedScore(rubric, criteria);
+    if (Math.abs((score as number) - expected) > SCORE_TOLERANCE) {
+        errors.push(`"score" is ${score} but the weighted criteria scores work out to about ${expected}; make the overall score consistent with the criteria (within ${SCORE_TOLERANCE} points).`);
+        return { errors };
+    }
+
+    return {
+        errors,
+        verdict: {
+            score: score as number,
+            summary: (raw.summary as string).trim(),
+            criteria,
+            tips: (raw.tips as string[]).map((t) => t.trim()),
+        },
+    };
+}
+
+// Read stored feedback into the current schema. Accepts the JSONB object or,
+// from rows and exports made before the JSONB migration, its stringified form.
+// Returns null for failed judgments and for old plain-text feedback, which the
+// UI shows as-is.
+export function parseFeedback(raw: unknown): StructuredFeedback | null {
+    if (!raw) return null;
+    let parsed: Record<string, unknown>;
+    if (typeof raw === "string") {
+        try {
+            parsed = JSON.parse(raw);
+        } catch {
+            return null;
+        }
+    } else {
+        parsed = { ...(raw as Record<string, unknown>) };
+    }
+    if (typeof parsed !== "object" || parsed === null) return null;
+    if (!parsed.summary && !parsed.criteria && !parsed.clarity && !parsed.tips) return null;
+
+    // Judgments made before rubrics kept the default criteria at the top level
+    if (!parsed.criteria) {
+        const criteria: StructuredFeedback["criteria"] = {};
+        for (const { key } of DEFAULT_RUBRIC.criteria) {
+            if (parsed[key]) criteria[key] = parsed[key] as CriterionScore;
+        }
+        parsed.criteria = criteria;
+    }
+    return { tips: [], ...parsed, rubric: parsed.rubric || DEFAULT_RUBRIC } as unknown as StructuredFeedback;
+}
+
+// Plain-text feedback from before it was structured, if that's what was stored
+export function plainFeedback(raw: unknown): string | null {
+    if (typeof raw === "string") return raw;
+    if (raw && typeof raw === "object" && typeof (raw as PlainFeedback).text === "string") return (raw as PlainFeedback).text;
+    return null;
+}
@@ -0,0 +1,50 @@
+// Languages for transcription and feedback. Whisper detects the spoken
+// language on its own; these are the ones a user can pick as an override or
+// as the language the feedback is written in. Codes are ISO 639-1, which is
+// what the Whisper APIs accept.
+
+export interface Language {
+    code: string;
+    name: string;
+}
+
+export const LANGUAGES: Language[] = [
+    { code: "en", name: "English" },
+    { code: "es", name: "Spanish" },
+    { code: "fr", name: "French" },
+    { code: "de", name: "German" },
+    { code: "it", name: "Italian" },
+    { code: "pt", name: "Portuguese" },
+    { code: "nl", name: "Dutch" },
+    { code: "sv", name: "Swedish" },
+    { code: "pl", name: "Polish" },
+    { code: "tr", name: "Turkish" },
+    { code: "ru", name: "Russian" },
+    { code: "uk", name: "Ukrainian" },
+    { code: "ar", name: "Arabic" },
+    { code: "hi", name: "Hindi" },
+    { code: "id", name: "Indonesian" },
+    { code: "vi", name: "Vietnamese" },
+    { code: "zh", name: "Chinese" },
+    { code: "ja", name: "Japanese" },
+    { code: "ko", name: "Korean" },
+];
+
+// Feedback language when the user doesn't choose one
+export const DEFAULT_FEEDBACK_LANGUAGE = "en";
+
+export function isLanguageCode(value: unknown): value is string {
+    return typeof value === "string" && LANGUAGES.some((l) => l.code === value);
+}
+
+// "en" -> "English". Codes outside the list are shown as they are.
+export function languageName(code: string): string {
+    return LANGUAGES.find((l) => l.code === code)?.name ?? code;
+}
+
+// Whisper servers report the detected language either as a code ("en") or
+// as a lowercase name ("english"); store the code when we know it
+export function normalizeLanguage(value: string): string {
+    const lower = value.trim().toLowerCase();
+    return LANGUAGES.find((l) => l.code === lower || l.name.toLowerCase() === lower)?.code ?? lower;
+}
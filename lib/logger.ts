@@ -0,0 +1,84 @@
+import { v4 as uuidv4 } from "uuid";
+
+// Structured logging. Every entry is one event with a message and fields;
+// a child logger carries fields such as the request's correlation id and the
+// job id into everything logged below it, so one upload can be followed from
+// the route through the background pipeline.
+//
+//   LOG_FORMAT = json | pretty   (default: json in production, pretty otherwise)
+//   LOG_LEVEL  = debug | info | warn | error   (default: info)
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+    // A logger that adds `fields` to every entry
+    child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function minimumLevel(): number {
+    const level = process.env.LOG_LEVEL as LogLevel | undefined;
+    return LEVELS[level && level in LEVELS ? level : "info"];
+}
+
+function isJson(): boolean {
+    const format = process.env.LOG_FORMAT;
+    return format ? format === "json" : process.env.NODE_ENV === "production";
+}
+
+// Errors don't survive JSON.stringify; keep their message
+function serialize(value: unknown): unknown {
+    return value instanceof Error ? value.message : value;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields): void {
+    if (LEVELS[level] < minimumLevel()) return;
+    const out = level === "error" ? console.error : level === "warn" ? console.warn : console.log;
+    const entries = Object.entries(fields).filter(([, v]) => v !== undefined);
+
+    if (isJson()) {
+        const event: LogFields = { time: new Date().toISOString(), level, msg: message };
+        for (const [key, value] of entries) event[key] = serialize(value);
+        out(JSON.stringify(event));
+        return;
+    }
+    const details = entries
+        .map(([key, value]) => {
+            const v = serialize(value);
+            return `${key}=${typeof v === "string" ? v : JSON.stringify(v)}`;
+        })
+        .join(" ");
+    out(`[judge] ${level === "info" ? "" : `${level.toUpperCase()} `}${message}${details ? ` (${details})` : ""}`);
+}
+
+export function createLogger(fields: LogFields = {}): Logger {
+    return {
+        debug: (message, extra) => write("debug", message, { ...fields, ...extra }),
+        info: (message, extra) => write("info", message, { ...fields, ...extra }),
+        warn: (message, extra) => write("warn", message, { ...fields, ...extra }),
+        error: (message, extra) => write("error", message, { ...fields, ...extra }),
+        child: (extra) => createLogger({ ...fields, ...extra }),
+    };
+}
+
+// For code that runs outside any request
+export const logger = createLogger();
+
+// A logger for a route handler, tagged with the request's correlation id
+export function requestLogger(request: Request): Logger {
+    return logger.child({ correlationId: correlationIdFrom(request) });
+}
+
+// The request's correlation id: the caller's X-Request-Id when it looks like
+// one, so a proxy's id carries through, otherwise a new one
+export function correlationIdFrom(request: Request): string {
+    const given = request.headers.get("x-request-id")?.trim();
+    return given && /^[\w.:-]{1,128}$/.test(given) ? given : uuidv4();
+}
@@ -0,0 +1,207 @@
+import { createWriteStream } from "fs";
+import { lookup as dnsLookup, type LookupAddress } from "dns";
+import { get as httpGet, type IncomingMessage } from "http";
+import { get as httpsGet } from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { basename, extname } from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { AUDIO_TYPES, MAX_UPLOAD_BYTES, VIDEO_TYPES } from "@/lib/uploads";
+import { logger, type Logger } from "@/lib/logger";
+
+// Judging a recording from a URL. The server downloads the file itself, so
+// only public http(s) hosts are allowed: every hop of a redirect is resolved
+// as it connects and rejected if it points into a private network.
+
+const MAX_REDIRECTS = 5;
+const DOWNLOAD_TIMEOUT_MS = 15 * 60 * 1000;
+
+// For servers that send a generic content type
+const EXTENSION_TYPES: Record<string, string> = {
+    ".mp4": "video/mp4",
+    ".webm": "video/webm",
+    ".mov": "video/quicktime",
+    ".avi": "video/x-msvideo",
+    ".mkv": "video/x-matroska",
+    ".mp3": "audio/mpeg",
+    ".wav": "audio/wav",
+    ".m4a": "audio/mp4",
+    ".ogg": "audio/ogg",
+};
+
+export class DownloadError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "DownloadError";
+    }
+}
+
+// Check a URL before accepting it; returns an error message or null
+export function checkMediaUrl(value: unknown): string | null {
+    if (typeof value !== "string" || !value.trim()) return "url is required.";
+    let url: URL;
+    try {
+        url = new URL(value.trim());
+    } catch {
+        return "That is not a valid URL.";
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") return "Only http and https URLs are supported.";
+    if (url.username || url.password) return "URLs with credentials are not supported.";
+    return null;
+}
+
+// Loopback, private, link-local, shared, documentation, benchmarking,
+// multicast and reserved ranges, none of which a public media host lives in
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+    ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.0.2.0", 24], ["192.88.99.0", 24], ["192.168.0.0", 16],
+    ["198.18.0.0", 15], ["198.51.100.0", 24], ["203.0.113.0", 24], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+// IPv4-compatible, NAT64, discard, IETF (Teredo), documentation, 6to4,
+// unique local, link-local, site-local and multicast
+for (const [network, prefix] of [
+    ["::", 96], ["64:ff9b::", 96], ["64:ff9b:1::", 48], ["100::", 64], ["2001::", 23], ["2001:db8::", 32],
+    ["2002::", 16], ["fc00::", 7], ["fe80::", 10], ["fec0::", 10], ["ff00::", 8],
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// An IPv4-mapped IPv6 address (::ffff:127.0.0.1, or ::ffff:7f00:1 as the URL
+// parser writes it) as the IPv4 address it stands for
+function unmapAddress(address: string): string {
+    const mapped = /^(?:0{0,4}:){0,5}:?ffff:(.+)$/i.exec(address);
+    if (!mapped || isIP(address) !== 6) return address;
+    if (isIP(mapped[1]) === 4) return mapped[1];
+    const hex = /^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(mapped[1]);
+    if (!hex) return address;
+    const high = parseInt(hex[1], 16);
+    const low = parseInt(hex[2], 16);
+    return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+function isPrivateAddress(address: string): boolean {
+    const normalized = unmapAddress(address);
+    const family = isIP(normalized);
+    if (family === 0) return true;
+    return BLOCKED_ADDRESSES.check(normalized, family === 4 ? "ipv4" : "ipv6");
+}
+
+// DNS lookup for the download's connections. The addresses are checked when
+// the connection is made, on every redirect hop, so a host can't resolve to
+// a public address for a check and a private one for the request.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (err, addresses: LookupAddress[]) => {
+        if (err) return callback(err, "", 0);
+        if (addresses.length === 0) return callback(new DownloadError(`Could not resolve ${hostname}.`), "", 0);
+        if (addresses.some((a) => isPrivateAddress(a.address))) {
+            return callback(new DownloadError("URLs on private networks are not allowed."), "", 0);
+        }
+        if (options.all) {
+            (callback as unknown as (err: null, addresses: LookupAddress[]) => void)(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+};
+
+// Hosts given as IP addresses never reach the lookup, so they're checked here
+function assertPublicHost(url: URL): void {
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    if (isIP(host) && isPrivateAddress(host)) throw new DownloadError("URLs on private networks are not allowed.");
+}
+
+function request(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+    return new Promise((resolve, reject) => {
+        const get = url.protocol === "https:" ? httpsGet : httpGet;
+        get(url, { lookup: publicLookup, signal }, resolve).on("error", reject);
+    });
+}
+
+function mediaType(header: string | null, filename: string): string | null {
+    const type = (header || "").split(";")[0].trim().toLowerCase();
+    if (VIDEO_TYPES.includes(type) || AUDIO_TYPES.includes(type)) return type;
+    // Trust the extension only when the server doesn't say what the file is
+    if (!type || type === "application/octet-stream" || type === "binary/octet-stream") {
+        return EXTENSION_TYPES[extname(filename).toLowerCase()] ?? null;
+    }
+    return null;
+}
+
+function fileNameOf(url: URL): string {
+    const name = basename(url.pathname);
+    try {
+        return decodeURIComponent(name) || url.hostname;
+    } catch {
+        return name || url.hostname;
+    }
+}
+
+// Download a media file to `destPath`, following redirects, up to the upload
+// size limit. Resolves with the file's name and type. Aborting `cancel` stops
+// the download.
+export async function downloadMedia(
+    url: string,
+    destPath: string,
+    { cancel, log = logger }: { cancel?: AbortSignal; log?: Logger } = {}
+): Promise<{ filename: string; type: string }> {
+    const timeout = AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS);
+    const signal = cancel ? AbortSignal.any([timeout, cancel]) : timeout;
+    let current = new URL(url);
+    let res: IncomingMessage;
+    for (let redirects = 0; ; redirects++) {
+        assertPublicHost(current);
+        try {
+            res = await request(current, signal);
+        } catch (err) {
+            if (err instanceof DownloadError) throw err;
+            throw new DownloadError(`Could not reach ${current.hostname}: ${err instanceof Error ? err.message : err}`);
+        }
+        const status = res.statusCode ?? 0;
+        const location = res.headers.location;
+        if (status < 300 || status >= 400 || !location) break;
+        res.resume();
+        if (redirects >= MAX_REDIRECTS) throw new DownloadError("The URL redirects too many times.");
+        current = new URL(location, current);
+        if (checkMediaUrl(current.href)) throw new DownloadError("The URL redirects somewhere that can't be downloaded.");
+    }
+
+    const status = res.statusCode ?? 0;
+    if (status < 200 || status >= 300) {
+        res.destroy();
+        throw new DownloadError(`The server responded ${status}.`);
+    }
+    const filename = fileNameOf(current);
+    const type = mediaType(res.headers["content-type"] ?? null, filename);
+    if (!type) {
+        res.destroy();
+        throw new DownloadError("The URL does not point to a supported audio or video file.");
+    }
+    const declared = Number(res.headers["content-length"]);
+    if (declared > MAX_UPLOAD_BYTES) {
+        res.destroy();
+        throw new DownloadError(`File too large. Maximum size is ${Math.round(MAX_UPLOAD_BYTES / (1024 * 1024))}MB.`);
+    }
+
+    let received = 0;
+    const limit = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            received += chunk.length;
+            if (received > MAX_UPLOAD_BYTES) {
+                callback(new DownloadError(`File too large. Maximum size is ${Math.round(MAX_UPLOAD_BYTES / (1024 * 1024))}MB.`));
+            } else {
+                callback(null, chunk);
+            }
+        },
+    });
+    try {
+        await pipeline(res, limit, createWriteStream(destPath));
+    } catch (err) {
+        if (err instanceof DownloadError) throw err;
+        throw new DownloadError(`The download was interrupted: ${err instanceof Error ? err.message : err}`);
+    }
+    log.info(`Downloaded ${current.href}`, { bytes: received, type });
+    return { filename, type };
+}
@@ -0,0 +1,55 @@
+import { createReadStream } from "fs";
+import { stat } from "fs/promises";
+import { extname } from "path";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { logger, type Logger } from "@/lib/logger";
+
+// Original recordings, kept in a private Supabase Storage bucket so reports
+// can play them back. Objects live under the owner's user id, which is what
+// the bucket's policies check. Set MEDIA_STORAGE=off to discard recordings
+// after judging instead.
+
+export const MEDIA_BUCKET = process.env.MEDIA_BUCKET || "recordings";
+
+// How long a playback link stays valid
+export const MEDIA_URL_TTL_SECONDS = 60 * 60;
+
+export function isMediaStorageEnabled(): boolean {
+    return process.env.MEDIA_STORAGE !== "off";
+}
+
+// Upload a recording for a judgment and return its storage path
+export async function storeMedia(
+    db: SupabaseClient,
+    { userId, judgmentId, filePath, filename, contentType, log = logger }: {
+        userId: string;
+        judgmentId: string;
+        filePath: string;
+        filename: string;
+        contentType: string;
+        log?: Logger;
+    }
+): Promise<string> {
+    const storagePath = `${userId}/${judgmentId}${extname(filename).toLowerCase()}`;
+    const { size } = await stat(filePath);
+    const { error } = await db.storage
+        .from(MEDIA_BUCKET)
+        .upload(storagePath, createReadStream(filePath), { contentType, upsert: false });
+
+    if (error) throw new Error(`Failed to store recording: ${error.message}`);
+    log.info(`Recording stored at ${MEDIA_BUCKET}/${storagePath}`, { bytes: size });
+    return storagePath;
+}
+
+// A time-limited link the browser can stream the recording from
+export async function mediaUrl(db: SupabaseClient, storagePath: string): Promise<string> {
+    const { data, error } = await db.storage.from(MEDIA_BUCKET).createSignedUrl(storagePath, MEDIA_URL_TTL_SECONDS);
+    if (error || !data) throw new Error(`Failed to sign recording URL: ${error?.message}`);
+    return data.signedUrl;
+}
+
+export async function deleteMedia(db: SupabaseClient, storagePaths: string[]): Promise<void> {
+    if (storagePaths.length === 0) return;
+    const { error } = await db.storage.from(MEDIA_BUCKET).remove(storagePaths);
+    if (error) throw new Error(`Failed to delete recording: ${error.message}`);
+}
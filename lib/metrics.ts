@@ -0,0 +1,217 @@
+import { open, type FileHandle } from "fs/promises";
+import { formatTimecode, type TranscriptWord } from "@/lib/transcript";
+
+// Objective delivery metrics computed from the extracted WAV and the transcript.
+//
+// extractAudio always produces 16 kHz mono 16-bit PCM, so the WAV is read
+// directly rather than through another ffmpeg pass. Long recordings run to
+// hundreds of megabytes, so the samples are streamed in fixed-size windows
+// and only their loudness is kept.
+
+export interface Pause {
+    start: number;
+    end: number;
+    duration: number;
+}
+
+export interface DeliveryMetrics {
+    durationSeconds: number;
+    speakingSeconds: number;
+    wordCount: number;
+    wordsPerMinute: number;
+    fillerCount: number;
+    fillersPerMinute: number;
+    fillers: Record<string, number>;
+    longPauses: Pause[];
+    // Share of the recording that is silence, 0-1
+    silenceRatio: number;
+    // Standard deviation of loudness while speaking, in dB. Low values sound monotone.
+    loudnessVariationDb: number;
+    averageLoudnessDb: number;
+}
+
+// A recording's WAV file: where its samples are, and the loudness of each
+// 50ms frame in dBFS
+export interface WavAudio {
+    path: string;
+    sampleRate: number;
+    // Byte offset of the first sample
+    dataOffset: number;
+    sampleCount: number;
+    frames: number[];
+}
+
+const FRAME_SECONDS = 0.05;
+// Frames read from the file at a time, 10 seconds' worth
+const FRAMES_PER_WINDOW = 200;
+const LONG_PAUSE_SECONDS = 1.5;
+
+export const FILLER_WORDS = ["um", "uh", "erm", "like", "you know", "i mean", "basically", "actually", "kind of", "sort of"];
+
+// Read a mono 16-bit PCM WAV file
+export async function readWav(path: string): Promise<WavAudio> {
+    const file = await open(path, "r");
+    try {
+        const { size: fileSize } = await file.stat();
+        const header = Buffer.alloc(12);
+        await file.read(header, 0, 12, 0);
+        if (header.toString("ascii", 0, 4) !== "RIFF" || header.toString("ascii", 8, 12) !== "WAVE") {
+            throw new Error("Extracted audio is not a WAV file");
+        }
+
+        let sampleRate = 16000;
+        let offset = 12;
+        const chunk = Buffer.alloc(8);
+        while (offset + 8 <= fileSize) {
+            await file.read(chunk, 0, 8, offset);
+            const id = chunk.toString("ascii", 0, 4);
+            const size = chunk.readUInt32LE(4);
+            const body = offset + 8;
+
+            if (id === "fmt ") {
+                await file.read(chunk, 0, 8, body);
+                sampleRate = chunk.readUInt32LE(4);
+            } else if (id === "data") {
+                // ffmpeg writes a placeholder size when streaming; trust the file length instead
+                const end = Math.min(fileSize, size > 0 && size < 0xffffffff ? body + size : fileSize);
+                const sampleCount = Math.floor((end - body) / 2);
+                const frames = await frameLoudness(file, body, sampleCount, sampleRate);
+                return { path, sampleRate, dataOffset: body, sampleCount, frames };
+            }
+            offset = body + size + (size % 2);
+        }
+        throw new Error("WAV file has no data chunk");
+    } finally {
+        await file.close();
+    }
+}
+
+// Loudness of each 50ms frame in dBFS. Windows hold whole frames, so no
+// frame spans two reads.
+async function frameLoudness(file: FileHandle, dataOffset: number, sampleCount: number, sampleRate: number): Promise<number[]> {
+    const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+    const windowSize = frameSize * FRAMES_PER_WINDOW;
+    const window = Buffer.alloc(windowSize * 2);
+    const samples = new Int16Array(window.buffer, window.byteOffset, windowSize);
+    const frames: number[] = [];
+    for (let position = 0; position < sampleCount; position += windowSize) {
+        const wanted = Math.min(windowSize, sampleCount - position);
+        const { bytesRead } = await file.read(window, 0, wanted * 2, dataOffset + position * 2);
+        const read = Math.floor(bytesRead / 2);
+        for (let start = 0; start < read; start += frameSize) {
+            const end = Math.min(read, start + frameSize);
+            let sum = 0;
+            for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+            const rms = Math.sqrt(sum / (end - start)) / 32768;
+            frames.push(rms > 0 ? 20 * Math.log10(rms) : -100);
+        }
+        if (read < wanted) break;
+    }
+    return frames;
+}
+
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    return sorted[Math.min(sorted.length - 1, Math.floor((sorted.length - 1) * p))];
+}
+
+// Frames quieter than this count as silence. Relative to the loud end of the
+// recording so quiet but clean recordings aren't treated as all silence.
+export function silenceThreshold(frames: number[]): number {
+    const sorted = [...frames].sort((a, b) => a - b);
+    return Math.max(-55, Math.min(-25, percentile(sorted, 0.95) - 30));
+}
+
+export function countFillers(text: string): Record<string, number> {
+    const normalized = ` ${text.toLowerCase().replace(/[^\p{L}\p{N}']+/gu, " ")} `;
+    const counts: Record<string, number> = {};
+    for (const filler of FILLER_WORDS) {
+        const matches = normalized.match(new RegExp(`(?<= )${filler}(?= )`, "g"))?.length ?? 0;
+        if (matches > 0) counts[filler] = matches;
+    }
+    return counts;
+}
+
+export function computeDeliveryMetrics(
+    audio: WavAudio,
+    transcript: string,
+    words: TranscriptWord[] = [],
+    language?: string | null
+): DeliveryMetrics {
+    const { frames } = audio;
+    const threshold = silenceThreshold(frames);
+    const silent = frames.map((db) => db < threshold);
+    const durationSeconds = audio.sampleCount / audio.sampleRate;
+
+    // Long pauses between speech; leading and trailing silence don't count
+    const firstVoiced = silent.indexOf(false);
+    const lastVoiced = silent.lastIndexOf(false);
+    const longPauses: Pause[] = [];
+    let runStart = -1;
+    for (let i = Math.max(0, firstVoiced); i <= lastVoiced; i++) {
+        if (silent[i] && runStart === -1) runStart = i;
+        if (!silent[i] && runStart !== -1) {
+            const duration = (i - runStart) * FRAME_SECONDS;
+            if (duration >= LONG_PAUSE_SECONDS) {
+                longPauses.push({
+                    start: round(runStart * FRAME_SECONDS),
+                    end: round(i * FRAME_SECONDS),
+                    duration: round(duration),
+                });
+            }
+            runStart = -1;
+        }
+    }
+
+    const voiced = frames.filter((_, i) => !silent[i]);
+    const speakingSeconds = voiced.length * FRAME_SECONDS;
+    const averageLoudnessDb = voiced.length > 0 ? voiced.reduce((a, b) => a + b, 0) / voiced.length : -100;
+    const loudnessVariationDb = voiced.length > 0
+        ? Math.sqrt(voiced.reduce((acc, db) => acc + (db - averageLoudnessDb) ** 2, 0) / voiced.length)
+        : 0;
+
+    const wordCount = words.length > 0 ? words.length : transcript.split(/\s+/).filter(Boolean).length;
+    const minutes = durationSeconds / 60;
+    // The filler list is English; other languages go uncounted rather than miscounted
+    const fillers = !language || language === "en" ? countFillers(transcript) : {};
+    const fillerCount = Object.values(fillers).reduce((a, b) => a + b, 0);
+
+    return {
+        durationSeconds: round(durationSeconds),
+        speakingSeconds: round(speakingSeconds),
+        wordCount,
+        wordsPerMinute: minutes > 0 ? Math.round(wordCount / minutes) : 0,
+        fillerCount,
+        fillersPerMinute: minutes > 0 ? round(fillerCount / minutes) : 0,
+        fillers,
+        longPauses,
+        silenceRatio: frames.length > 0 ? round(silent.filter(Boolean).length / frames.length) : 0,
+        loudnessVariationDb: round(loudnessVariationDb),
+        averageLoudnessDb: round(averageLoudnessDb),
+    };
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+// Plain-text summary handed to the judges as evidence
+export function describeMetrics(m: DeliveryMetrics): string {
+    const fillers = Object.entries(m.fillers)
+        .sort((a, b) => b[1] - a[1])
+        .map(([word, count]) => `"${word}" ×${count}`)
+        .join(", ");
+    const pauses = m.longPauses
+        .slice(0, 5)
+        .map((p) => `${p.duration}s at ${formatTimecode(p.start)}`)
+        .join(", ");
+
+    return [
+        `- Duration: ${m.durationSeconds}s, of which ${m.speakingSeconds}s is speech`,
+        `- Speaking rate: ${m.wordsPerMinute} words per minute (${m.wordCount} words; conversational pace is roughly 130-160)`,
+        `- Filler words: ${m.fillerCount} (${m.fillersPerMinute} per minute)${fillers ? `: ${fillers}` : ""}`,
+        `- Long pauses (≥${LONG_PAUSE_SECONDS}s): ${m.longPauses.length}${pauses ? ` — ${pauses}` : ""}`,
+        `- Silence: ${Math.round(m.silenceRatio * 100)}% of the recording`,
+        `- Loudness variation while speaking: ${m.loudnessVariationDb} dB (below ~3 dB tends to sound monotone)`,
+    ].join("\n");
+}
@@ -0,0 +1,132 @@
+import { createHash } from "crypto";
+import type { RubricCriterion } from "@/lib/rubrics";
+import type { JudgeVerdict } from "@/lib/judgment";
+import { logger } from "@/lib/logger";
+
+// Judge panel: persona definitions and consensus aggregation.
+//
+// Each persona scores the transcript independently; the aggregator merges the
+// verdicts into a consensus and records how far the judges agree per criterion.
+//
+// The panel is configured with environment variables:
+//   JUDGE_PANEL    = comma-separated persona ids (default: every built-in persona)
+//   JUDGE_PERSONAS = JSON array of extra/overriding personas, e.g.
+//                    [{ "id": "investor", "name": "Investor", "icon": "💼", "perspective": "..." }]
+
+export interface JudgePersona {
+    id: string;
+    name: string;
+    icon: string;
+    // Appended to the judging prompt to set the persona's point of view
+    perspective: string;
+    temperature?: number;
+}
+
+export type Agreement = "agree" | "mixed" | "split";
+
+export interface CriterionConsensus {
+    mean: number;
+    min: number;
+    max: number;
+    spread: number;
+    agreement: Agreement;
+}
+
+export interface PanelConsensus {
+    score: number;
+    overall: CriterionConsensus;
+    criteria: Record<string, CriterionConsensus & { comment: string }>;
+}
+
+export const DEFAULT_PERSONAS: JudgePersona[] = [
+    {
+        id: "storyteller",
+        name: "Storytelling Coach",
+        icon: "📖",
+        perspective: "You coach speakers on narrative. Focus on the hook, the story arc, emotional beats and whether the ending lands.",
+    },
+    {
+        id: "technical",
+        name: "Technical Reviewer",
+        icon: "🔬",
+        perspective: "You review content for accuracy and rigor. Focus on whether claims are correct, precise and backed up, and whether explanations are complete.",
+        temperature: 0.4,
+    },
+    {
+        id: "skeptic",
+        name: "Skeptical Audience Member",
+        icon: "🤨",
+        perspective: "You are a busy viewer who is hard to impress. Focus on whether you would keep watching, what feels like filler, and what you would push back on.",
+        temperature: 0.8,
+    },
+];
+
+export function getPanel(): JudgePersona[] {
+    const personas = new Map(DEFAULT_PERSONAS.map((p) => [p.id, p]));
+
+    if (process.env.JUDGE_PERSONAS) {
+        try {
+            const extra = JSON.parse(process.env.JUDGE_PERSONAS) as JudgePersona[];
+            for (const persona of extra) {
+                if (persona?.id && persona.name && persona.perspective) {
+                    personas.set(persona.id, { ...persona, icon: persona.icon || "⚖️" });
+                }
+            }
+        } catch {
+            logger.error("Ignoring invalid JUDGE_PERSONAS (expected a JSON array)");
+        }
+    }
+
+    const ids = (process.env.JUDGE_PANEL || "")
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean);
+    if (ids.length === 0) return Array.from(personas.values());
+
+    const panel = ids.map((id) => personas.get(id)).filter((p): p is JudgePersona => !!p);
+    if (panel.length === 0) {
+        throw new Error(`JUDGE_PANEL "${process.env.JUDGE_PANEL}" does not match any persona`);
+    }
+    return panel;
+}
+
+// Fingerprint of a panel's personas, stored on judgments so a verdict is only
+// reused while the same panel would judge
+export function panelKey(panel: JudgePersona[] = getPanel()): string {
+    const personas = panel.map(({ id, perspective, temperature }) => [id, perspective, temperature ?? null]);
+    return createHash("sha256").update(JSON.stringify(personas)).digest("hex").slice(0, 16);
+}
+
+// Spread is compared on a 10-point scale: within a point is agreement, more than three is a split
+function classifyAgreement(spread: number, scale: number): Agreement {
+    const normalized = (spread / scale) * 10;
+    if (normalized <= 1) return "agree";
+    if (normalized <= 3) return "mixed";
+    return "split";
+}
+
+function summarize(values: number[], scale: number): CriterionConsensus {
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const mean = Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10;
+    return { mean, min, max, spread: max - min, agreement: classifyAgreement(max - min, scale) };
+}
+
+export function aggregateVerdicts(verdicts: JudgeVerdict[], criteria: RubricCriterion[]): PanelConsensus {
+    const overall = summarize(verdicts.map((v) => v.score), 100);
+
+    const byCriterion: PanelConsensus["criteria"] = {};
+    for (const { key, min, max } of criteria) {
+        const scored = verdicts.filter((v) => v.criteria[key]);
+        if (scored.length === 0) continue;
+
+        const stats = summarize(scored.map((v) => v.criteria[key].score), max - min);
+        // Quote the judge closest to the panel's mean as the representative comment
+        const representative = scored.reduce((best, v) =>
+            Math.abs(v.criteria[key].score - stats.mean) < Math.abs(best.criteria[key].score - stats.mean) ? v : best
+        );
+        byCriterion[key] = { ...stats, comment: representative.criteria[key].comment };
+    }
+
+    return { score: Math.round(overall.mean), overall, criteria: byCriterion };
+}
@@ -0,0 +1,274 @@
+import { readFile } from "fs/promises";
+import path from "path";
+// fontkit shapes Devanagari with a generator compiled for this runtime
+import "regenerator-runtime/runtime";
+import fontkit, { type Font } from "@pdf-lib/fontkit";
+import { PDFDocument, rgb, type PDFFont } from "pdf-lib";
+
+// Text reports as PDF: wrapped paragraphs on A4 pages, drawn with pdf-lib.
+// The fonts are Noto Sans TrueType files, embedded as subsets with a
+// ToUnicode map so text can be searched and copied. Each character is drawn
+// with the first font that has it, and fonts nothing in the report needs
+// aren't embedded. The fonts are read from node_modules, so this only runs
+// on the server.
+
+export interface PdfBlock {
+    text: string;
+    size?: number;
+    bold?: boolean;
+    // RGB, 0-1
+    color?: [number, number, number];
+    // Extra space above the block, in points
+    spaceBefore?: number;
+    indent?: number;
+}
+
+export interface PdfReport {
+    blocks: PdfBlock[];
+    title: string;
+    createdAt?: Date;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const LINE_HEIGHT = 1.4;
+const FOOTER_SIZE = 8;
+
+type Weight = "regular" | "bold";
+
+// Tried in this order: Latin, Greek, Cyrillic and Devanagari; Arabic;
+// Chinese and Japanese; Korean. The paths are spelled out so the build only
+// bundles these weights.
+const FONT_FILES: Record<Weight, string>[] = [
+    {
+        regular: path.join(process.cwd(), "node_modules/@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf"),
+        bold: path.join(process.cwd(), "node_modules/@expo-google-fonts/noto-sans/700Bold/NotoSans_700Bold.ttf"),
+    },
+    {
+        regular: path.join(process.cwd(), "node_modules/@expo-google-fonts/noto-sans-arabic/400Regular/NotoSansArabic_400Regular.ttf"),
+        bold: path.join(process.cwd(), "node_modules/@expo-google-fonts/noto-sans-arabic/700Bold/NotoSansArabic_700Bold.ttf"),
+    },
+    {
+        regular: path.join(process.cwd(), "node_modules/@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf"),
+        bold: path.join(process.cwd(), "node_modules/@expo-google-fonts/noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf"),
+    },
+    {
+        regular: path.join(process.cwd(), "node_modules/@expo-google-fonts/noto-sans-kr/400Regular/NotoSansKR_400Regular.ttf"),
+        bold: path.join(process.cwd(), "node_modules/@expo-google-fonts/noto-sans-kr/700Bold/NotoSansKR_700Bold.ttf"),
+    },
+];
+
+interface FontFile {
+    bytes: Uint8Array;
+    font: Font;
+}
+
+// Font files are large, so each is read once per process
+const fontFiles = new Map<string, Promise<FontFile>>();
+
+function fontFile(file: string): Promise<FontFile> {
+    let loading = fontFiles.get(file);
+    if (!loading) {
+        loading = readFile(file).then((buffer) => {
+            const bytes = new Uint8Array(buffer);
+            return { bytes, font: fontkit.create(bytes) };
+        });
+        loading.catch(() => fontFiles.delete(file));
+        fontFiles.set(file, loading);
+    }
+    return loading;
+}
+
+interface EmbeddedFont {
+    pdfFont: PDFFont;
+    has: (codePoint: number) => boolean;
+}
+
+// Embed, for one weight, the first font and any later one that has a
+// character `text` needs and the fonts before it lack
+async function embedFonts(doc: PDFDocument, weight: Weight, text: string): Promise<EmbeddedFont[]> {
+    let missing = Array.from(new Set(Array.from(text, (ch) => ch.codePointAt(0)!))).filter((code) => code > 32);
+    const fonts: EmbeddedFont[] = [];
+    for (const files of FONT_FILES) {
+        if (fonts.length > 0 && missing.length === 0) break;
+        const { bytes, font } = await fontFile(files[weight]);
+        const has = (code: number) => font.hasGlyphForCodePoint(code);
+        if (fonts.length > 0 && !missing.some(has)) continue;
+
+        fonts.push({ pdfFont: await doc.embedFont(bytes, { subset: true }), has });
+        missing = missing.filter((code) => !has(code));
+    }
+    return fonts;
+}
+
+interface Run {
+    text: string;
+    font: PDFFont;
+    rtl: boolean;
+}
+
+function isRtl(code: number): boolean {
+    return (code >= 0x0590 && code <= 0x08ff) || (code >= 0xfb1d && code <= 0xfdff) || (code >= 0xfe70 && code <= 0xfefe);
+}
+
+// Whether a line reads right to left: its first letter is from a
+// right-to-left script
+function rtlLine(text: string): boolean {
+    const letter = text.match(/\p{L}/u);
+    return letter ? isRtl(letter[0].codePointAt(0)!) : false;
+}
+
+// Split a line into runs of one font and one direction. Letters set the
+// direction and digits read left to right. Spaces and punctuation between
+// two letters of one direction take it, and the line's direction otherwise;
+// they're drawn with the font of the run they're in.
+function runs(text: string, fonts: EmbeddedFont[], rtlBase = rtlLine(text)): Run[] {
+    const chars = Array.from(text);
+    const strong = chars.map((ch) => (/\p{L}/u.test(ch) ? isRtl(ch.codePointAt(0)!) : /\p{N}/u.test(ch) ? false : null));
+    const before: (boolean | null)[] = [];
+    strong.forEach((dir, i) => (before[i] = dir ?? (i > 0 ? before[i - 1] : null)));
+    const after: (boolean | null)[] = [];
+    for (let i = strong.length - 1; i >= 0; i--) after[i] = strong[i] ?? (i < strong.length - 1 ? after[i + 1] : null);
+
+    const result: (Run & { source: EmbeddedFont })[] = [];
+    chars.forEach((ch, i) => {
+        const code = ch.codePointAt(0)!;
+        const current = result.at(-1);
+        const rtl = strong[i] ?? (before[i] !== null && before[i] === after[i] ? before[i]! : rtlBase);
+        const source = (strong[i] === null && current?.source.has(code) ? current.source : fonts.find((f) => f.has(code)))
+            ?? current?.source ?? fonts[0];
+        if (current && current.source === source && current.rtl === rtl) {
+            current.text += ch;
+        } else {
+            result.push({ text: ch, font: source.pdfFont, rtl, source });
+        }
+    });
+    return result.map(({ text, font, rtl }) => ({ text, font, rtl }));
+}
+
+// Runs in the order they're drawn, left to right. A right-to-left line is
+// reversed, and each stretch of the other direction keeps its own order: a
+// simplified Unicode bidi algorithm, enough for words of one script inside
+// another. fontkit reverses runs of right-to-left letters as it shapes them;
+// right-to-left spaces and punctuation are reversed here.
+function visualOrder(line: Run[], rtl: boolean): Run[] {
+    const ordered = (rtl ? [...line].reverse() : [...line])
+        .map((run) => (run.rtl && !rtlLine(run.text) ? { ...run, text: Array.from(run.text).reverse().join("") } : run));
+    const result: Run[] = [];
+    let stretch: Run[] = [];
+    for (const run of ordered) {
+        if (run.rtl !== rtl) {
+            stretch.push(run);
+            continue;
+        }
+        result.push(...stretch.reverse(), run);
+        stretch = [];
+    }
+    return [...result, ...stretch.reverse()];
+}
+
+function textWidth(text: string, size: number, fonts: EmbeddedFont[]): number {
+    return runs(text, fonts).reduce((sum, run) => sum + run.font.widthOfTextAtSize(run.text, size), 0);
+}
+
+// Greedy word wrap; words longer than a line (or text in scripts written
+// without spaces) are split
+function wrap(text: string, size: number, fonts: EmbeddedFont[], width: number): string[] {
+    const lines: string[] = [];
+    const spaceWidth = textWidth(" ", size, fonts);
+    for (const paragraph of text.split("\n")) {
+        let line = "";
+        let lineWidth = 0;
+        for (const whole of paragraph.split(" ")) {
+            let word = whole;
+            let wordWidth = textWidth(word, size, fonts);
+            while (wordWidth > width) {
+                // The longest prefix that fits, by binary search over characters
+                const chars = Array.from(word);
+                let low = 1;
+                let high = chars.length - 1;
+                while (low < high) {
+                    const mid = Math.ceil((low + high) / 2);
+                    if (textWidth(chars.slice(0, mid).join(""), size, fonts) <= width) low = mid;
+                    else high = mid - 1;
+                }
+                if (line) lines.push(line);
+                lines.push(chars.slice(0, low).join(""));
+                line = "";
+                lineWidth = 0;
+                word = chars.slice(low).join("");
+                wordWidth = textWidth(word, size, fonts);
+            }
+            if (line && lineWidth + spaceWidth + wordWidth > width) {
+                lines.push(line);
+                line = word;
+                lineWidth = wordWidth;
+            } else {
+                lineWidth += (line ? spaceWidth : 0) + wordWidth;
+                line = line ? `${line} ${word}` : word;
+            }
+        }
+        lines.push(line);
+    }
+    return lines;
+}
+
+function clean(text: string): string {
+    return text.normalize("NFC").replace(/\t/g, "    ").replace(/\r/g, "");
+}
+
+export async function renderPdf({ blocks, title, createdAt = new Date() }: PdfReport): Promise<Uint8Array> {
+    const doc = await PDFDocument.create();
+    doc.registerFontkit(fontkit);
+    doc.setTitle(title);
+    doc.setCreationDate(createdAt);
+    doc.setModificationDate(createdAt);
+
+    const texts = blocks.map((block) => clean(block.text));
+    const fonts: Record<Weight, EmbeddedFont[]> = {
+        regular: await embedFonts(doc, "regular", texts.filter((_, i) => !blocks[i].bold).join("")),
+        bold: blocks.some((block) => block.bold)
+            ? await embedFonts(doc, "bold", texts.filter((_, i) => blocks[i].bold).join(""))
+            : [],
+    };
+
+    let page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    let y = PAGE_HEIGHT - MARGIN;
+    blocks.forEach((block, i) => {
+        const size = block.size ?? 10;
+        const weight = fonts[block.bold ? "bold" : "regular"];
+        const indent = block.indent ?? 0;
+        const [r, g, b] = block.color ?? [0.1, 0.1, 0.12];
+        const leading = size * LINE_HEIGHT;
+        const width = PAGE_WIDTH - 2 * MARGIN - indent;
+
+        y -= block.spaceBefore ?? 0;
+        for (const line of wrap(texts[i], size, weight, width)) {
+            if (y - leading < MARGIN) {
+                page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+                y = PAGE_HEIGHT - MARGIN;
+            }
+            y -= leading;
+            if (!line) continue;
+
+            // Right-to-left lines are set flush right
+            const rtl = rtlLine(line);
+            let x = MARGIN + indent + (rtl ? width - textWidth(line, size, weight) : 0);
+            for (const run of visualOrder(runs(line, weight, rtl), rtl)) {
+                page.drawText(run.text, { x, y, size, font: run.font, color: rgb(r, g, b) });
+                x += run.font.widthOfTextAtSize(run.text, size);
+            }
+        }
+    });
+
+    const pages = doc.getPages();
+    pages.forEach((p, i) => {
+        const footer = `${i + 1} / ${pages.length}`;
+        const font = fonts.regular[0].pdfFont;
+        const x = PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(footer, FOOTER_SIZE);
+        p.drawText(footer, { x, y: MARGIN / 2, size: FOOTER_SIZE, font, color: rgb(0.5, 0.5, 0.5) });
+    });
+
+    return doc.save();
+}
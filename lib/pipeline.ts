@@ -0,0 +1,919 @@
+import { unlink } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { extractAudio } from "@/lib/ffmpeg";
+import { getJudgeProvider, getTranscriptionProvider, modelId, type ChatMessage, type JudgeProvider, type TranscriptionResult } from "@/lib/providers";
+import { completeJob, failJob, jobSignal, setJobStage } from "@/lib/jobs";
+import { deleteMedia, isMediaStorageEnabled, storeMedia } from "@/lib/media-store";
+import { downloadMedia, DownloadError } from "@/lib/media-download";
+import { isAudioType } from "@/lib/uploads";
+import { chargeAudioMinutes, getRateLimitStore, RateLimitError } from "@/lib/rate-limit";
+import { cacheTranscript, findCachedTranscript, hashFile } from "@/lib/transcript-cache";
+import { findDuplicateJudgment } from "@/lib/judgment-store";
+import { DEFAULT_RUBRIC, DEFAULT_RUBRIC_ID, type Rubric } from "@/lib/rubrics";
+import { computeDeliveryMetrics, describeMetrics, readWav, type DeliveryMetrics, type WavAudio } from "@/lib/metrics";
+import { analyzeVideo, describeVideo, type TargetPlatform, type VideoAnalysis } from "@/lib/video";
+import { formatTimecode, formatTimedTranscript, isLongTranscript, parseSubtitles, splitSections, type TranscriptSegment } from "@/lib/transcript";
+import { CHUNK_SECONDS, planChunks, stitchTranscripts, writeWavChunk } from "@/lib/audio-chunks";
+import { aggregateVerdicts, getPanel, panelKey, type JudgePersona, type PanelConsensus } from "@/lib/panel";
+import { JudgmentValidationError, parseFeedback, validateVerdict, type Judgment, type JudgeVerdict, type SectionVerdict, type StructuredFeedback } from "@/lib/judgment";
+import { criterionDeltas, type ChangeAnalysis } from "@/lib/compare";
+import { DEFAULT_FEEDBACK_LANGUAGE, languageName } from "@/lib/languages";
+import { logger, type Logger } from "@/lib/logger";
+import { recordUsage, saveRun, timeStage, type Run, type RunOutcome } from "@/lib/telemetry";
+
+// Long recordings are transcribed in chunks and long transcripts judged in
+// sections, this many at a time
+const TRANSCRIPTION_CONCURRENCY = Number(process.env.TRANSCRIPTION_CONCURRENCY || 3);
+const SECTION_CONCURRENCY = 3;
+
+// Run fn over items with at most `limit` calls in flight, keeping the order.
+// The first failure stops the rest: no new calls start, `stop` is aborted for
+// the ones in flight, and the error is rethrown once every call has settled.
+async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number, stop: AbortSignal) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    const stopper = new AbortController();
+    const failures: unknown[] = [];
+    let next = 0;
+    const worker = async () => {
+        while (failures.length === 0 && next < items.length) {
+            const index = next++;
+            try {
+                results[index] = await fn(items[index], index, stopper.signal);
+            } catch (err) {
+                failures.push(err);
+                stopper.abort(err);
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+    if (failures.length > 0) throw failures[0];
+    return results;
+}
+
+function eitherSignal(a: AbortSignal | undefined, b: AbortSignal): AbortSignal {
+    return a ? AbortSignal.any([a, b]) : b;
+}
+
+// Transcribe audio with the configured speech-to-text provider, keeping
+// segment and word timestamps. The spoken language is detected unless given.
+// Given the recording as read by readWav, ones longer than a chunk are split
+// at pauses, transcribed in parallel and stitched back together.
+export async function transcribeAudio(
+    audioPath: string,
+    audio?: WavAudio,
+    { language, log = logger, signal }: { language?: string; log?: Logger; signal?: AbortSignal } = {}
+): Promise<TranscriptionResult> {
+    const provider = getTranscriptionProvider();
+    const chunks = audio ? planChunks(audio) : [];
+    if (!audio || chunks.length <= 1) return provider.transcribe(audioPath, { language, signal });
+
+    log.info(`Transcribing ${chunks.length} chunks of up to ${CHUNK_SECONDS}s`);
+    const chunkPaths = chunks.map((_, i) => audioPath.replace(/\.wav$/, `.${i}.wav`));
+    const transcribeChunk = async (i: number, chunkLanguage?: string, stop?: AbortSignal) => {
+        const chunkSignal = stop ? eitherSignal(signal, stop) : signal;
+        chunkSignal?.throwIfAborted();
+        await writeWavChunk(chunkPaths[i], audio, chunks[i].paddedStart, chunks[i].paddedEnd);
+        chunkSignal?.throwIfAborted();
+        const result = await provider.transcribe(chunkPaths[i], { language: chunkLanguage, signal: chunkSignal });
+        await unlink(chunkPaths[i]).catch(() => { });
+        return result;
+    };
+    try {
+        // Detect the language on the first chunk and hold the rest to it, so a
+        // quiet or ambiguous chunk can't come back in another language
+        const first = await transcribeChunk(0, language);
+        const detected = language ?? first.language;
+        // A failed chunk aborts the others, and the chunk files are only
+        // removed once none of them is being written or sent any more
+        const rest = await mapWithConcurrency(chunks.slice(1), TRANSCRIPTION_CONCURRENCY, (_, i, stop) => transcribeChunk(i + 1, detected, stop));
+        return stitchTranscripts(chunks, [first, ...rest]);
+    } finally {
+        await Promise.all(chunkPaths.map((path) => unlink(path).catch(() => { })));
+    }
+}
+
+export interface JudgeInput {
+    transcript: string;
+    // Timestamped segments; when present the judges see timecodes and can cite them
+    segments?: TranscriptSegment[];
+    // Measured delivery metrics, passed to the judges as evidence
+    metrics?: DeliveryMetrics | null;
+    // Visual pacing signals from the video stream
+    video?: VideoAnalysis | null;
+    rubric?: Rubric;
+    // Spoken language of the transcript, if known
+    language?: string | null;
+    // Language to write the feedback in (default: English)
+    feedbackLanguage?: string;
+    // Judge model to use instead of the configured default
+    provider?: JudgeProvider;
+    // The job's telemetry, which collects token usage
+    run?: Run;
+    // Aborts the model calls when the job is cancelled
+    signal?: AbortSignal;
+}
+
+// Stored with every judgment. Bump it whenever the judging prompts change so
+// scores from different prompts can be told apart.
+export const PROMPT_VERSION = 3;
+
+// Build the judging prompt from the chosen rubric
+function buildJudgePrompt(
+    rubric: Rubric,
+    { timed, measured, visual, sectioned }: { timed: boolean; measured: boolean; visual: boolean; sectioned: boolean }
+): string {
+    const criteriaList = rubric.criteria
+        .map((c, i) => `${i + 1}. ${c.name} (weight ${c.weight}) - ${c.description || "Use your judgment."}`)
+        .join("\n");
+    const criteriaFormat = rubric.criteria
+        .map((c) => `    "${c.key}": { "score": <${c.min}-${c.max}>, "comment": "<1-2 sentences>" }`)
+        .join(",\n");
+
+    return `You are an expert content judge and coach. Evaluate spoken content from videos and provide actionable feedback.
+
+Evaluate on these criteria:
+${criteriaList}
+
+The overall score should reflect the criteria scores, weighted as listed.
+${sectioned ? `
+The recording is long, so instead of the full transcript you receive notes from a first pass over each section: its time range, scores and summary. Judge the recording as a whole from these notes; how the sections build on each other matters as much as each one alone.
+` : ""}${timed ? `
+Each transcript line or section starts with its time range. When a comment or tip is about a specific moment, cite that time range in the form m:ss–m:ss (for example "0:42–0:58 the hook drags").
+` : ""}${measured ? `
+You also receive delivery metrics measured from the audio. Treat them as objective evidence, especially for anything about pacing, fillers, pauses and vocal variety, and refer to them when they explain a score.
+` : ""}${visual ? `
+You also receive visual pacing signals from the video (cuts, static shots, format). Use them when judging engagement and pacing, and flag format problems for the intended platform.
+` : ""}
+You MUST respond in this exact JSON format:
+{
+  "score": <number from 1-100>,
+  "summary": "<1-2 sentence overall summary>",
+  "criteria": {
+${criteriaFormat}
+  },
+  "tips": ["<actionable tip 1>", "<actionable tip 2>", "<actionable tip 3>"]
+}
+
+Be constructive, specific, and encouraging.`;
+}
+
+const CHAIR_PROMPT = `You chair a panel of content judges. You receive each judge's verdict on the same video and write the panel's consensus.
+
+You MUST respond in this exact JSON format:
+{
+  "summary": "<1-2 sentence consensus summary, noting any strong disagreement>",
+  "tips": ["<actionable tip 1>", "<actionable tip 2>", "<actionable tip 3>"]
+}
+
+Prefer tips that several judges raised. Be constructive, specific, and encouraging.`;
+
+// Which language the video is in and which to answer in. JSON keys stay in
+// English so the verdict still validates.
+function languageInstruction(language: string | null | undefined, feedbackLanguage = DEFAULT_FEEDBACK_LANGUAGE): string {
+    const spoken = language ? `The video is in ${languageName(language)}. ` : "";
+    return `${spoken}Write every summary, comment and tip in ${languageName(feedbackLanguage)}, whatever language the transcript is in. Keep the JSON keys exactly as shown.`;
+}
+
+// How many times a judge is re-prompted with validation errors before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// First-pass notes on each section, in place of a transcript too long to send whole
+function describeSections(sections: SectionVerdict[], rubric: Rubric): string {
+    return sections
+        .map((section, i) => {
+            const range = section.start !== null && section.end !== null
+                ? ` [${formatTimecode(section.start)}–${formatTimecode(section.end)}]`
+                : "";
+            const scores = rubric.criteria
+                .filter((c) => section.criteria[c.key] !== undefined)
+                .map((c) => `${c.name} ${section.criteria[c.key]}/${c.max}`)
+                .join(", ");
+            return `Section ${i + 1}${range}: ${section.score}/100 (${scores})\n${section.summary}`;
+        })
+        .join("\n\n");
+}
+
+// Ask one persona for its verdict. Invalid answers are sent back to the model
+// with the validation errors until it produces a verdict that fits the rubric.
+async function judgeAsPersona(
+    { transcript, segments, metrics, video, rubric = DEFAULT_RUBRIC, language, feedbackLanguage, provider = getJudgeProvider(), run, signal }: JudgeInput,
+    persona: JudgePersona,
+    sections?: SectionVerdict[]
+): Promise<JudgeVerdict> {
+    const timed = sections
+        ? sections.some((s) => s.start !== null)
+        : !!segments && segments.length > 0;
+    let body = sections
+        ? describeSections(sections, rubric)
+        : segments && segments.length > 0 ? formatTimedTranscript(segments) : `"${transcript}"`;
+    if (metrics) body += `\n\nMeasured delivery metrics:\n${describeMetrics(metrics)}`;
+    if (video) body += `\n\nVisual pacing signals:\n${describeVideo(video)}`;
+
+    const prompt = buildJudgePrompt(rubric, { timed, measured: !!metrics, visual: !!video, sectioned: !!sections });
+    const messages: ChatMessage[] = [
+        {
+            role: "system",
+            content: `${prompt}\n\n${languageInstruction(language, feedbackLanguage)}\n\nYou are judging as the ${persona.name}. ${persona.perspective}`,
+        },
+        {
+            role: "user",
+            content: sections
+                ? `Please judge the following video from its section notes:\n\n${body}`
+                : `Please judge the following video transcript:\n\n${body}`,
+        },
+    ];
+
+    let errors: string[] = [];
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        const response = await provider.complete({
+            messages,
+            temperature: persona.temperature ?? 0.7,
+            json: true,
+            signal,
+        });
+        recordUsage(run, response.usage);
+        const content = response.content || "";
+
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(content);
+        } catch {
+            parsed = undefined;
+        }
+
+        const result = parsed === undefined
+            ? { errors: ["The response was not valid JSON."] }
+            : validateVerdict(parsed, rubric);
+        if (result.verdict) {
+            return { judge: { id: persona.id, name: persona.name, icon: persona.icon }, ...result.verdict };
+        }
+
+        errors = result.errors;
+        (run?.log ?? logger).warn(`${persona.name} attempt ${attempt + 1} invalid`, { errors });
+        messages.push(
+            { role: "assistant", content },
+            {
+                role: "user",
+                content: `Your response did not match the required format:\n${errors.map((e) => `- ${e}`).join("\n")}\n\nRespond again with the complete corrected JSON object only.`,
+            }
+        );
+    }
+
+    throw new JudgmentValidationError(`${persona.name} did not return a valid verdict`, errors);
+}
+
+// Let a chair model merge the judges' summaries and tips. Falls back to the
+// most representative judge if the chair's answer can't be used.
+async function synthesizeConsensus(
+    verdicts: JudgeVerdict[],
+    consensus: PanelConsensus,
+    { provider = getJudgeProvider(), feedbackLanguage = DEFAULT_FEEDBACK_LANGUAGE, run, signal }: JudgeInput
+): Promise<{ summary: string; tips: string[] }> {
+    const representative = verdicts.reduce((best, v) =>
+        Math.abs(v.score - consensus.score) < Math.abs(best.score - consensus.score) ? v : best
+    );
+    const fallback = { summary: representative.summary, tips: representative.tips };
+    if (verdicts.length === 1) return fallback;
+
+    try {
+        const response = await provider.complete({
+            messages: [
+                { role: "system", content: `${CHAIR_PROMPT}\n\nWrite the summary and tips in ${languageName(feedbackLanguage)}.` },
+                { role: "user", content: JSON.stringify({ consensus, verdicts }) },
+            ],
+            temperature: 0.3,
+            json: true,
+            signal,
+        });
+        recordUsage(run, response.usage);
+        const parsed = JSON.parse(response.content || "{}");
+        if (typeof parsed.summary !== "string" || !Array.isArray(parsed.tips)) return fallback;
+        return { summary: parsed.summary, tips: parsed.tips.map(String) };
+    } catch (err) {
+        // A cancelled job has no use for the fallback
+        signal?.throwIfAborted();
+        (run?.log ?? logger).error("Consensus synthesis failed", { error: err });
+        return fallback;
+    }
+}
+
+// Reads one section of a long transcript for the first pass
+const SECTION_READER: JudgePersona = {
+    id: "section-reader",
+    name: "Section Reader",
+    icon: "📑",
+    perspective: "",
+    temperature: 0.3,
+};
+
+// Map step for long transcripts: judge each section on its own, so the panel
+// can work from short notes instead of the whole transcript
+async function judgeSections(input: JudgeInput): Promise<SectionVerdict[]> {
+    const sections = splitSections(input.transcript, input.segments);
+    (input.run?.log ?? logger).info(`Long transcript: judging ${sections.length} sections first`);
+
+    return mapWithConcurrency(sections, SECTION_CONCURRENCY, async (section, i, stop) => {
+        const verdict = await judgeAsPersona(
+            { ...input, transcript: section.text, segments: section.segments, metrics: null, video: null, signal: eitherSignal(input.signal, stop) },
+            {
+                ...SECTION_READER,
+                perspective: `You are reading section ${i + 1} of ${sections.length} of a longer recording. Judge this section on its own merits.`,
+            }
+        );
+        const criteria: Record<string, number> = {};
+        for (const [key, c] of Object.entries(verdict.criteria)) criteria[key] = c.score;
+        return { start: section.start, end: section.end, score: verdict.score, summary: verdict.summary, criteria };
+    });
+}
+
+// Run every persona on the panel in parallel and merge their verdicts
+// Judges that still fail validation after repairs are left out of the
+// consensus; if none succeed the whole judgment fails.
+export async function judgeContent(
+    input: JudgeInput
+): Promise<{ feedback: StructuredFeedback; score: number }> {
+    const rubric = input.rubric ?? DEFAULT_RUBRIC;
+    const panel = getPanel();
+    // Reduce step for long transcripts: the panel judges the section notes
+    const sections = isLongTranscript(input.transcript) ? await judgeSections(input) : undefined;
+    const results = await Promise.allSettled(panel.map((persona) => judgeAsPersona(input, persona, sections)));
+
+    const verdicts: JudgeVerdict[] = [];
+    const excludedJudges: StructuredFeedback["excludedJudges"] = [];
+    results.forEach((result, i) => {
+        if (result.status === "fulfilled") {
+            verdicts.push(result.value);
+        } else if (result.reason instanceof JudgmentValidationError) {
+            const { id, name, icon } = panel[i];
+            excludedJudges.push({ judge: { id, name, icon }, errors: result.reason.errors });
+        } else {
+            throw result.reason;
+        }
+    });
+
+    if (verdicts.length === 0) {
+        throw new JudgmentValidationError(
+            "The judges did not return a valid verdict",
+            excludedJudges.flatMap((e) => e.errors.map((err) => `${e.judge.name}: ${err}`))
+        );
+    }
+
+    const consensus = aggregateVerdicts(verdicts, rubric.criteria);
+    const { summary, tips } = await synthesizeConsensus(verdicts, consensus, input);
+
+    const criteria: StructuredFeedback["criteria"] = {};
+    for (const [key, stats] of Object.entries(consensus.criteria)) {
+        criteria[key] = { score: stats.mean, comment: stats.comment };
+    }
+
+    // Keep a snapshot of the rubric with the feedback so the report renders
+    // even if the rubric is edited later.
+    const feedback: StructuredFeedback = {
+        score: consensus.score,
+        summary,
+        criteria,
+        tips,
+        judges: verdicts,
+        consensus,
+        ...(sections ? { sections } : {}),
+        ...(excludedJudges.length > 0 ? { excludedJudges } : {}),
+        rubric,
+    };
+    return {
+        feedback,
+        score: consensus.score,
+    };
+}
+
+const COMPARE_PROMPT = `You coach a content creator who recorded two takes of a video. You receive both transcripts, their judged scores and the change in each criterion, and explain what changed between take A and take B.
+
+You MUST respond in this exact JSON format:
+{
+  "summary": "<2-3 sentences on what changed and why the scores moved>",
+  "better": "<a, b or tie>",
+  "improvements": ["<something take B does better than take A>"],
+  "regressions": ["<something take B does worse than take A>"]
+}
+
+Point to concrete differences in wording, structure and delivery. Leave a list empty if nothing fits.`;
+
+function takeForComparison(judgment: Judgment) {
+    const feedback = parseFeedback(judgment.feedback);
+    return {
+        filename: judgment.video_filename,
+        score: judgment.score,
+        summary: feedback?.summary ?? null,
+        transcript: judgment.transcript,
+    };
+}
+
+// Ask the judge model what changed between two takes. Missing fields fall
+// back to what the scores alone say. The call's time and tokens go to `run`,
+// and aborting `signal` cancels it.
+export async function analyzeChanges(
+    a: Judgment,
+    b: Judgment,
+    { provider = getJudgeProvider(), run, signal }: { provider?: JudgeProvider; run?: Run; signal?: AbortSignal } = {}
+): Promise<ChangeAnalysis> {
+    const scoreDelta = a.score !== null && b.score !== null ? b.score - a.score : 0;
+    const fallbackBetter = scoreDelta > 0 ? "b" : scoreDelta < 0 ? "a" : "tie";
+
+    const response = await timeStage(run, "llm", () => provider.complete({
+        messages: [
+            { role: "system", content: `${COMPARE_PROMPT}\n\nWrite the summary and lists in ${languageName(b.feedback_language ?? DEFAULT_FEEDBACK_LANGUAGE)}.` },
+            {
+                role: "user",
+                content: JSON.stringify({
+                    a: takeForComparison(a),
+                    b: takeForComparison(b),
+                    criteria: criterionDeltas(parseFeedback(a.feedback), parseFeedback(b.feedback)),
+                }),
+            },
+        ],
+        temperature: 0.3,
+        json: true,
+        signal,
+    }));
+    recordUsage(run, response.usage);
+
+    const parsed = JSON.parse(response.content || "{}");
+    if (typeof parsed.summary !== "string") {
+        throw new Error("The comparison did not include a summary");
+    }
+    const list = (value: unknown) => Array.isArray(value) ? value.map(String) : [];
+    return {
+        summary: parsed.summary,
+        better: parsed.better === "a" || parsed.better === "b" || parsed.better === "tie" ? parsed.better : fallbackBetter,
+        improvements: list(parsed.improvements),
+        regressions: list(parsed.regressions),
+    };
+}
+
+// Save a judgment with its per-criterion scores and tips broken out into their
+// own tables, so they can be queried without unpacking the feedback JSON.
+// Throws when the judgment itself can't be saved; the broken-out rows are
+// only copies, so failing to save those is just logged.
+export async function saveJudgment(db: SupabaseClient, judgment: Judgment): Promise<void> {
+    const { error: dbError } = await db.from("judgments").insert(judgment);
+    if (dbError) {
+        logger.error("Failed to save judgment", { judgmentId: judgment.id, error: dbError.message });
+        // Two re-judges of the same recording finishing together claim the same version
+        if (dbError.code === "23505" && judgment.version !== undefined) {
+            throw new Error("Another version of this recording was saved at the same time. Try again.");
+        }
+        throw new Error(`Failed to save the judgment: ${dbError.message}`);
+    }
+
+    const feedback = parseFeedback(judgment.feedback);
+    if (!feedback) return;
+
+    const scores = feedback.rubric.criteria
+        .filter((c) => feedback.criteria[c.key])
+        .map((c) => ({
+            judgment_id: judgment.id,
+            criterion: c.key,
+            name: c.name,
+            score: feedback.criteria[c.key].score,
+            min_score: c.min,
+            max_score: c.max,
+            weight: c.weight,
+            comment: feedback.criteria[c.key].comment,
+        }));
+    const tips = feedback.tips.map((tip, position) => ({ judgment_id: judgment.id, position, tip }));
+
+    const [scoresResult, tipsResult] = await Promise.all([
+        scores.length > 0 ? db.from("judgment_scores").insert(scores) : null,
+        tips.length > 0 ? db.from("judgment_tips").insert(tips) : null,
+    ]);
+    if (scoresResult?.error) logger.error("Failed to save scores", { judgmentId: judgment.id, error: scoresResult.error.message });
+    if (tipsResult?.error) logger.error("Failed to save tips", { judgmentId: judgment.id, error: tipsResult.error.message });
+}
+
+// Everything about a judgment except the verdict and the run metadata
+type JudgmentBase = Omit<Judgment, "status" | "feedback" | "score" | "error" | "model" | "prompt_version" | "panel" | "duration_ms">;
+
+// Judge a transcript and save the result. A verdict that never passes
+// validation is saved as a failed judgment, keeping the transcript and
+// analysis but no made-up score, and the validation error is rethrown.
+async function judgeAndSave(db: SupabaseClient, base: JudgmentBase, input: JudgeInput, run: Run): Promise<Judgment> {
+    const provider = input.provider ?? getJudgeProvider();
+    const meta = { model: modelId(provider), prompt_version: PROMPT_VERSION, panel: panelKey() };
+
+    setJobStage(base.id, "judging");
+    run.log.info(`Sending to ${provider.name} (${provider.model}) panel`);
+    let judged: { feedback: StructuredFeedback; score: number };
+    try {
+        judged = await timeStage(run, "llm", () => judgeContent({ ...input, provider, run }));
+    } catch (err) {
+        if (!(err instanceof JudgmentValidationError)) throw err;
+        input.signal?.throwIfAborted();
+        setJobStage(base.id, "persisting");
+        await timeStage(run, "db", () => saveJudgment(db, {
+            ...base,
+            ...meta,
+            status: "failed",
+            error: `${err.message}: ${err.errors.join(" ")}`,
+            feedback: null,
+            score: null,
+            duration_ms: Date.now() - run.startedAt,
+        }));
+        throw err;
+    }
+
+    // Nothing is saved for a job cancelled while the judges were deliberating
+    input.signal?.throwIfAborted();
+    setJobStage(base.id, "persisting");
+    const judgment: Judgment = { ...base, ...meta, status: "completed", error: null, ...judged, duration_ms: Date.now() - run.startedAt };
+    await timeStage(run, "db", () => saveJudgment(db, judgment));
+    return judgment;
+}
+
+// Where a recording comes from: a finished upload, or a URL to download first
+export type MediaSource =
+    | { kind: "upload"; path: string; filename: string; contentType: string; mediaHash: string }
+    | { kind: "url"; url: string };
+
+// The user's earlier judgment of the same content with the same rubric,
+// platform, judge model, panel and languages, which a new job would only repeat
+export async function findEarlierJudgment(
+    db: SupabaseClient,
+    { userId, mediaHash, rubric, platform, language, feedbackLanguage }: {
+        userId: string;
+        mediaHash: string;
+        rubric: Rubric;
+        platform: TargetPlatform | null;
+        language: string | null;
+        feedbackLanguage: string;
+    }
+): Promise<Judgment | null> {
+    return findDuplicateJudgment(db, {
+        userId,
+        mediaHash,
+        rubricId: rubric.id === DEFAULT_RUBRIC_ID ? null : rubric.id,
+        platform,
+        model: modelId(getJudgeProvider()),
+        panel: panelKey(),
+        promptVersion: PROMPT_VERSION,
+        language,
+        feedbackLanguage,
+    });
+}
+
+export interface PipelineInput {
+    id: string;
+    // The pipeline deletes the uploaded or downloaded file when done
+    source: MediaSource;
+    rubric: Rubric;
+    platform: TargetPlatform | null;
+    // Spoken language chosen on upload; null to detect it
+    language: string | null;
+    feedbackLanguage: string;
+    // The service client. A job can outlive the uploader's access token, so it
+    // doesn't run as them; every row it reads or writes is scoped by userId.
+    db: SupabaseClient;
+    userId: string;
+    // Telemetry for the job, saved to judgment_runs when it ends
+    run: Run;
+}
+
+// Run the whole pipeline for an enqueued job, reporting each stage to the job
+// registry. Never throws: failures are recorded on the job instead. When the
+// job is cancelled, ffmpeg is killed and model calls aborted, and nothing is
+// saved.
+export async function runJudgePipeline({
+    id, source, rubric, platform, language: chosenLanguage, feedbackLanguage, db, userId, run,
+}: PipelineInput): Promise<void> {
+    const signal = jobSignal(id);
+    const audioPath = join(tmpdir(), `${id}.wav`);
+    const mediaPath = source.kind === "upload" ? source.path : join(tmpdir(), `${id}.download`);
+    const { log } = run;
+    let storagePath: string | null = null;
+    let outcome: Pick<RunOutcome, "status" | "judgmentId" | "error"> = { status: "failed" };
+    let audioOnly = false;
+
+    try {
+        // 0. Fetch the recording when it was given as a URL
+        let filename: string;
+        let contentType: string;
+        let mediaHash: string;
+        if (source.kind === "url") {
+            setJobStage(id, "downloading");
+            ({ filename, type: contentType, mediaHash } = await timeStage(run, "download", async () => {
+                const downloaded = await downloadMedia(source.url, mediaPath, { cancel: signal, log });
+                return { ...downloaded, mediaHash: await hashFile(mediaPath) };
+            }));
+
+            // Uploads are checked for this before they're enqueued
+            const earlier = await findEarlierJudgment(db, { userId, mediaHash, rubric, platform, language: chosenLanguage, feedbackLanguage });
+            if (earlier) {
+                log.info(`Repeats judgment ${earlier.id}; reusing it`);
+                completeJob(id, earlier);
+                outcome = { status: "completed", judgmentId: earlier.id };
+                return;
+            }
+        } else {
+            ({ filename, contentType, mediaHash } = source);
+        }
+        audioOnly = isAudioType(contentType);
+
+        // 1. Extract audio with ffmpeg
+        setJobStage(id, "extracting");
+        await timeStage(run, "ffmpeg", () => extractAudio(mediaPath, audioPath, { signal, log }));
+
+        // 2. Transcribe, in chunks for long recordings, unless this recording
+        // or its audio was transcribed before
+        setJobStage(id, "transcribing");
+        const { audio, transcribed } = await timeStage(run, "transcription", async () => {
+            const audio = await readWav(audioPath);
+            const seconds = audio.sampleCount / audio.sampleRate;
+            run.audioSeconds = Math.round(seconds * 10) / 10;
+
+            const transcriber = getTranscriptionProvider();
+            const cacheKey = { mediaHash, audioHash: await hashFile(audioPath), model: modelId(transcriber), language: chosenLanguage };
+            let transcribed = await findCachedTranscript(db, userId, cacheKey).catch((err) => {
+                log.error("Transcript cache lookup failed", { error: err });
+                return null;
+            });
+            if (transcribed) {
+                log.info("Reusing cached transcript");
+            } else {
+                // Only audio that is actually transcribed counts against the minute quotas
+                await chargeAudioMinutes(getRateLimitStore(), userId, seconds / 60);
+                log.info(`Transcribing with ${transcriber.name}`);
+                transcribed = await transcribeAudio(audioPath, audio, { language: chosenLanguage ?? undefined, log, signal });
+                run.transcribedSeconds = run.audioSeconds;
+                await cacheTranscript(db, userId, cacheKey, transcribed).catch((err) => {
+                    log.error("Caching the transcript failed", { error: err });
+                });
+            }
+            if (transcribed.text.trim().length === 0) {
+                throw new Error(`No speech detected in ${audioOnly ? "the recording" : "video"}.`);
+            }
+            return { audio, transcribed };
+        });
+        const { text, segments, words } = transcribed;
+        const language = chosenLanguage ?? transcribed.language ?? null;
+        const transcript = text.trim();
+        log.info(`Transcript received (${language ?? "language unknown"}): "${transcript.substring(0, 100)}..."`);
+
+        // 3. Measure delivery from the audio and visual pacing from the video,
+        // while the recording is copied to storage for playback
+        setJobStage(id, "analyzing");
+        const [metrics, video, stored] = await timeStage(run, "analysis", () => Promise.all([
+            computeDeliveryMetrics(audio, transcript, words, language),
+            // Visual signals are a bonus; a failed analysis shouldn't fail the judgment
+            audioOnly ? null : analyzeVideo(mediaPath, platform, { signal, log }).catch((err) => {
+                log.error("Video analysis failed", { error: err });
+                return null;
+            }),
+            // Playback is a bonus too; without it the report just has no player
+            isMediaStorageEnabled()
+                ? storeMedia(db, { userId, judgmentId: id, filePath: mediaPath, filename, contentType, log }).catch((err) => {
+                    log.error("Storing the recording failed", { error: err });
+                    return null;
+                })
+                : null,
+        ]));
+        storagePath = stored;
+        signal.throwIfAborted();
+        log.info(`Delivery metrics: ${metrics.wordsPerMinute} wpm, ${metrics.fillerCount} fillers, ${metrics.longPauses.length} long pauses`);
+        if (video) log.info(`Video: ${video.width}x${video.height}, ${video.cuts.length} cuts, ${video.warnings.length} warnings`);
+
+        const base: JudgmentBase = {
+            id,
+            user_id: userId,
+            video_filename: filename,
+            input_kind: source.kind === "url" ? "url" : audioOnly ? "audio" : "video",
+            source_url: source.kind === "url" ? source.url : null,
+            media_hash: mediaHash,
+            transcript,
+            segments,
+            words,
+            metrics,
+            video_analysis: video,
+            rubric_id: rubric.id === DEFAULT_RUBRIC_ID ? null : rubric.id,
+            platform,
+            language,
+            requested_language: chosenLanguage,
+            feedback_language: feedbackLanguage,
+            storage_path: storagePath,
+            created_at: new Date().toISOString(),
+        };
+
+        // 4. Judge, 5. Save
+        const judgment = await judgeAndSave(db, base, { transcript, segments, metrics, video, rubric, language, feedbackLanguage, signal }, run);
+
+        completeJob(id, judgment);
+        outcome = { status: "completed", judgmentId: judgment.id };
+        log.info("Job completed");
+
+    } catch (error: unknown) {
+        const errMsg = error instanceof Error ? error.message : String(error);
+        if (signal.aborted) {
+            log.info("Job cancelled");
+            outcome = { status: "cancelled" };
+        } else {
+            log.error("Job failed", { error: errMsg });
+            outcome = { status: "failed", error: errMsg, ...(error instanceof JudgmentValidationError ? { judgmentId: id } : {}) };
+        }
+
+        // A failed verdict is still saved, under the job's id, and keeps its
+        // recording; anything else leaves no judgment to play it from
+        if (storagePath && !(error instanceof JudgmentValidationError)) {
+            await deleteMedia(db, [storagePath]).catch(() => { });
+        }
+
+        // A cancelled job is already marked, and keeps its stage
+        if (error instanceof JudgmentValidationError) {
+            failJob(id, `${errMsg}. The transcript was saved; try again or pick a different model.`);
+        } else if (error instanceof RateLimitError) {
+            failJob(id, errMsg);
+        } else if (error instanceof DownloadError) {
+            failJob(id, `Failed to download the recording: ${errMsg}`);
+        } else if (errMsg.includes("No audio track found") || errMsg.includes("No speech detected")) {
+            failJob(id, errMsg);
+        } else {
+            failJob(id, `Failed to process video: ${errMsg}`);
+        }
+    } finally {
+        await unlink(mediaPath).catch(() => { });
+        await unlink(audioPath).catch(() => { });
+        await saveRun(db, run, {
+            userId,
+            kind: source.kind === "url" ? "url" : audioOnly ? "audio" : "video",
+            ...outcome,
+            judgeModel: run.llmCalls > 0 ? modelId(getJudgeProvider()) : null,
+            transcriptionModel: run.transcribedSeconds > 0 ? modelId(getTranscriptionProvider()) : null,
+        });
+    }
+}
+
+export interface TextPipelineInput {
+    id: string;
+    title: string;
+    // A pasted script, or SRT/WebVTT subtitles to keep their timings
+    text: string;
+    mediaHash: string;
+    rubric: Rubric;
+    language: string | null;
+    feedbackLanguage: string;
+    db: SupabaseClient;
+    userId: string;
+    run: Run;
+}
+
+// Judge a pasted script or transcript. There is no recording, so extraction,
+// transcription and the audio and video analysis are skipped. Like
+// runJudgePipeline it never throws.
+export async function runTextPipeline({ id, title, text, mediaHash, rubric, language, feedbackLanguage, db, userId, run }: TextPipelineInput): Promise<void> {
+    const signal = jobSignal(id);
+    const { log } = run;
+    let outcome: Pick<RunOutcome, "status" | "judgmentId" | "error"> = { status: "failed" };
+
+    try {
+        const segments = parseSubtitles(text) ?? [];
+        const transcript = segments.length > 0 ? segments.map((s) => s.text).join(" ") : text.trim();
+        log.info(`Text received: ${transcript.length} characters${segments.length > 0 ? `, ${segments.length} timed cues` : ""}`);
+
+        const base: JudgmentBase = {
+            id,
+            user_id: userId,
+            video_filename: title,
+            input_kind: "text",
+            source_url: null,
+            media_hash: mediaHash,
+            transcript,
+            segments,
+            words: [],
+            metrics: null,
+            video_analysis: null,
+            rubric_id: rubric.id === DEFAULT_RUBRIC_ID ? null : rubric.id,
+            platform: null,
+            language,
+            requested_language: language,
+            feedback_language: feedbackLanguage,
+            storage_path: null,
+            created_at: new Date().toISOString(),
+        };
+
+        const judgment = await judgeAndSave(db, base, { transcript, segments, rubric, language, feedbackLanguage, signal }, run);
+
+        completeJob(id, judgment);
+        outcome = { status: "completed", judgmentId: judgment.id };
+        log.info("Text job completed");
+
+    } catch (error: unknown) {
+        const errMsg = error instanceof Error ? error.message : String(error);
+        if (signal.aborted) {
+            log.info("Text job cancelled");
+            outcome = { status: "cancelled" };
+        } else {
+            log.error("Text job failed", { error: errMsg });
+            outcome = { status: "failed", error: errMsg, ...(error instanceof JudgmentValidationError ? { judgmentId: id } : {}) };
+        }
+
+        if (error instanceof JudgmentValidationError) {
+            failJob(id, `${errMsg}. The text was saved; try again or pick a different model.`);
+        } else {
+            failJob(id, `Failed to judge the text: ${errMsg}`);
+        }
+    } finally {
+        await saveRun(db, run, {
+            userId,
+            kind: "text",
+            ...outcome,
+            judgeModel: run.llmCalls > 0 ? modelId(getJudgeProvider()) : null,
+            transcriptionModel: null,
+        });
+    }
+}
+
+export interface RejudgeInput {
+    // Id of the new judgment, which is also the job id
+    id: string;
+    // The stored judgment whose transcript and analysis are judged again
+    source: Judgment;
+    version: number;
+    rubric: Rubric;
+    feedbackLanguage: string;
+    provider: JudgeProvider;
+    // The service client, as for runJudgePipeline, and the user asking for
+    // it, who owns the new version
+    db: SupabaseClient;
+    userId: string;
+    run: Run;
+}
+
+// Judge a stored transcript again, e.g. with another model or rubric, and save
+// the result as a new version of the same recording. Like runJudgePipeline it
+// never throws; failures are recorded on the job.
+export async function runRejudgePipeline({ id, source, version, rubric, feedbackLanguage, provider, db, userId, run }: RejudgeInput): Promise<void> {
+    const signal = jobSignal(id);
+    const { log } = run;
+    let outcome: Pick<RunOutcome, "status" | "judgmentId" | "error"> = { status: "failed" };
+
+    try {
+        const base: JudgmentBase = {
+            id,
+            user_id: userId,
+            video_filename: source.video_filename,
+            input_kind: source.input_kind ?? "video",
+            source_url: source.source_url ?? null,
+            media_hash: source.media_hash ?? null,
+            transcript: source.transcript,
+            segments: source.segments,
+            words: source.words,
+            metrics: source.metrics,
+            video_analysis: source.video_analysis,
+            rubric_id: rubric.id === DEFAULT_RUBRIC_ID ? null : rubric.id,
+            platform: source.platform ?? null,
+            language: source.language ?? null,
+            requested_language: source.requested_language ?? null,
+            feedback_language: feedbackLanguage,
+            storage_path: source.storage_path ?? null,
+            source_id: source.source_id ?? source.id,
+            version,
+            created_at: new Date().toISOString(),
+        };
+
+        const judgment = await judgeAndSave(db, base, {
+            transcript: source.transcript,
+            segments: source.segments,
+            metrics: source.metrics,
+            video: source.video_analysis,
+            rubric,
+            language: source.language,
+            feedbackLanguage,
+            provider,
+            signal,
+        }, run);
+
+        completeJob(id, judgment);
+        outcome = { status: "completed", judgmentId: judgment.id };
+        log.info(`Re-judge job completed (version ${version} of ${base.source_id})`);
+
+    } catch (error: unknown) {
+        const errMsg = error instanceof Error ? error.message : String(error);
+        if (signal.aborted) {
+            log.info("Re-judge job cancelled");
+            outcome = { status: "cancelled" };
+        } else {
+            log.error("Re-judge job failed", { error: errMsg });
+            outcome = { status: "failed", error: errMsg, ...(error instanceof JudgmentValidationError ? { judgmentId: id } : {}) };
+        }
+
+        if (error instanceof JudgmentValidationError) {
+            failJob(id, `${errMsg}. Try again or pick a different model.`);
+        } else {
+            failJob(id, `Failed to re-judge: ${errMsg}`);
+        }
+    } finally {
+        await saveRun(db, run, { userId, kind: "rejudge", ...outcome, judgeModel: modelId(provider), transcriptionModel: null });
+    }
+}
@@ -0,0 +1,415 @@
+import { createReadStream } from "fs";
+import { readFile } from "fs/promises";
+import { basename } from "path";
+import Groq from "groq-sdk";
+import type { TranscriptSegment, TranscriptWord } from "@/lib/transcript";
+import { normalizeLanguage } from "@/lib/languages";
+import { weightedScore, type Rubric } from "@/lib/rubrics";
+
+// Speech-to-text and judging LLM providers.
+//
+// Both are selected through environment variables so an environment can swap
+// Groq for any OpenAI-compatible endpoint, a local whisper/ollama server, or a
+// deterministic fake without touching the route:
+//
+//   TRANSCRIPTION_PROVIDER = groq | openai | local | fake   (default: groq)
+//   TRANSCRIPTION_MODEL, TRANSCRIPTION_BASE_URL, TRANSCRIPTION_API_KEY
+//   JUDGE_PROVIDER         = groq | openai | local | fake   (default: groq)
+//   JUDGE_MODEL, JUDGE_BASE_URL, JUDGE_API_KEY
+//   JUDGE_MODELS           = extra models users may pick when re-judging (comma-separated)
+
+export type ProviderKind = "groq" | "openai" | "local" | "fake";
+
+export interface TranscriptionResult {
+    text: string;
+    segments: TranscriptSegment[];
+    words: TranscriptWord[];
+    // Spoken language as an ISO 639-1 code, when the model reports it
+    language?: string;
+}
+
+export interface TranscriptionOptions {
+    // Spoken language, if known; otherwise the model detects it
+    language?: string;
+    // Aborts the request
+    signal?: AbortSignal;
+}
+
+export interface TranscriptionProvider {
+    name: ProviderKind;
+    model: string;
+    transcribe(audioPath: string, options?: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+export interface ChatMessage {
+    role: "system" | "user" | "assistant";
+    content: string;
+}
+
+export interface CompletionRequest {
+    messages: ChatMessage[];
+    temperature?: number;
+    // Ask the model for a single JSON object
+    json?: boolean;
+    // Aborts the request
+    signal?: AbortSignal;
+}
+
+// Tokens a completion used, as reported by the provider
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface CompletionResult {
+    content: string;
+    // Missing when the provider doesn't report it
+    usage?: TokenUsage;
+}
+
+export interface JudgeProvider {
+    name: ProviderKind;
+    model: string;
+    complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+// How a provider's model is recorded, e.g. "groq/llama-3.3-70b-versatile"
+export function modelId(provider: { name: ProviderKind; model: string }): string {
+    return `${provider.name}/${provider.model}`;
+}
+
+const DEFAULT_MODELS: Record<ProviderKind, { transcription: string; judge: string }> = {
+    groq: { transcription: "whisper-large-v3-turbo", judge: "llama-3.3-70b-versatile" },
+    openai: { transcription: "whisper-1", judge: "gpt-4o-mini" },
+    local: { transcription: "whisper", judge: "llama3.1" },
+    fake: { transcription: "fake-whisper", judge: "fake-judge" },
+};
+
+const DEFAULT_BASE_URLS: Partial<Record<ProviderKind, { transcription: string; judge: string }>> = {
+    openai: { transcription: "https://api.openai.com/v1", judge: "https://api.openai.com/v1" },
+    // whisper.cpp server and ollama defaults
+    local: { transcription: "http://127.0.0.1:8080", judge: "http://127.0.0.1:11434" },
+};
+
+function parseKind(value: string | undefined, variable: string): ProviderKind {
+    const kind = (value || "groq").toLowerCase();
+    if (kind === "groq" || kind === "openai" || kind === "local" || kind === "fake") return kind;
+    throw new Error(`Unknown ${variable} "${value}". Expected groq, openai, local or fake.`);
+}
+
+function trimSlash(url: string): string {
+    return url.replace(/\/+$/, "");
+}
+
+// Whisper's verbose_json shape, shared by Groq, OpenAI and whisper.cpp
+interface VerboseTranscription {
+    text?: string;
+    segments?: { start: number; end: number; text: string }[];
+    words?: { word: string; start: number; end: number }[];
+    language?: string;
+}
+
+function fromVerbose(data: VerboseTranscription): TranscriptionResult {
+    return {
+        text: (data.text || "").trim(),
+        segments: (data.segments || []).map((s) => ({ start: s.start, end: s.end, text: s.text.trim() })),
+        words: (data.words || []).map((w) => ({ word: w.word.trim(), start: w.start, end: w.end })),
+        ...(data.language ? { language: normalizeLanguage(data.language) } : {}),
+    };
+}
+
+async function postJson<T>(url: string, body: unknown, apiKey?: string, signal?: AbortSignal): Promise<T> {
+    const res = await fetch(url, {
+        method: "POST",
+        signal,
+        headers: {
+            "Content-Type": "application/json",
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+        throw new Error(`${url} responded ${res.status}: ${(await res.text()).slice(0, 500)}`);
+    }
+    return res.json() as Promise<T>;
+}
+
+async function postAudio(url: string, form: FormData, apiKey?: string, signal?: AbortSignal): Promise<VerboseTranscription> {
+    const res = await fetch(url, {
+        method: "POST",
+        signal,
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        body: form,
+    });
+    if (!res.ok) {
+        throw new Error(`${url} responded ${res.status}: ${(await res.text()).slice(0, 500)}`);
+    }
+    return res.json() as Promise<VerboseTranscription>;
+}
+
+async function audioBlob(audioPath: string): Promise<Blob> {
+    return new Blob([new Uint8Array(await readFile(audioPath))], { type: "audio/wav" });
+}
+
+// ─── Groq ───
+
+let groqClient: Groq | null = null;
+
+// Created lazily so environments that never use Groq don't need GROQ_API_KEY
+function getGroq(): Groq {
+    if (!groqClient) groqClient = new Groq({ apiKey: process.env.GROQ_API_KEY });
+    return groqClient;
+}
+
+function groqTranscription(model: string): TranscriptionProvider {
+    return {
+        name: "groq",
+        model,
+        async transcribe(audioPath, { language, signal } = {}) {
+            const transcription = await getGroq().audio.transcriptions.create({
+                file: createReadStream(audioPath),
+                model,
+                ...(language ? { language } : {}),
+                response_format: "verbose_json",
+                timestamp_granularities: ["word", "segment"],
+            }, { signal });
+            // The SDK only types `text`; verbose_json adds segments and words
+            return fromVerbose(transcription as VerboseTranscription);
+        },
+    };
+}
+
+function groqJudge(model: string): JudgeProvider {
+    return {
+        name: "groq",
+        model,
+        async complete({ messages, temperature, json, signal }) {
+            const response = await getGroq().chat.completions.create({
+                model,
+                messages,
+                temperature,
+                ...(json ? { response_format: { type: "json_object" as const } } : {}),
+            }, { signal });
+            return {
+                content: response.choices[0]?.message?.content || "",
+                ...(response.usage ? { usage: { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens } } : {}),
+            };
+        },
+    };
+}
+
+// ─── OpenAI-compatible (OpenAI, vLLM, LM Studio, faster-whisper-server, ...) ───
+
+function openaiTranscription(model: string, baseUrl: string, apiKey?: string): TranscriptionProvider {
+    return {
+        name: "openai",
+        model,
+        async transcribe(audioPath, { language, signal } = {}) {
+            const form = new FormData();
+            form.append("file", await audioBlob(audioPath), basename(audioPath));
+            form.append("model", model);
+            if (language) form.append("language", language);
+            form.append("response_format", "verbose_json");
+            form.append("timestamp_granularities[]", "word");
+            form.append("timestamp_granularities[]", "segment");
+            return fromVerbose(await postAudio(`${baseUrl}/audio/transcriptions`, form, apiKey, signal));
+        },
+    };
+}
+
+function openaiJudge(model: string, baseUrl: string, apiKey?: string): JudgeProvider {
+    return {
+        name: "openai",
+        model,
+        async complete({ messages, temperature, json, signal }) {
+            const data = await postJson<{
+                choices?: { message?: { content?: string } }[];
+                usage?: { prompt_tokens?: number; completion_tokens?: number };
+            }>(
+                `${baseUrl}/chat/completions`,
+                {
+                    model,
+                    messages,
+                    temperature,
+                    ...(json ? { response_format: { type: "json_object" } } : {}),
+                },
+                apiKey,
+                signal
+            );
+            return {
+                content: data.choices?.[0]?.message?.content || "",
+                ...(data.usage ? { usage: { promptTokens: data.usage.prompt_tokens ?? 0, completionTokens: data.usage.completion_tokens ?? 0 } } : {}),
+            };
+        },
+    };
+}
+
+// ─── Local servers: whisper.cpp `/inference` and ollama `/api/chat` ───
+
+function localTranscription(model: string, baseUrl: string): TranscriptionProvider {
+    return {
+        name: "local",
+        model,
+        async transcribe(audioPath, { language, signal } = {}) {
+            const form = new FormData();
+            form.append("file", await audioBlob(audioPath), basename(audioPath));
+            // whisper.cpp detects the language with "auto"
+            form.append("language", language || "auto");
+            form.append("response_format", "verbose_json");
+            return fromVerbose(await postAudio(`${baseUrl}/inference`, form, undefined, signal));
+        },
+    };
+}
+
+function localJudge(model: string, baseUrl: string): JudgeProvider {
+    return {
+        name: "local",
+        model,
+        async complete({ messages, temperature, json, signal }) {
+            // ollama counts tokens as prompt_eval_count and eval_count
+            const data = await postJson<{ message?: { content?: string }; prompt_eval_count?: number; eval_count?: number }>(`${baseUrl}/api/chat`, {
+                model,
+                messages,
+                stream: false,
+                ...(json ? { format: "json" } : {}),
+                ...(temperature !== undefined ? { options: { temperature } } : {}),
+            }, undefined, signal);
+            return {
+                content: data.message?.content || "",
+                usage: { promptTokens: data.prompt_eval_count ?? 0, completionTokens: data.eval_count ?? 0 },
+            };
+        },
+    };
+}
+
+// ─── Fake: deterministic output for offline development ───
+
+// Small stable hash so the same input always produces the same fake scores
+function hashString(value: string): number {
+    let hash = 2166136261;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+}
+
+function fakeTranscription(model: string): TranscriptionProvider {
+    return {
+        name: "fake",
+        model,
+        async transcribe(audioPath, { language = "en", signal } = {}) {
+            signal?.throwIfAborted();
+            const sentences = [
+                `This is a fake transcript for ${basename(audioPath)}.`,
+                "Today I want to walk you through one simple idea,",
+                "show you why it matters,",
+                "and leave you with a clear next step.",
+            ];
+            // Four seconds per sentence, words spread evenly across it
+            const segments = sentences.map((text, i) => ({ start: i * 4, end: i * 4 + 4, text }));
+            const words = segments.flatMap((segment) => {
+                const parts = segment.text.split(" ");
+                const step = (segment.end - segment.start) / parts.length;
+                return parts.map((word, i) => ({ word, start: segment.start + i * step, end: segment.start + (i + 1) * step }));
+            });
+            return { text: sentences.join(" "), segments, words, language };
+        },
+    };
+}
+
+function fakeJudge(model: string): JudgeProvider {
+    return {
+        name: "fake",
+        model,
+        async complete({ messages, signal }) {
+            signal?.throwIfAborted();
+            const system = messages.find((m) => m.role === "system")?.content || "";
+            const user = messages.filter((m) => m.role === "user").map((m) => m.content).join("\n");
+            // The system prompt carries the persona, so each judge scores differently
+            const seed = hashString(`${system}\n${user}`);
+
+            // Mirror whatever criteria and score ranges the prompt's JSON template
+            // asks for, and the weights from its numbered criteria list
+            const template = Array.from(system.matchAll(/"(\w+)":\s*\{\s*"score":\s*<(\d+)-(\d+)>/g));
+            const weights = Array.from(system.matchAll(/^\d+\. .*\(weight ([\d.]+)\)/gm), (m) => Number(m[1]));
+            const rubric: Rubric = { id: "fake", name: "Fake", criteria: [] };
+            const criteria: Record<string, { score: number; comment: string }> = {};
+            template.forEach(([, key, min, max], i) => {
+                const low = Number(min);
+                const high = Number(max);
+                const score = low + Math.ceil((high - low) / 2) + ((seed >>> (i * 3)) % Math.max(1, Math.floor((high - low) / 2)));
+                rubric.criteria.push({ key, name: key, description: "", weight: weights[i] || 1, min: low, max: high });
+                criteria[key] = { score: Math.min(high, score), comment: `Fake ${key} feedback.` };
+            });
+
+            const content = JSON.stringify({
+                // Weighted the way validateVerdict checks it
+                score: template.length > 0 ? weightedScore(rubric, criteria) : 70,
+                summary: "Fake judgment generated offline.",
+                ...(template.length > 0 ? { criteria } : {}),
+                tips: ["Fake tip one.", "Fake tip two.", "Fake tip three."],
+            });
+            // About four characters to a token, so usage stats have something to show offline
+            const promptLength = messages.reduce((sum, m) => sum + m.content.length, 0);
+            return { content, usage: { promptTokens: Math.ceil(promptLength / 4), completionTokens: Math.ceil(content.length / 4) } };
+        },
+    };
+}
+
+// ─── Configuration ───
+
+let transcriptionProvider: TranscriptionProvider | null = null;
+// Judge providers by model; the configured JUDGE_MODEL is the default
+const judgeProviders = new Map<string, JudgeProvider>();
+
+export function getTranscriptionProvider(): TranscriptionProvider {
+    if (transcriptionProvider) return transcriptionProvider;
+
+    const kind = parseKind(process.env.TRANSCRIPTION_PROVIDER, "TRANSCRIPTION_PROVIDER");
+    const model = process.env.TRANSCRIPTION_MODEL || DEFAULT_MODELS[kind].transcription;
+    const baseUrl = trimSlash(process.env.TRANSCRIPTION_BASE_URL || DEFAULT_BASE_URLS[kind]?.transcription || "");
+    const apiKey = process.env.TRANSCRIPTION_API_KEY || process.env.OPENAI_API_KEY;
+
+    switch (kind) {
+        case "groq": transcriptionProvider = groqTranscription(model); break;
+        case "openai": transcriptionProvider = openaiTranscription(model, baseUrl, apiKey); break;
+        case "local": transcriptionProvider = localTranscription(model, baseUrl); break;
+        case "fake": transcriptionProvider = fakeTranscription(model); break;
+    }
+    return transcriptionProvider;
+}
+
+function defaultJudgeModel(kind: ProviderKind): string {
+    return process.env.JUDGE_MODEL || DEFAULT_MODELS[kind].judge;
+}
+
+// Models that can judge: the default first, then any listed in JUDGE_MODELS.
+// All of them run on the configured JUDGE_PROVIDER.
+export function listJudgeModels(): string[] {
+    const kind = parseKind(process.env.JUDGE_PROVIDER, "JUDGE_PROVIDER");
+    const extra = (process.env.JUDGE_MODELS || "").split(",").map((m) => m.trim()).filter(Boolean);
+    return Array.from(new Set([defaultJudgeModel(kind), ...extra]));
+}
+
+// The judge provider for a model, the default model when none is given.
+// Callers must check the model against listJudgeModels() first.
+export function getJudgeProvider(model?: string): JudgeProvider {
+    const kind = parseKind(process.env.JUDGE_PROVIDER, "JUDGE_PROVIDER");
+    const name = model || defaultJudgeModel(kind);
+    const cached = judgeProviders.get(name);
+    if (cached) return cached;
+
+    const baseUrl = trimSlash(process.env.JUDGE_BASE_URL || DEFAULT_BASE_URLS[kind]?.judge || "");
+    const apiKey = process.env.JUDGE_API_KEY || process.env.OPENAI_API_KEY;
+
+    let provider: JudgeProvider;
+    switch (kind) {
+        case "groq": provider = groqJudge(name); break;
+        case "openai": provider = openaiJudge(name, baseUrl, apiKey); break;
+        case "local": provider = localJudge(name, baseUrl); break;
+        case "fake": provider = fakeJudge(name); break;
+    }
+    judgeProviders.set(name, provider);
+    return provider;
+}
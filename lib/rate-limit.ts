@@ -0,0 +1,328 @@
+import { getServiceClient } from "@/lib/supabase";
+
+// Rate limits and usage quotas for judging. Every judging model call costs
+// money, so each user (and each client address, to catch throwaway accounts)
+// gets a number of requests per minute, and each user a daily and monthly
+// allowance of judgments and minutes of transcribed audio.
+//
+// Counters are fixed windows: a key per window, which expires when the window
+// ends. Where they live is pluggable (RATE_LIMIT_STORE): "memory" keeps them
+// in the server process, "postgres" in the rate_limits table so several
+// instances share them.
+
+export interface RateLimitStore {
+    // Add `amount` to the counter for `key`, which expires at `resetAt`, and
+    // resolve with the new total
+    increment(key: string, amount: number, resetAt: Date): Promise<number>;
+    // Add `amount` to every counter, or to none of them when any would go
+    // over its limit. Resolves with whether it was added.
+    incrementWithinLimits(amount: number, counters: LimitedCounter[]): Promise<boolean>;
+    // Current totals for `keys`; 0 for counters that don't exist or have expired
+    get(keys: string[]): Promise<number[]>;
+}
+
+export interface LimitedCounter {
+    key: string;
+    limit: number;
+    resetAt: Date;
+}
+
+// Limits from the environment; 0 turns a limit off
+function limitFromEnv(name: string, fallback: number): number | null {
+    const value = Number(process.env[name] ?? fallback);
+    return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+const USER_REQUESTS_PER_MINUTE = limitFromEnv("RATE_LIMIT_USER_PER_MINUTE", 5);
+const IP_REQUESTS_PER_MINUTE = limitFromEnv("RATE_LIMIT_IP_PER_MINUTE", 20);
+const QUOTAS = {
+    day: {
+        judgments: limitFromEnv("QUOTA_DAILY_JUDGMENTS", 50),
+        minutes: limitFromEnv("QUOTA_DAILY_MINUTES", 120),
+    },
+    month: {
+        judgments: limitFromEnv("QUOTA_MONTHLY_JUDGMENTS", 500),
+        minutes: limitFromEnv("QUOTA_MONTHLY_MINUTES", 1200),
+    },
+};
+
+export type QuotaPeriodName = keyof typeof QUOTAS;
+
+export class RateLimitError extends Error {
+    // retryAfter is in seconds, as sent in the Retry-After header
+    constructor(message: string, public retryAfter: number) {
+        super(message);
+        this.name = "RateLimitError";
+    }
+}
+
+// --- Stores ---
+
+interface Counter {
+    value: number;
+    resetAt: number;
+}
+
+// Counters in this process. Like the job registry this assumes a single
+// long-running Node instance; use the postgres store behind a load balancer.
+const globalForLimits = globalThis as unknown as { rateLimitCounters?: Map<string, Counter> };
+const counters: Map<string, Counter> = globalForLimits.rateLimitCounters ??= new Map();
+
+const memoryStore: RateLimitStore = {
+    async increment(key, amount, resetAt) {
+        const now = Date.now();
+        // Drop expired counters now and then so the map doesn't grow forever
+        if (counters.size > 1000) {
+            for (const [k, c] of counters) if (c.resetAt <= now) counters.delete(k);
+        }
+        const current = counters.get(key);
+        const counter = current && current.resetAt > now ? current : { value: 0, resetAt: resetAt.getTime() };
+        counter.value += amount;
+        counters.set(key, counter);
+        return counter.value;
+    },
+    async incrementWithinLimits(amount, limited) {
+        // Nothing else runs between the check and the update, so this is atomic
+        const now = Date.now();
+        const current = limited.map(({ key, resetAt }) => {
+            const counter = counters.get(key);
+            return counter && counter.resetAt > now ? counter : { value: 0, resetAt: resetAt.getTime() };
+        });
+        if (limited.some((c, i) => current[i].value + amount > c.limit)) return false;
+        limited.forEach((c, i) => counters.set(c.key, { value: current[i].value + amount, resetAt: current[i].resetAt }));
+        return true;
+    },
+    async get(keys) {
+        const now = Date.now();
+        return keys.map((key) => {
+            const counter = counters.get(key);
+            return counter && counter.resetAt > now ? counter.value : 0;
+        });
+    },
+};
+
+// Counters in the rate_limits table, through functions that update them
+// atomically (see migrations 0016 and 0019). Only the service role may call
+// them, so users can't reset or inflate counters through the API.
+function postgresStore(): RateLimitStore {
+    const db = getServiceClient();
+    return {
+        async increment(key, amount, resetAt) {
+            const { data, error } = await db.rpc("increment_rate_limit", {
+                p_key: key,
+                p_amount: amount,
+                p_reset_at: resetAt.toISOString(),
+            });
+            if (error) throw new Error(`Failed to update rate limit: ${error.message}`);
+            return Number(data);
+        },
+        async incrementWithinLimits(amount, limited) {
+            const { data, error } = await db.rpc("increment_rate_limits_within", {
+                p_keys: limited.map((c) => c.key),
+                p_amount: amount,
+                p_limits: limited.map((c) => c.limit),
+                p_reset_ats: limited.map((c) => c.resetAt.toISOString()),
+            });
+            if (error) throw new Error(`Failed to update rate limits: ${error.message}`);
+            return data === true;
+        },
+        async get(keys) {
+            const { data, error } = await db.rpc("get_rate_limits", { p_keys: keys });
+            if (error) throw new Error(`Failed to read rate limits: ${error.message}`);
+            const values = new Map((data as { key: string; value: number }[]).map((row) => [row.key, Number(row.value)]));
+            return keys.map((key) => values.get(key) ?? 0);
+        },
+    };
+}
+
+export function getRateLimitStore(): RateLimitStore {
+    const name = process.env.RATE_LIMIT_STORE || "memory";
+    switch (name) {
+        case "memory":
+            return memoryStore;
+        case "postgres":
+            return postgresStore();
+        default:
+            throw new Error(`Unknown RATE_LIMIT_STORE "${name}". Use memory or postgres.`);
+    }
+}
+
+// --- Windows ---
+
+// Start and end of the UTC minute, day or month containing `now`
+function windowOf(period: "minute" | QuotaPeriodName, now: Date): { start: Date; end: Date } {
+    const start = new Date(now);
+    if (period === "minute") {
+        start.setUTCSeconds(0, 0);
+        return { start, end: new Date(start.getTime() + 60_000) };
+    }
+    start.setUTCHours(0, 0, 0, 0);
+    if (period === "month") start.setUTCDate(1);
+    const end = new Date(start);
+    if (period === "day") end.setUTCDate(end.getUTCDate() + 1);
+    else end.setUTCMonth(end.getUTCMonth() + 1);
+    return { start, end };
+}
+
+function secondsUntil(date: Date, now: Date): number {
+    return Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+}
+
+// "user:<id>:judgments:day:2026-10-19", "ip:203.0.113.7:requests:minute:2026-10-19T12:34"
+function counterKey(subject: string, counter: string, period: "minute" | QuotaPeriodName, start: Date): string {
+    const stamp = start.toISOString();
+    const window = period === "minute" ? stamp.slice(0, 16) : period === "day" ? stamp.slice(0, 10) : stamp.slice(0, 7);
+    return `${subject}:${counter}:${period}:${window}`;
+}
+
+// Proxies in front of the server, each of which appends the address it got
+// the request from to X-Forwarded-For
+const TRUSTED_PROXIES = Math.max(1, Number(process.env.TRUSTED_PROXIES || 1));
+
+// The address a request came from. Clients can send X-Forwarded-For
+// themselves, so only the entries added by our own proxies count: the client
+// is the one the outermost trusted proxy saw.
+export function clientAddress(request: Request): string {
+    const forwarded = (request.headers.get("x-forwarded-for") ?? "").split(",").map((a) => a.trim()).filter(Boolean);
+    if (forwarded.length > 0) return forwarded[Math.max(0, forwarded.length - TRUSTED_PROXIES)];
+    return request.headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+// --- Request rate ---
+
+// Count a judging request against the per-user and per-address limits.
+// Throws RateLimitError once either is over its limit for the current minute.
+export async function checkRequestRate(store: RateLimitStore, userId: string, address: string): Promise<void> {
+    const now = new Date();
+    const { start, end } = windowOf("minute", now);
+    const limits = [
+        { subject: `user:${userId}`, limit: USER_REQUESTS_PER_MINUTE },
+        { subject: `ip:${address}`, limit: IP_REQUESTS_PER_MINUTE },
+    ].filter((l): l is { subject: string; limit: number } => l.limit !== null);
+
+    const totals = await Promise.all(limits.map((l) => store.increment(counterKey(l.subject, "requests", "minute", start), 1, end)));
+    if (totals.some((total, i) => total > limits[i].limit)) {
+        const retryAfter = secondsUntil(end, now);
+        throw new RateLimitError(`Too many requests. Try again in ${retryAfter} seconds.`, retryAfter);
+    }
+}
+
+// --- Quotas ---
+
+export interface QuotaUsage {
+    used: number;
+    // Null when there is no limit
+    limit: number | null;
+    remaining: number | null;
+}
+
+export interface QuotaPeriod {
+    judgments: QuotaUsage;
+    // Minutes of audio transcribed
+    minutes: QuotaUsage;
+    resetsAt: string;
+}
+
+export type Quota = Record<QuotaPeriodName, QuotaPeriod>;
+
+const PERIODS: QuotaPeriodName[] = ["day", "month"];
+
+function usage(used: number, limit: number | null): QuotaUsage {
+    return { used: Math.round(used * 10) / 10, limit, remaining: limit === null ? null : Math.max(0, Math.round((limit - used) * 10) / 10) };
+}
+
+// The user's usage this UTC day and month
+export async function getQuota(store: RateLimitStore, userId: string): Promise<Quota> {
+    const now = new Date();
+    const windows = PERIODS.map((period) => ({ period, ...windowOf(period, now) }));
+    const keys = windows.flatMap(({ period, start }) => [
+        counterKey(`user:${userId}`, "judgments", period, start),
+        counterKey(`user:${userId}`, "minutes", period, start),
+    ]);
+    const values = await store.get(keys);
+
+    const quota = {} as Quota;
+    windows.forEach(({ period, end }, i) => {
+        quota[period] = {
+            judgments: usage(values[i * 2], QUOTAS[period].judgments),
+            minutes: usage(values[i * 2 + 1], QUOTAS[period].minutes),
+            resetsAt: end.toISOString(),
+        };
+    });
+    return quota;
+}
+
+const PERIOD_LABELS: Record<QuotaPeriodName, string> = { day: "daily", month: "monthly" };
+
+function quotaUsedUp(period: QuotaPeriodName, what: string, resetsAt: Date, now: Date): RateLimitError {
+    return new RateLimitError(
+        `You have used your ${PERIOD_LABELS[period]} ${what}. The quota resets at ${resetsAt.toISOString().slice(0, 16).replace("T", " ")} UTC.`,
+        secondsUntil(resetsAt, now)
+    );
+}
+
+// Throws RateLimitError when the user has no judgments or audio minutes left.
+// Only a quick refusal, e.g. before an upload starts: judgments and minutes
+// are checked again as they're charged.
+export async function checkQuota(store: RateLimitStore, userId: string): Promise<void> {
+    const quota = await getQuota(store, userId);
+    const now = new Date();
+    // The month is checked last so its longer wait wins when both are used up
+    let exhausted: { period: QuotaPeriodName; what: string } | null = null;
+    for (const period of PERIODS) {
+        if (quota[period].judgments.remaining === 0) exhausted = { period, what: "judgments" };
+        else if (quota[period].minutes.remaining === 0) exhausted = { period, what: "minutes of audio" };
+    }
+    if (exhausted) throw quotaUsedUp(exhausted.period, exhausted.what, new Date(quota[exhausted.period].resetsAt), now);
+}
+
+// Add `amount` to the user's daily and monthly `counter`, or to neither when
+// either would go over its limit. The check and the charge are one step, so
+// parallel requests can't both squeeze in. Resolves with the period that had
+// too little left and the current quota, or null once charged. Usage is still
+// counted where there is no limit, for the quota endpoint.
+async function chargeQuota(
+    store: RateLimitStore,
+    userId: string,
+    counter: "judgments" | "minutes",
+    amount: number,
+    now: Date
+): Promise<{ period: QuotaPeriodName; quota: Quota } | null> {
+    const windows = PERIODS.map((period) => {
+        const { start, end } = windowOf(period, now);
+        return { period, key: counterKey(`user:${userId}`, counter, period, start), limit: QUOTAS[period][counter], resetAt: end };
+    });
+    const limited = windows.filter((w): w is typeof w & { limit: number } => w.limit !== null);
+
+    if (limited.length > 0 && !await store.incrementWithinLimits(amount, limited)) {
+        const quota = await getQuota(store, userId);
+        const period = limited.find((w) => (quota[w.period][counter].remaining ?? Infinity) < amount)?.period ?? limited[0].period;
+        return { period, quota };
+    }
+    await Promise.all(windows.filter((w) => w.limit === null).map((w) => store.increment(w.key, amount, w.resetAt)));
+    return null;
+}
+
+// Count an enqueued judgment against the daily and monthly quotas, or throw
+// RateLimitError without counting it when none are left
+export async function chargeJudgment(store: RateLimitStore, userId: string): Promise<void> {
+    const now = new Date();
+    const refused = await chargeQuota(store, userId, "judgments", 1, now);
+    if (refused) throw quotaUsedUp(refused.period, "judgments", new Date(refused.quota[refused.period].resetsAt), now);
+}
+
+// Count a recording's audio against the minute quotas, or throw
+// RateLimitError without counting it when it's longer than what's left
+export async function chargeAudioMinutes(store: RateLimitStore, userId: string, minutes: number): Promise<void> {
+    // Nothing to count for a recording too short to register
+    if (minutes <= 0) return;
+    const now = new Date();
+    const refused = await chargeQuota(store, userId, "minutes", minutes, now);
+    if (refused) {
+        const { period, quota } = refused;
+        throw new RateLimitError(
+            `The recording is ${Math.ceil(minutes)} minutes long, but only ${quota[period].minutes.remaining} minutes of audio are left in your ${PERIOD_LABELS[period]} quota.`,
+            secondsUntil(new Date(quota[period].resetsAt), now)
+        );
+    }
+}
@@ -0,0 +1,42 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { DEFAULT_RUBRIC, DEFAULT_RUBRIC_ID, isRubricId, type Rubric } from "@/lib/rubrics";
+
+// Supabase access for rubrics. The built-in default rubric is never stored;
+// stored rubrics belong to the user who created them.
+
+export async function listRubrics(db: SupabaseClient): Promise<Rubric[]> {
+    const { data, error } = await db
+        .from("rubrics")
+        .select("id, name, description, criteria")
+        .order("created_at", { ascending: true });
+
+    if (error) throw new Error(`Failed to fetch rubrics: ${error.message}`);
+    return [DEFAULT_RUBRIC, ...(data as Rubric[])];
+}
+
+// Resolve a rubric id from an upload. Empty or "default" means the built-in
+// rubric; an unknown or malformed id resolves to null.
+export async function loadRubric(db: SupabaseClient, id: string | null | undefined): Promise<Rubric | null> {
+    if (!id || id === DEFAULT_RUBRIC_ID) return DEFAULT_RUBRIC;
+    if (!isRubricId(id)) return null;
+
+    const { data, error } = await db
+        .from("rubrics")
+        .select("id, name, description, criteria")
+        .eq("id", id)
+        .maybeSingle();
+
+    if (error) throw new Error(`Failed to fetch rubric: ${error.message}`);
+    return (data as Rubric | null) ?? null;
+}
+
+export async function createRubric(db: SupabaseClient, userId: string, rubric: Omit<Rubric, "id">): Promise<Rubric> {
+    const { data, error } = await db
+        .from("rubrics")
+        .insert({ ...rubric, user_id: userId })
+        .select("id, name, description, criteria")
+        .single();
+
+    if (error) throw new Error(`Failed to save rubric: ${error.message}`);
+    return data as Rubric;
+}
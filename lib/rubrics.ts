@@ -0,0 +1,119 @@
+// Rubric definitions shared by the judging pipeline and the UI.
+//
+// A rubric names the criteria a judgment is scored on, with a description the
+// judges read, a weight for the overall score and the score range. Custom
+// rubrics are stored in the `rubrics` table; the built-in default keeps the
+// original five criteria and is used when an upload doesn't pick one.
+
+export interface RubricCriterion {
+    // Stable identifier used as the JSON key in judgments
+    key: string;
+    name: string;
+    description: string;
+    weight: number;
+    min: number;
+    max: number;
+}
+
+export interface Rubric {
+    id: string;
+    name: string;
+    description?: string | null;
+    criteria: RubricCriterion[];
+}
+
+export const DEFAULT_RUBRIC_ID = "default";
+
+const RUBRIC_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Whether `id` could be a stored rubric's id (a UUID)
+export function isRubricId(id: string): boolean {
+    return RUBRIC_ID_PATTERN.test(id);
+}
+
+export const DEFAULT_RUBRIC: Rubric = {
+    id: DEFAULT_RUBRIC_ID,
+    name: "General content",
+    description: "Clarity, engagement, structure, delivery and value.",
+    criteria: [
+        { key: "clarity", name: "Clarity", description: "Is the message clear and easy to follow?", weight: 1, min: 1, max: 10 },
+        { key: "engagement", name: "Engagement", description: "Is it interesting and attention-grabbing?", weight: 1, min: 1, max: 10 },
+        { key: "structure", name: "Structure", description: "Is it well-organized with a clear beginning, middle, and end?", weight: 1, min: 1, max: 10 },
+        { key: "delivery", name: "Delivery", description: "Does the speaker seem confident and natural?", weight: 1, min: 1, max: 10 },
+        { key: "value", name: "Value", description: "Does the content provide value to the audience?", weight: 1, min: 1, max: 10 },
+    ],
+};
+
+const MAX_CRITERIA = 12;
+
+// Turn a display name into a criterion key, e.g. "Call to action" -> "call_to_action"
+export function criterionKey(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 40);
+}
+
+// Validate a rubric submitted by a client. Returns the cleaned rubric (without
+// an id) or a list of human-readable errors.
+export function parseRubricInput(
+    input: unknown
+): { rubric: Omit<Rubric, "id">; errors?: undefined } | { rubric?: undefined; errors: string[] } {
+    const errors: string[] = [];
+    const body = (input ?? {}) as Record<string, unknown>;
+
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) errors.push("Rubric name is required.");
+
+    const rawCriteria = Array.isArray(body.criteria) ? body.criteria : [];
+    if (rawCriteria.length === 0) errors.push("A rubric needs at least one criterion.");
+    if (rawCriteria.length > MAX_CRITERIA) errors.push(`A rubric can have at most ${MAX_CRITERIA} criteria.`);
+
+    const criteria: RubricCriterion[] = [];
+    const seen = new Set<string>();
+    rawCriteria.forEach((raw, i) => {
+        const c = (raw ?? {}) as Record<string, unknown>;
+        const label = `Criterion ${i + 1}`;
+        const criterionName = typeof c.name === "string" ? c.name.trim() : "";
+        const key = typeof c.key === "string" && c.key ? criterionKey(c.key) : criterionKey(criterionName);
+        const weight = c.weight === undefined ? 1 : Number(c.weight);
+        const min = c.min === undefined ? 1 : Number(c.min);
+        const max = c.max === undefined ? 10 : Number(c.max);
+
+        if (!criterionName || !key) errors.push(`${label}: name is required.`);
+        if (seen.has(key)) errors.push(`${label}: duplicate criterion "${criterionName}".`);
+        if (!Number.isFinite(weight) || weight <= 0) errors.push(`${label}: weight must be a positive number.`);
+        if (!Number.isInteger(min) || !Number.isInteger(max) || min < 0 || max > 100 || min >= max) {
+            errors.push(`${label}: score range must be whole numbers with 0 <= min < max <= 100.`);
+        }
+        seen.add(key);
+        criteria.push({
+            key,
+            name: criterionName,
+            description: typeof c.description === "string" ? c.description.trim() : "",
+            weight,
+            min,
+            max,
+        });
+    });
+
+    if (errors.length > 0) return { errors };
+    return {
+        rubric: {
+            name,
+            description: typeof body.description === "string" ? body.description.trim() || null : null,
+            criteria,
+        },
+    };
+}
+
+// Weighted overall score on a 1-100 scale from per-criterion scores
+export function weightedScore(rubric: Rubric, scores: Record<string, { score: number }>): number {
+    let total = 0;
+    let weights = 0;
+    for (const c of rubric.criteria) {
+        const entry = scores[c.key];
+        if (!entry) continue;
+        total += ((entry.score - c.min) / (c.max - c.min)) * c.weight;
+        weights += c.weight;
+    }
+    if (weights === 0) return 0;
+    return Math.max(1, Math.round((total / weights) * 100));
+}
@@ -0,0 +1,108 @@
+import { RUN_STAGES, type RunStage } from "@/lib/telemetry";
+
+// Pipeline health over recent judgment_runs, for GET /api/admin/runs and the
+// admin page: throughput, where jobs fail, how long each stage takes and what
+// the runs cost. Latencies are in milliseconds.
+
+export interface Latency {
+    p50: number | null;
+    p95: number | null;
+}
+
+export interface StageStats extends Latency {
+    stage: RunStage;
+    // Runs that got to this stage
+    runs: number;
+    failures: number;
+    // Failures as a share of the runs that got here, 0-1
+    failureRate: number;
+}
+
+export interface DayStats {
+    // YYYY-MM-DD, UTC
+    date: string;
+    runs: number;
+    failed: number;
+    cancelled: number;
+}
+
+export interface RunSummary {
+    days: number;
+    runs: number;
+    completed: number;
+    failed: number;
+    // Cancelled runs are neither completed nor failures
+    cancelled: number;
+    failureRate: number;
+    // Failed runs that didn't fail inside a timed stage
+    otherFailures: number;
+    perDay: DayStats[];
+    total: Latency;
+    stages: StageStats[];
+    // Audio sent for transcription; cached transcripts don't count
+    transcribedMinutes: number;
+    promptTokens: number;
+    completionTokens: number;
+    estimatedCostUsd: number;
+    // Runs whose cost couldn't be estimated, left out of the total
+    unpricedRuns: number;
+}
+
+// What summarize_judgment_runs (supabase/migrations/0020_run_summary.sql)
+// returns. Counts and sums are aggregated in SQL so the summary covers every
+// run in the period, however many there are.
+export interface RunAggregate {
+    runs: number;
+    completed: number;
+    failed: number;
+    cancelled: number;
+    other_failures: number;
+    per_day: DayStats[];
+    total: Latency;
+    stages: { stage: string; runs: number; failures: number; p50: number | null; p95: number | null }[];
+    transcribed_seconds: number;
+    prompt_tokens: number;
+    completion_tokens: number;
+    estimated_cost_usd: number | string;
+    unpriced_runs: number;
+}
+
+function ratio(part: number, whole: number): number {
+    return whole > 0 ? Math.round((part / whole) * 1000) / 1000 : 0;
+}
+
+// Summarize runs from the last `days` days, ending today. Days without runs
+// are filled in and stages are put in pipeline order.
+export function summarizeRuns(aggregate: RunAggregate, days: number, now = new Date()): RunSummary {
+    const perDay = new Map<string, DayStats>();
+    for (let i = days - 1; i >= 0; i--) {
+        const date = new Date(now.getTime() - i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        perDay.set(date, { date, runs: 0, failed: 0, cancelled: 0 });
+    }
+    for (const day of aggregate.per_day) {
+        if (perDay.has(day.date)) perDay.set(day.date, day);
+    }
+
+    const stages = new Map(aggregate.stages.map((s) => [s.stage, s]));
+    return {
+        days,
+        runs: aggregate.runs,
+        completed: aggregate.completed,
+        failed: aggregate.failed,
+        cancelled: aggregate.cancelled,
+        failureRate: ratio(aggregate.failed, aggregate.runs),
+        otherFailures: aggregate.other_failures,
+        perDay: [...perDay.values()],
+        total: aggregate.total,
+        stages: RUN_STAGES.flatMap((stage) => {
+            const s = stages.get(stage);
+            if (!s) return [];
+            return [{ stage, runs: s.runs, failures: s.failures, failureRate: ratio(s.failures, s.runs), p50: s.p50, p95: s.p95 }];
+        }),
+        transcribedMinutes: Math.round(Number(aggregate.transcribed_seconds) / 6) / 10,
+        promptTokens: Number(aggregate.prompt_tokens),
+        completionTokens: Number(aggregate.completion_tokens),
+        estimatedCostUsd: Math.round(Number(aggregate.estimated_cost_usd) * 10000) / 10000,
+        unpricedRuns: aggregate.unpriced_runs,
+    };
+}
@@ -0,0 +1,174 @@
+// Progress statistics over a user's judgments, for GET /api/judge/stats and
+// the dashboard.
+//
+// Each recording counts once, using its latest completed version, so
+// re-judging a take doesn't add extra points to the trend. Criterion scores
+// are rescaled to 0-100 so criteria with different ranges can share a chart.
+
+export type TrendDirection = "improving" | "regressing" | "steady";
+
+export interface SessionScore {
+    // Judgment id of the version used for this recording
+    id: string;
+    filename: string;
+    createdAt: string;
+    score: number;
+    // Criterion key -> score on a 0-100 scale
+    criteria: Record<string, number>;
+}
+
+export interface SeriesPoint {
+    id: string;
+    createdAt: string;
+    value: number;
+    // Mean of this point and up to window - 1 points before it
+    rolling: number;
+}
+
+export interface Trend {
+    // Mean of the latest window minus the mean of the window before it
+    delta: number;
+    direction: TrendDirection;
+}
+
+export interface CriterionProgress {
+    key: string;
+    name: string;
+    points: SeriesPoint[];
+    average: number;
+    latest: number;
+    trend: Trend;
+}
+
+export interface ProgressStats {
+    window: number;
+    sessionCount: number;
+    overall: {
+        points: SeriesPoint[];
+        average: number;
+        trend: Trend;
+    };
+    criteria: CriterionProgress[];
+    best: SessionScore | null;
+    worst: SessionScore | null;
+}
+
+// A row from judgments with its embedded judgment_scores
+export interface ScoredJudgmentRow {
+    id: string;
+    source_id: string | null;
+    version: number | null;
+    video_filename: string;
+    score: number | null;
+    created_at: string;
+    judgment_scores: { criterion: string; name: string; score: number; min_score: number; max_score: number }[];
+}
+
+export const DEFAULT_TREND_WINDOW = 5;
+
+// Smallest change between windows, in points out of 100, that counts as a trend
+export const TREND_THRESHOLD = 5;
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+function mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+// Keep the latest scored version of each recording, oldest recording first
+export function toSessions(rows: ScoredJudgmentRow[]): { sessions: SessionScore[]; names: Record<string, string> } {
+    const latest = new Map<string, ScoredJudgmentRow>();
+    const recordedAt = new Map<string, string>();
+    for (const row of rows) {
+        const recording = row.source_id ?? row.id;
+        // The original's date is when the take was recorded; re-judges keep it
+        if (!row.source_id) recordedAt.set(recording, row.created_at);
+        if (row.score === null) continue;
+        const current = latest.get(recording);
+        if (!current || (row.version ?? 1) > (current.version ?? 1)) {
+            latest.set(recording, row);
+        }
+    }
+
+    const names: Record<string, string> = {};
+    const sessions = Array.from(latest.entries()).map(([recording, row]) => {
+        const criteria: Record<string, number> = {};
+        for (const s of row.judgment_scores) {
+            const range = Number(s.max_score) - Number(s.min_score);
+            if (range <= 0) continue;
+            criteria[s.criterion] = round(((Number(s.score) - Number(s.min_score)) / range) * 100);
+            names[s.criterion] ??= s.name;
+        }
+        return {
+            id: row.id,
+            filename: row.video_filename,
+            createdAt: recordedAt.get(recording) ?? row.created_at,
+            score: row.score as number,
+            criteria,
+        };
+    });
+
+    sessions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return { sessions, names };
+}
+
+function series(values: { id: string; createdAt: string; value: number }[], window: number): SeriesPoint[] {
+    return values.map((point, i) => ({
+        ...point,
+        rolling: round(mean(values.slice(Math.max(0, i - window + 1), i + 1).map((p) => p.value))),
+    }));
+}
+
+// Compare the latest window with the one before it. With fewer than two
+// points there is nothing to compare; short histories split what they have.
+export function trendOf(values: number[], window: number): Trend {
+    if (values.length < 2) return { delta: 0, direction: "steady" };
+    const size = Math.min(window, Math.floor(values.length / 2));
+    const recent = values.slice(-size);
+    const previous = values.slice(-2 * size, -size);
+    const delta = round(mean(recent) - mean(previous));
+    const direction = delta >= TREND_THRESHOLD ? "improving" : delta <= -TREND_THRESHOLD ? "regressing" : "steady";
+    return { delta, direction };
+}
+
+export function computeProgress(rows: ScoredJudgmentRow[], window = DEFAULT_TREND_WINDOW): ProgressStats {
+    const { sessions, names } = toSessions(rows);
+    const overallValues = sessions.map((s) => ({ id: s.id, createdAt: s.createdAt, value: s.score }));
+
+    // Criteria in the order they first appear
+    const keys: string[] = [];
+    for (const s of sessions) {
+        for (const key of Object.keys(s.criteria)) if (!keys.includes(key)) keys.push(key);
+    }
+
+    const criteria = keys.map((key): CriterionProgress => {
+        const values = sessions
+            .filter((s) => s.criteria[key] !== undefined)
+            .map((s) => ({ id: s.id, createdAt: s.createdAt, value: s.criteria[key] }));
+        const raw = values.map((v) => v.value);
+        return {
+            key,
+            name: names[key] ?? key,
+            points: series(values, window),
+            average: round(mean(raw)),
+            latest: raw[raw.length - 1],
+            trend: trendOf(raw, window),
+        };
+    });
+
+    const ranked = [...sessions].sort((a, b) => b.score - a.score);
+    return {
+        window,
+        sessionCount: sessions.length,
+        overall: {
+            points: series(overallValues, window),
+            average: round(mean(sessions.map((s) => s.score))),
+            trend: trendOf(sessions.map((s) => s.score), window),
+        },
+        criteria,
+        best: ranked[0] ?? null,
+        worst: ranked.length > 1 ? ranked[ranked.length - 1] : null,
+    };
+}
@@ -0,0 +1,27 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+// Browser-side Supabase client, used for signing in. API requests carry the
+// session's access token so the route handlers can act as the user.
+
+let client: SupabaseClient | null = null;
+
+// Created on first use so prerendering works without the public env vars
+export function getBrowserClient(): SupabaseClient {
+    if (!client) {
+        client = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+    }
+    return client;
+}
+
+export async function getAccessToken(): Promise<string | null> {
+    const { data } = await getBrowserClient().auth.getSession();
+    return data.session?.access_token ?? null;
+}
+
+// fetch() with the signed-in user's access token attached
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+    const token = await getAccessToken();
+    const headers = new Headers(init.headers);
+    if (token) headers.set("Authorization", `Bearer ${token}`);
+    return fetch(input, { ...init, headers });
+}
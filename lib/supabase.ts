@@ -1,6 +1,66 @@
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient, type User } from "@supabase/supabase-js";
 
 const supabaseUrl = process.env.SUPABASE_URL!;
 const supabaseAnonKey = process.env.SUPABASE_ANON_KEY!;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Queries run as the signed-in user, so row-level security decides what each
+// request can read and write. The service client is for what outlives the
+// request (background judging jobs, whose writes name the user explicitly)
+// and what users must not touch themselves, like rate limit counters.
+
+export interface AuthContext {
+    user: User;
+    db: SupabaseClient;
+}
+
+// A client that sends the user's access token with every query
+export function createUserClient(accessToken: string): SupabaseClient {
+    return createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: `Bearer ${accessToken}` } },
+        auth: { persistSession: false, autoRefreshToken: false },
+    });
+}
+
+// A client with no user, for reading shared reports
+export function createAnonClient(): SupabaseClient {
+    return createClient(supabaseUrl, supabaseAnonKey, {
+        auth: { persistSession: false, autoRefreshToken: false },
+    });
+}
+
+let serviceClient: SupabaseClient | null = null;
+
+// A client with the service role key, which bypasses row-level security.
+// Every query made with it must say whose rows it means.
+export function getServiceClient(): SupabaseClient {
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!serviceRoleKey) throw new Error("SUPABASE_SERVICE_ROLE_KEY is not set");
+    serviceClient ??= createClient(supabaseUrl, serviceRoleKey, {
+        auth: { persistSession: false, autoRefreshToken: false },
+    });
+    return serviceClient;
+}
+
+// The access token from the Authorization header. EventSource can't set
+// headers, so event streams may pass an access_token query parameter instead.
+// Nothing else accepts one, to keep tokens out of URLs, logs and history.
+function accessTokenFrom(request: Request, allowQueryToken: boolean): string | null {
+    const header = request.headers.get("authorization");
+    if (header?.toLowerCase().startsWith("bearer ")) return header.slice(7).trim() || null;
+    return allowQueryToken ? new URL(request.url).searchParams.get("access_token") : null;
+}
+
+// Resolve the user making the request. Null when the token is missing or invalid.
+export async function authenticate(
+    request: Request,
+    { allowQueryToken = false }: { allowQueryToken?: boolean } = {}
+): Promise<AuthContext | null> {
+    const token = accessTokenFrom(request, allowQueryToken);
+    if (!token) return null;
+
+    const db = createUserClient(token);
+    const { data, error } = await db.auth.getUser(token);
+    if (error || !data.user) return null;
+
+    return { user: data.user, db };
+}
@@ -0,0 +1,197 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { TokenUsage } from "@/lib/providers";
+import type { InputKind } from "@/lib/judgment";
+import type { Logger } from "@/lib/logger";
+
+// Per-job telemetry: how long each stage of the pipeline took, how much audio
+// was transcribed, how many tokens the judging models used and what that
+// cost. A run is filled in while the job runs and saved to judgment_runs when
+// it ends, whether it completed, failed or was cancelled.
+
+// The timed parts of a job. `save` takes over the upload, `db` writes the judgment.
+export const RUN_STAGES = ["save", "download", "ffmpeg", "transcription", "analysis", "llm", "db"] as const;
+export type RunStage = typeof RUN_STAGES[number];
+
+export interface Run {
+    // The job id
+    id: string;
+    correlationId: string;
+    // Logger with the correlation and job ids attached
+    log: Logger;
+    startedAt: number;
+    // Milliseconds per stage; a stage that runs more than once adds up
+    stages: Partial<Record<RunStage, number>>;
+    // The stage that threw, when the job failed inside one
+    failedStage: RunStage | null;
+    promptTokens: number;
+    completionTokens: number;
+    llmCalls: number;
+    // Length of the recording, and how much of it was sent for transcription
+    // (0 when the transcript came from the cache)
+    audioSeconds: number | null;
+    transcribedSeconds: number;
+}
+
+export function createRun(id: string, correlationId: string, log: Logger): Run {
+    return {
+        id,
+        correlationId,
+        log: log.child({ jobId: id }),
+        startedAt: Date.now(),
+        stages: {},
+        failedStage: null,
+        promptTokens: 0,
+        completionTokens: 0,
+        llmCalls: 0,
+        audioSeconds: null,
+        transcribedSeconds: 0,
+    };
+}
+
+// Run `fn` as a stage of the job and record how long it took. Without a run
+// (e.g. comparisons outside any job) it just runs.
+export async function timeStage<T>(run: Run | undefined, stage: RunStage, fn: () => Promise<T>): Promise<T> {
+    if (!run) return fn();
+    const started = Date.now();
+    try {
+        return await fn();
+    } catch (err) {
+        run.failedStage ??= stage;
+        throw err;
+    } finally {
+        const ms = Date.now() - started;
+        run.stages[stage] = (run.stages[stage] ?? 0) + ms;
+        run.log.debug(`Stage ${stage} took ${ms}ms`, { stage, ms });
+    }
+}
+
+// Add a completion's token usage to the run
+export function recordUsage(run: Run | undefined, usage: TokenUsage | undefined): void {
+    if (!run) return;
+    run.llmCalls++;
+    if (!usage) return;
+    run.promptTokens += usage.promptTokens;
+    run.completionTokens += usage.completionTokens;
+}
+
+// ─── Cost ───
+
+// USD per million prompt and completion tokens, for the default judge models.
+// Others can be priced with JUDGE_PRICE="<prompt>,<completion>".
+const JUDGE_PRICES: Record<string, [number, number]> = {
+    "groq/llama-3.3-70b-versatile": [0.59, 0.79],
+    "groq/llama-3.1-8b-instant": [0.05, 0.08],
+    "openai/gpt-4o-mini": [0.15, 0.6],
+    "openai/gpt-4o": [2.5, 10],
+};
+
+// USD per hour of audio. Others can be priced with TRANSCRIPTION_PRICE.
+const TRANSCRIPTION_PRICES: Record<string, number> = {
+    "groq/whisper-large-v3-turbo": 0.04,
+    "groq/whisper-large-v3": 0.111,
+    "openai/whisper-1": 0.36,
+};
+
+function judgePrice(model: string): [number, number] | null {
+    if (model.startsWith("local/") || model.startsWith("fake/")) return [0, 0];
+    const configured = process.env.JUDGE_PRICE?.split(",").map(Number);
+    if (configured?.length === 2 && configured.every(Number.isFinite)) return [configured[0], configured[1]];
+    return JUDGE_PRICES[model] ?? null;
+}
+
+function transcriptionPrice(model: string): number | null {
+    if (model.startsWith("local/") || model.startsWith("fake/")) return 0;
+    const configured = Number(process.env.TRANSCRIPTION_PRICE);
+    if (process.env.TRANSCRIPTION_PRICE && Number.isFinite(configured)) return configured;
+    return TRANSCRIPTION_PRICES[model] ?? null;
+}
+
+// Estimated cost of a run in USD; null when a model that was used has no known price
+export function estimateCost(run: Run, models: { judge: string | null; transcription: string | null }): number | null {
+    let cost = 0;
+    if (run.llmCalls > 0 && models.judge) {
+        const price = judgePrice(models.judge);
+        if (!price) return null;
+        cost += (run.promptTokens * price[0] + run.completionTokens * price[1]) / 1_000_000;
+    }
+    if (run.transcribedSeconds > 0 && models.transcription) {
+        const price = transcriptionPrice(models.transcription);
+        if (price === null) return null;
+        cost += (run.transcribedSeconds / 3600) * price;
+    }
+    return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+// ─── Storage ───
+
+// Comparisons of two takes are a single judge model call, recorded as runs too
+export type RunKind = InputKind | "rejudge" | "compare";
+export type RunStatus = "completed" | "failed" | "cancelled";
+
+export interface JudgmentRunRow {
+    id: string;
+    user_id: string;
+    judgment_id: string | null;
+    correlation_id: string;
+    kind: RunKind;
+    status: RunStatus;
+    failed_stage: RunStage | null;
+    error: string | null;
+    stages: Partial<Record<RunStage, number>>;
+    total_ms: number;
+    audio_seconds: number | null;
+    transcribed_seconds: number;
+    prompt_tokens: number;
+    completion_tokens: number;
+    llm_calls: number;
+    estimated_cost_usd: number | null;
+    judge_model: string | null;
+    transcription_model: string | null;
+    created_at: string;
+}
+
+export interface RunOutcome {
+    userId: string;
+    kind: RunKind;
+    status: RunStatus;
+    error?: string | null;
+    judgmentId?: string | null;
+    judgeModel: string | null;
+    transcriptionModel: string | null;
+}
+
+// Record a finished run. Telemetry must never fail a job, so errors are only logged.
+export async function saveRun(db: SupabaseClient, run: Run, outcome: RunOutcome): Promise<void> {
+    const row: JudgmentRunRow = {
+        id: run.id,
+        user_id: outcome.userId,
+        judgment_id: outcome.judgmentId ?? null,
+        correlation_id: run.correlationId,
+        kind: outcome.kind,
+        status: outcome.status,
+        failed_stage: outcome.status === "failed" ? run.failedStage : null,
+        error: outcome.error ?? null,
+        stages: run.stages,
+        total_ms: Date.now() - run.startedAt,
+        audio_seconds: run.audioSeconds,
+        transcribed_seconds: run.transcribedSeconds,
+        prompt_tokens: run.promptTokens,
+        completion_tokens: run.completionTokens,
+        llm_calls: run.llmCalls,
+        estimated_cost_usd: estimateCost(run, { judge: outcome.judgeModel, transcription: outcome.transcriptionModel }),
+        judge_model: outcome.judgeModel,
+        transcription_model: outcome.transcriptionModel,
+        created_at: new Date(run.startedAt).toISOString(),
+    };
+    run.log.info(`Run ${outcome.status} in ${row.total_ms}ms`, {
+        stages: row.stages,
+        failedStage: row.failed_stage ?? undefined,
+        audioSeconds: row.audio_seconds ?? undefined,
+        promptTokens: row.prompt_tokens,
+        completionTokens: row.completion_tokens,
+        costUsd: row.estimated_cost_usd ?? undefined,
+    });
+
+    const { error } = await db.from("judgment_runs").insert(row);
+    if (error) run.log.error("Failed to save run telemetry", { error: error.message });
+}
@@ -0,0 +1,75 @@
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { TranscriptionResult } from "@/lib/providers";
+
+// Content hashes and the transcript cache. A recording is looked up by the
+// hash of the uploaded file and by the hash of its extracted audio, so a
+// re-upload skips transcription even when the container was re-encoded.
+
+// SHA-256 of a file, read as a stream so large uploads don't fill memory
+export async function hashFile(path: string): Promise<string> {
+    const hash = createHash("sha256");
+    for await (const chunk of createReadStream(path)) hash.update(chunk as Buffer);
+    return hash.digest("hex");
+}
+
+// SHA-256 of a pasted script; surrounding whitespace and line endings don't count
+export function hashText(text: string): string {
+    return createHash("sha256").update(text.replace(/\r\n?/g, "\n").trim()).digest("hex");
+}
+
+export interface TranscriptKey {
+    mediaHash: string;
+    audioHash: string;
+    // Transcription provider and model, e.g. "groq/whisper-large-v3-turbo"
+    model: string;
+    // Language asked for, or null when it was detected
+    language: string | null;
+}
+
+// The user's own cached transcript of the recording. The user is named
+// explicitly, as background jobs query with the service role.
+export async function findCachedTranscript(db: SupabaseClient, userId: string, key: TranscriptKey): Promise<TranscriptionResult | null> {
+    const { data, error } = await db
+        .from("transcript_cache")
+        .select("transcript, segments, words, language")
+        .eq("user_id", userId)
+        .eq("model", key.model)
+        .eq("requested_language", key.language ?? "auto")
+        .or(`media_hash.eq.${key.mediaHash},audio_hash.eq.${key.audioHash}`)
+        .limit(1)
+        .maybeSingle();
+
+    if (error) throw new Error(`Failed to read transcript cache: ${error.message}`);
+    if (!data) return null;
+    return {
+        text: data.transcript,
+        segments: data.segments ?? [],
+        words: data.words ?? [],
+        ...(data.language ? { language: data.language } : {}),
+    };
+}
+
+export async function cacheTranscript(
+    db: SupabaseClient,
+    userId: string,
+    key: TranscriptKey,
+    result: TranscriptionResult
+): Promise<void> {
+    const { error } = await db.from("transcript_cache").upsert(
+        {
+            user_id: userId,
+            media_hash: key.mediaHash,
+            audio_hash: key.audioHash,
+            model: key.model,
+            requested_language: key.language ?? "auto",
+            transcript: result.text,
+            segments: result.segments,
+            words: result.words,
+            language: result.language ?? null,
+        },
+        { onConflict: "user_id,audio_hash,model,requested_language", ignoreDuplicates: true }
+    );
+    if (error) throw new Error(`Failed to cache transcript: ${error.message}`);
+}
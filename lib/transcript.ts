@@ -0,0 +1,143 @@
+// Timestamped transcript types and helpers shared by the pipeline and the UI.
+
+export interface TranscriptSegment {
+    start: number;
+    end: number;
+    text: string;
+}
+
+export interface TranscriptWord {
+    word: string;
+    start: number;
+    end: number;
+}
+
+// 75.4 -> "1:15", 3725 -> "1:02:05"
+export function formatTimecode(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = String(total % 60).padStart(2, "0");
+    return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+// "1:15" -> 75, "1:02:05" -> 3725
+export function parseTimecode(value: string): number {
+    return value.split(":").reduce((acc, part) => acc * 60 + Number(part), 0);
+}
+
+// One "[m:ss–m:ss] text" line per segment, for the judging prompt
+export function formatTimedTranscript(segments: TranscriptSegment[]): string {
+    return segments
+        .map((s) => `[${formatTimecode(s.start)}–${formatTimecode(s.end)}] ${s.text.trim()}`)
+        .join("\n");
+}
+
+// Matches "0:42–0:58", "0:42-0:58", "1:02:05" and bare "0:42"
+export const TIME_RANGE_PATTERN = /(\d{1,2}:\d{2}(?::\d{2})?)(?:\s*[–-]\s*(\d{1,2}:\d{2}(?::\d{2})?))?/g;
+
+export type TextPart = string | { start: number; end: number; label: string };
+
+// Split feedback text into plain strings and cited time ranges so the UI can link them
+export function splitTimeRanges(text: string): TextPart[] {
+    const parts: TextPart[] = [];
+    let last = 0;
+    for (const match of text.matchAll(TIME_RANGE_PATTERN)) {
+        const index = match.index ?? 0;
+        if (index > last) parts.push(text.slice(last, index));
+        const start = parseTimecode(match[1]);
+        const end = match[2] ? parseTimecode(match[2]) : start;
+        parts.push({ start, end: Math.max(start, end), label: match[0] });
+        last = index + match[0].length;
+    }
+    if (last < text.length) parts.push(text.slice(last));
+    return parts;
+}
+
+// Index of the segment playing at `seconds`, or the nearest one after it
+export function segmentAt(segments: TranscriptSegment[], seconds: number): number {
+    const containing = segments.findIndex((s) => seconds >= s.start && seconds < s.end);
+    if (containing !== -1) return containing;
+    const next = segments.findIndex((s) => s.start >= seconds);
+    return next !== -1 ? next : segments.length - 1;
+}
+
+// Transcripts longer than this many words are judged section by section
+export const LONG_TRANSCRIPT_WORDS = 3000;
+// Rough size of a section; sections are balanced to similar lengths
+export const SECTION_WORDS = 1500;
+
+export interface TranscriptSection {
+    // Null when the transcript has no timestamps
+    start: number | null;
+    end: number | null;
+    text: string;
+    segments: TranscriptSegment[];
+}
+
+function wordCount(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+export function isLongTranscript(transcript: string): boolean {
+    return wordCount(transcript) > LONG_TRANSCRIPT_WORDS;
+}
+
+// Split a transcript into sections of similar length, at segment boundaries
+// when there are timestamps
+export function splitSections(transcript: string, segments: TranscriptSegment[] = [], sectionWords = SECTION_WORDS): TranscriptSection[] {
+    const total = wordCount(transcript);
+    const count = Math.max(1, Math.round(total / sectionWords));
+    const target = total / count;
+
+    if (segments.length === 0) {
+        const words = transcript.split(/\s+/).filter(Boolean);
+        return Array.from({ length: count }, (_, i) => ({
+            start: null,
+            end: null,
+            text: words.slice(Math.round(i * target), Math.round((i + 1) * target)).join(" "),
+            segments: [],
+        }));
+    }
+
+    const sections: TranscriptSection[] = [];
+    let current: TranscriptSegment[] = [];
+    let words = 0;
+    for (const segment of segments) {
+        current.push(segment);
+        words += wordCount(segment.text);
+        if (words >= target * (sections.length + 1) && sections.length < count - 1) {
+            sections.push({ start: current[0].start, end: segment.end, text: current.map((s) => s.text).join(" "), segments: current });
+            current = [];
+        }
+    }
+    if (current.length > 0) {
+        sections.push({ start: current[0].start, end: current[current.length - 1].end, text: current.map((s) => s.text).join(" "), segments: current });
+    }
+    return sections;
+}
+
+// "00:01:02,500" (SRT) or "01:02.500" (WebVTT) -> 62.5
+const CUE_TIME = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{3})/;
+const CUE_LINE = new RegExp(`^\\s*${CUE_TIME.source}\\s*-->\\s*${CUE_TIME.source}`);
+
+function cueSeconds(h: string | undefined, m: string, s: string, ms: string): number {
+    return Number(h || 0) * 3600 + Number(m) * 60 + Number(s) + Number(ms) / 1000;
+}
+
+// Read pasted SRT or WebVTT subtitles into segments. Returns null for text
+// without cue timings, which is judged as a plain script instead.
+export function parseSubtitles(text: string): TranscriptSegment[] | null {
+    const segments: TranscriptSegment[] = [];
+    for (const block of text.replace(/\r\n?/g, "\n").split(/\n\s*\n/)) {
+        const lines = block.split("\n");
+        const timing = lines.findIndex((line) => CUE_LINE.test(line));
+        if (timing === -1) continue;
+        const [, h1, m1, s1, ms1, h2, m2, s2, ms2] = lines[timing].match(CUE_LINE)!;
+        // Cue text, without WebVTT voice and styling tags
+        const cue = lines.slice(timing + 1).join(" ").replace(/<[^>]+>/g, "").trim();
+        if (!cue) continue;
+        segments.push({ start: cueSeconds(h1, m1, s1, ms1), end: cueSeconds(h2, m2, s2, ms2), text: cue });
+    }
+    return segments.length > 0 ? segments : null;
+}
@@ -0,0 +1,114 @@
+import { authFetch } from "@/lib/supabase-browser";
+
+// Browser side of the resumable uploads in lib/uploads.ts. Files go up in
+// chunks; after a network error the client asks the server how much arrived
+// and continues from there. The upload id is remembered per file in
+// localStorage, so picking the same file again after a reload resumes too.
+
+const CHUNK_BYTES = 8 * 1024 * 1024;
+// Consecutive failed attempts before giving up
+const MAX_RETRIES = 8;
+const MAX_BACKOFF_MS = 30_000;
+
+function storageKey(file: File): string {
+    return `evala-upload:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener("abort", () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        }, { once: true });
+    });
+}
+
+async function errorMessage(res: Response, fallback: string): Promise<string> {
+    const data = await res.json().catch(() => ({}));
+    return data.error || fallback;
+}
+
+// Offset of an upload the server still has, or null if it's gone
+async function currentOffset(id: string, signal?: AbortSignal): Promise<number | null> {
+    const res = await authFetch(`/api/uploads/${id}`, { method: "HEAD", signal });
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`Upload status check failed (${res.status})`);
+    return Number(res.headers.get("Upload-Offset"));
+}
+
+async function startUpload(file: File, signal?: AbortSignal): Promise<string> {
+    const res = await authFetch("/api/uploads", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ filename: file.name, type: file.type, size: file.size }),
+        signal,
+    });
+    if (!res.ok) throw new Error(await errorMessage(res, "Failed to start the upload."));
+    const { id } = await res.json();
+    localStorage.setItem(storageKey(file), id);
+    return id;
+}
+
+// Upload a file, resuming an earlier attempt when possible. Resolves with the
+// upload id to pass to POST /api/judge.
+export async function uploadFile(
+    file: File,
+    { onProgress, signal }: { onProgress?: (fraction: number) => void; signal?: AbortSignal } = {}
+): Promise<string> {
+    let id = localStorage.getItem(storageKey(file));
+    let offset = id ? await currentOffset(id, signal).catch(() => null) : null;
+    if (!id || offset === null) {
+        id = await startUpload(file, signal);
+        offset = 0;
+    }
+
+    let failures = 0;
+    while (offset < file.size) {
+        onProgress?.(offset / file.size);
+        try {
+            const res = await authFetch(`/api/uploads/${id}`, {
+                method: "PATCH",
+                headers: {
+                    "Content-Type": "application/offset+octet-stream",
+                    "Upload-Offset": String(offset),
+                },
+                body: file.slice(offset, offset + CHUNK_BYTES),
+                signal,
+            });
+            // Offset mismatches and server errors are retried after re-syncing;
+            // anything else means the upload can't go on
+            if (!res.ok && res.status !== 409 && res.status < 500) {
+                localStorage.removeItem(storageKey(file));
+                throw new Error(await errorMessage(res, "Upload failed."));
+            }
+            if (res.ok) {
+                offset = Number(res.headers.get("Upload-Offset"));
+                failures = 0;
+                continue;
+            }
+        } catch (err) {
+            // Network errors surface as TypeError; rethrow the rest (including aborts)
+            if (!(err instanceof TypeError)) throw err;
+        }
+
+        if (++failures > MAX_RETRIES) {
+            throw new Error("Upload interrupted. Check your connection and try again to resume.");
+        }
+        await sleep(Math.min(MAX_BACKOFF_MS, 1000 * 2 ** (failures - 1)), signal);
+        const resumed = await currentOffset(id, signal).catch(() => offset);
+        if (resumed === null) {
+            localStorage.removeItem(storageKey(file));
+            throw new Error("The upload expired. Please try again.");
+        }
+        offset = resumed;
+    }
+
+    onProgress?.(1);
+    return id;
+}
+
+// Drop the remembered upload once a job has taken it
+export function forgetUpload(file: File): void {
+    localStorage.removeItem(storageKey(file));
+}
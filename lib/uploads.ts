@@ -0,0 +1,212 @@
+import { createWriteStream } from "fs";
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { v4 as uuidv4 } from "uuid";
+import { logger, type Logger } from "@/lib/logger";
+
+// Resumable uploads, after the tus protocol: the client declares the file's
+// size, then sends it in chunks with PATCH at the current offset. Chunks are
+// streamed straight to disk, so memory use doesn't grow with the file. After
+// a dropped connection the client asks for the offset (HEAD) and carries on
+// from there.
+//
+// Each upload is a data file plus a JSON sidecar in UPLOAD_DIR, so uploads
+// survive a server restart. Unfinished uploads expire a day after their last
+// chunk.
+
+export const VIDEO_TYPES = ["video/mp4", "video/webm", "video/quicktime", "video/x-msvideo", "video/x-matroska"];
+// Browsers disagree on the type of WAV and M4A files, so several are accepted
+export const AUDIO_TYPES = ["audio/mpeg", "audio/mp3", "audio/wav", "audio/x-wav", "audio/wave", "audio/mp4", "audio/x-m4a", "audio/ogg"];
+
+export function isAudioType(type: string): boolean {
+    return AUDIO_TYPES.includes(type);
+}
+
+// Largest accepted upload, from MAX_UPLOAD_MB (default 2 GB)
+export const MAX_UPLOAD_BYTES = Number(process.env.MAX_UPLOAD_MB || 2048) * 1024 * 1024;
+
+const UPLOAD_DIR = process.env.UPLOAD_DIR || join(tmpdir(), "evala-uploads");
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface UploadInfo {
+    id: string;
+    userId: string;
+    filename: string;
+    type: string;
+    // Declared total size in bytes
+    size: number;
+    // Bytes received so far
+    offset: number;
+    createdAt: string;
+}
+
+export class UploadError extends Error {
+    constructor(message: string, public status: number) {
+        super(message);
+        this.name = "UploadError";
+    }
+}
+
+// Uploads with a PATCH in flight; a second concurrent PATCH would interleave bytes
+const globalForUploads = globalThis as unknown as { activeUploads?: Set<string> };
+const active: Set<string> = globalForUploads.activeUploads ??= new Set();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function dataPath(id: string): string {
+    return join(UPLOAD_DIR, `${id}.part`);
+}
+
+function infoPath(id: string): string {
+    return join(UPLOAD_DIR, `${id}.json`);
+}
+
+// Validate what the client says it's about to upload
+export function checkUpload({ filename, type, size }: { filename: unknown; type: unknown; size: unknown }): string[] {
+    const errors: string[] = [];
+    if (typeof filename !== "string" || !filename.trim()) errors.push("filename is required.");
+    if (typeof type !== "string" || !(VIDEO_TYPES.includes(type) || isAudioType(type))) {
+        errors.push("Invalid file type. Please upload a video (MP4, WebM, MOV, AVI, MKV) or audio file (MP3, WAV, M4A, OGG).");
+    }
+    if (typeof size !== "number" || !Number.isInteger(size) || size <= 0) {
+        errors.push("size must be the file size in bytes.");
+    } else if (size > MAX_UPLOAD_BYTES) {
+        errors.push(`File too large. Maximum size is ${Math.round(MAX_UPLOAD_BYTES / (1024 * 1024))}MB.`);
+    }
+    return errors;
+}
+
+// Remove uploads nobody has written to in a day. Data files without a
+// sidecar go too: left by a crash between the two writes, or claimed by a job
+// that never cleaned up.
+async function sweepExpired(): Promise<void> {
+    const now = Date.now();
+    const ids = new Set<string>();
+    for (const name of await readdir(UPLOAD_DIR).catch(() => [] as string[])) {
+        const match = /^(.+)\.(?:json|part)$/.exec(name);
+        if (match && UUID_PATTERN.test(match[1])) ids.add(match[1]);
+    }
+    for (const id of ids) {
+        if (active.has(id)) continue;
+        const written = await Promise.all([infoPath(id), dataPath(id)].map((path) => stat(path).then((s) => s.mtimeMs, () => 0)));
+        if (now - Math.max(...written) > UPLOAD_TTL_MS) await deleteUploadFiles(id);
+    }
+}
+
+async function readInfo(id: string): Promise<UploadInfo | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+    try {
+        const info = JSON.parse(await readFile(infoPath(id), "utf8")) as UploadInfo;
+        // The data file is the source of truth for how much has arrived
+        const { size } = await stat(dataPath(id));
+        return { ...info, offset: size };
+    } catch {
+        return null;
+    }
+}
+
+async function deleteUploadFiles(id: string): Promise<void> {
+    await rm(infoPath(id), { force: true });
+    await rm(dataPath(id), { force: true });
+}
+
+export async function createUpload(
+    userId: string,
+    file: { filename: string; type: string; size: number },
+    log: Logger = logger
+): Promise<UploadInfo> {
+    await mkdir(UPLOAD_DIR, { recursive: true });
+    void sweepExpired().catch((err) => log.error("Upload sweep failed", { error: err }));
+
+    const info: UploadInfo = {
+        id: uuidv4(),
+        userId,
+        filename: file.filename.trim(),
+        type: file.type,
+        size: file.size,
+        offset: 0,
+        createdAt: new Date().toISOString(),
+    };
+    await writeFile(dataPath(info.id), "");
+    await writeFile(infoPath(info.id), JSON.stringify(info));
+    log.info(`Upload ${info.id} created: ${info.filename}`, { uploadId: info.id, bytes: info.size });
+    return info;
+}
+
+// An upload owned by the user, or null if it doesn't exist or isn't theirs
+export async function getUpload(id: string, userId: string): Promise<UploadInfo | null> {
+    const info = await readInfo(id);
+    return info && info.userId === userId ? info : null;
+}
+
+// Append a chunk that starts at `offset`. Whatever arrives before the
+// connection drops is kept, so the client can resume from the new offset.
+export async function appendChunk(
+    id: string,
+    userId: string,
+    offset: number,
+    body: ReadableStream<Uint8Array> | null,
+    log: Logger = logger
+): Promise<UploadInfo> {
+    const info = await getUpload(id, userId);
+    if (!info) throw new UploadError("Upload not found", 404);
+    if (active.has(id)) throw new UploadError("Another chunk is still being written to this upload.", 409);
+    if (offset !== info.offset) {
+        throw new UploadError(`Upload-Offset ${offset} does not match the current offset ${info.offset}.`, 409);
+    }
+    if (!body) return info;
+
+    active.add(id);
+    let received = 0;
+    try {
+        const limit = new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+                received += chunk.length;
+                if (info.offset + received > info.size) {
+                    callback(new UploadError("The chunk goes past the declared upload size.", 413));
+                } else {
+                    callback(null, chunk);
+                }
+            },
+        });
+        await pipeline(
+            Readable.fromWeb(body as WebReadableStream<Uint8Array>),
+            limit,
+            createWriteStream(dataPath(id), { flags: "a" })
+        );
+    } catch (err) {
+        if (err instanceof UploadError) throw err;
+        // A dropped connection; report it, the bytes written so far stay
+        log.warn(`Upload ${id} chunk interrupted`, { uploadId: id, error: err });
+    } finally {
+        active.delete(id);
+    }
+
+    return (await readInfo(id)) ?? info;
+}
+
+// Hand a finished upload over to a judging job. The caller owns the returned
+// file from then on and deletes it when done.
+export async function claimUpload(id: string, userId: string): Promise<{ path: string; filename: string; type: string }> {
+    const info = await getUpload(id, userId);
+    if (!info) throw new UploadError("Upload not found", 404);
+    if (active.has(id) || info.offset < info.size) {
+        throw new UploadError(`Upload is incomplete (${info.offset} of ${info.size} bytes).`, 409);
+    }
+    await rm(infoPath(id), { force: true });
+    // The sweep goes by the last write; give the job a full day from now
+    const now = new Date();
+    await utimes(dataPath(id), now, now);
+    return { path: dataPath(id), filename: info.filename, type: info.type };
+}
+
+export async function deleteUpload(id: string, userId: string): Promise<boolean> {
+    const info = await getUpload(id, userId);
+    if (!info) return false;
+    await deleteUploadFiles(id);
+    return true;
+}
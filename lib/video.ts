@@ -0,0 +1,195 @@
+import { FfmpegError, runFfmpeg, type FfmpegOptions } from "@/lib/ffmpeg";
+import { formatTimecode } from "@/lib/transcript";
+
+// Visual pacing analysis from ffmpeg's scene, black-frame and freeze detection.
+//
+// One decoding pass runs every filter; the results are parsed from stderr. The
+// picture is downscaled and sampled at 10 fps first since none of the detectors
+// need full resolution.
+
+export type TargetPlatform = "vertical" | "horizontal";
+
+export interface TimeRange {
+    start: number;
+    end: number;
+    duration: number;
+}
+
+export interface VideoAnalysis {
+    width: number;
+    height: number;
+    fps: number;
+    durationSeconds: number;
+    orientation: "portrait" | "landscape" | "square";
+    aspectRatio: string;
+    // Timestamps of detected scene changes
+    cuts: number[];
+    cutsPerMinute: number;
+    averageShotSeconds: number;
+    longestShotSeconds: number;
+    // Stretches where the picture doesn't change (frozen or static shot)
+    staticStretches: TimeRange[];
+    blackSegments: TimeRange[];
+    // Platform the uploader said the video is for, if any
+    platform: TargetPlatform | null;
+    warnings: string[];
+}
+
+const SCENE_THRESHOLD = 0.3;
+const STATIC_MIN_SECONDS = 3;
+
+function gcd(a: number, b: number): number {
+    return b === 0 ? a : gcd(b, a % b);
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+// Common ratios are named; anything else is reduced, e.g. 1080x1350 -> 4:5
+function describeAspectRatio(width: number, height: number): string {
+    const ratio = width / height;
+    const known: [string, number][] = [["16:9", 16 / 9], ["9:16", 9 / 16], ["4:3", 4 / 3], ["3:4", 3 / 4], ["1:1", 1], ["4:5", 4 / 5], ["21:9", 21 / 9]];
+    const match = known.find(([, r]) => Math.abs(r - ratio) < 0.02);
+    if (match) return match[0];
+    const d = gcd(width, height);
+    return `${width / d}:${height / d}`;
+}
+
+function parseTimestamp(value: string): number {
+    const [h, m, s] = value.split(":").map(Number);
+    return h * 3600 + m * 60 + s;
+}
+
+// Pull the input's video stream properties out of ffmpeg's banner
+export function parseStreamInfo(stderr: string): { width: number; height: number; fps: number; durationSeconds: number } | null {
+    const input = stderr.split(/Stream mapping:|Output #0/)[0];
+    const stream = input.match(/Stream #\d+:\d+.*?: Video: .*?(\d{2,5})x(\d{2,5})[^\n]*/);
+    if (!stream) return null;
+
+    let width = Number(stream[1]);
+    let height = Number(stream[2]);
+    // Phones store portrait video as landscape frames plus a rotation
+    const rotation = input.match(/rotation of (-?[\d.]+) degrees/) || input.match(/rotate\s*:\s*(-?\d+)/);
+    if (rotation && Math.abs(Number(rotation[1])) % 180 === 90) [width, height] = [height, width];
+
+    const fps = Number(stream[0].match(/([\d.]+) fps/)?.[1] || stream[0].match(/([\d.]+) tbr/)?.[1] || 0);
+    const duration = input.match(/Duration: (\d+:\d+:[\d.]+)/);
+
+    return { width, height, fps, durationSeconds: duration ? parseTimestamp(duration[1]) : 0 };
+}
+
+export function parseDetections(stderr: string): { cuts: number[]; blackSegments: TimeRange[]; staticStretches: TimeRange[] } {
+    const cuts = Array.from(stderr.matchAll(/Parsed_showinfo.*?pts_time:\s*([\d.]+)/g), (m) => round(Number(m[1])));
+
+    const blackSegments = Array.from(
+        stderr.matchAll(/black_start:\s*([\d.]+)\s+black_end:\s*([\d.]+)\s+black_duration:\s*([\d.]+)/g),
+        (m) => ({ start: round(Number(m[1])), end: round(Number(m[2])), duration: round(Number(m[3])) })
+    );
+
+    // freezedetect logs start, duration and end as separate metadata lines
+    const staticStretches: TimeRange[] = [];
+    let freezeStart: number | null = null;
+    for (const m of stderr.matchAll(/freezedetect\.freeze_(start|end):\s*([\d.]+)/g)) {
+        const t = Number(m[2]);
+        if (m[1] === "start") {
+            freezeStart = t;
+        } else if (freezeStart !== null) {
+            staticStretches.push({ start: round(freezeStart), end: round(t), duration: round(t - freezeStart) });
+            freezeStart = null;
+        }
+    }
+
+    return { cuts, blackSegments, staticStretches };
+}
+
+function formatWarnings(analysis: Omit<VideoAnalysis, "warnings">): string[] {
+    const warnings: string[] = [];
+    const { width, height, fps, orientation, aspectRatio, platform } = analysis;
+
+    if (platform === "vertical" && orientation === "landscape") {
+        warnings.push(`Landscape ${aspectRatio} video uploaded for a vertical platform; it will be letterboxed or cropped. Shoot or reframe in 9:16.`);
+    }
+    if (platform === "horizontal" && orientation === "portrait") {
+        warnings.push(`Portrait ${aspectRatio} video uploaded for a horizontal platform; it will show with wide pillarbox bars. Shoot or reframe in 16:9.`);
+    }
+    if (Math.min(width, height) < 720) {
+        warnings.push(`Low resolution (${width}x${height}); most platforms expect at least 720p.`);
+    }
+    if (fps > 0 && fps < 24) {
+        warnings.push(`Low frame rate (${fps} fps); motion will look choppy below 24 fps.`);
+    }
+    for (const black of analysis.blackSegments) {
+        if (black.start < 0.5 && black.duration >= 0.5) {
+            warnings.push(`Opens on ${black.duration}s of black; the first frames should grab attention.`);
+        }
+    }
+    return warnings;
+}
+
+// Analyze a video file's visual pacing. Resolves to null when there is no video stream.
+export async function analyzeVideo(videoPath: string, platform: TargetPlatform | null = null, options: FfmpegOptions = {}): Promise<VideoAnalysis | null> {
+    const stderr = await runFfmpeg([
+        "-hide_banner",
+        "-i", videoPath,
+        "-an",
+        "-vf", [
+            "fps=10",
+            "scale=320:-2",
+            "blackdetect=d=0.5:pix_th=0.10",
+            `freezedetect=n=-60dB:d=${STATIC_MIN_SECONDS}`,
+            `select='gt(scene,${SCENE_THRESHOLD})'`,
+            "showinfo",
+        ].join(","),
+        "-f", "null",
+        "-",
+    ], options).catch((err) => {
+        // Audio-only input: the filter graph has nothing to read
+        if (err instanceof FfmpegError && err.stderr.includes("Output file does not contain any stream")) return "";
+        throw err;
+    });
+
+    const stream = parseStreamInfo(stderr);
+    if (!stream) return null;
+
+    const { cuts, blackSegments, staticStretches } = parseDetections(stderr);
+    const { width, height, durationSeconds } = stream;
+
+    // Shot lengths are the gaps between cuts, including the opening and closing shots
+    const boundaries = [0, ...cuts, durationSeconds];
+    const shots = boundaries.slice(1).map((t, i) => t - boundaries[i]).filter((d) => d > 0);
+
+    const analysis: Omit<VideoAnalysis, "warnings"> = {
+        width,
+        height,
+        fps: round(stream.fps),
+        durationSeconds: round(durationSeconds),
+        orientation: width === height ? "square" : width > height ? "landscape" : "portrait",
+        aspectRatio: describeAspectRatio(width, height),
+        cuts,
+        cutsPerMinute: durationSeconds > 0 ? round(cuts.length / (durationSeconds / 60)) : 0,
+        averageShotSeconds: shots.length > 0 ? round(shots.reduce((a, b) => a + b, 0) / shots.length) : round(durationSeconds),
+        longestShotSeconds: shots.length > 0 ? round(Math.max(...shots)) : round(durationSeconds),
+        staticStretches,
+        blackSegments,
+        platform,
+    };
+
+    return { ...analysis, warnings: formatWarnings(analysis) };
+}
+
+// Plain-text summary handed to the judges as evidence
+export function describeVideo(v: VideoAnalysis): string {
+    const stretches = v.staticStretches
+        .slice(0, 5)
+        .map((s) => `${formatTimecode(s.start)}–${formatTimecode(s.end)}`)
+        .join(", ");
+
+    return [
+        `- Format: ${v.width}x${v.height} (${v.aspectRatio}, ${v.orientation}) at ${v.fps} fps${v.platform ? `, intended for a ${v.platform} platform` : ""}`,
+        `- Cuts: ${v.cuts.length} (${v.cutsPerMinute} per minute); average shot ${v.averageShotSeconds}s, longest ${v.longestShotSeconds}s`,
+        `- Static stretches (≥${STATIC_MIN_SECONDS}s without visual change): ${v.staticStretches.length}${stretches ? ` — ${stretches}` : ""}`,
+        `- Black segments: ${v.blackSegments.length}`,
+        ...v.warnings.map((w) => `- Warning: ${w}`),
+    ].join("\n");
+}
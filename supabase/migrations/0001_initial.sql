@@ -12,4 +12,4 @@ CREATE TABLE IF NOT EXISTS judgments (
 -- ALTER TABLE judgments ENABLE ROW LEVEL SECURITY;
 
 -- Create index for ordering by date
-CREATE INDEX idx_judgments_created_at ON judgments (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_judgments_created_at ON judgments (created_at DESC);
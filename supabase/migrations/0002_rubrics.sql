@@ -0,0 +1,12 @@
+-- Rubrics: named sets of criteria with descriptions, weights and score ranges.
+-- criteria is an array of { key, name, description, weight, min, max }.
+CREATE TABLE IF NOT EXISTS rubrics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  criteria JSONB NOT NULL CHECK (jsonb_typeof(criteria) = 'array'),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Rubric each judgment was scored with (NULL = built-in default rubric)
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS rubric_id UUID REFERENCES rubrics(id) ON DELETE SET NULL;
@@ -0,0 +1,3 @@
+-- Timestamped transcript: [{ start, end, text }] segments and [{ word, start, end }] words (seconds)
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS segments JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS words JSONB NOT NULL DEFAULT '[]'::jsonb;
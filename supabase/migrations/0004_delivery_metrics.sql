@@ -0,0 +1,2 @@
+-- Delivery metrics measured from the audio (words per minute, fillers, pauses, loudness)
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS metrics JSONB;
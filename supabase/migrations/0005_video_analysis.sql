@@ -0,0 +1,2 @@
+-- Visual pacing analysis (format, cuts, static stretches, warnings)
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS video_analysis JSONB;
@@ -0,0 +1,5 @@
+-- Judgments whose verdict never passed validation are stored as failed, with
+-- no score or feedback, instead of a made-up score
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'completed' CHECK (status IN ('completed', 'failed'));
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS error TEXT;
+ALTER TABLE judgments ALTER COLUMN feedback DROP NOT NULL;
@@ -0,0 +1,98 @@
+-- Store feedback as JSONB instead of stringified JSON, and break the scores
+-- and tips out into their own tables so they can be queried.
+
+-- Old rows hold either the stringified structured feedback or plain text from
+-- before feedback was structured. Plain text is kept as { "text": ... }.
+CREATE OR REPLACE FUNCTION pg_temp.feedback_to_jsonb(raw TEXT) RETURNS JSONB AS $$
+DECLARE
+  parsed JSONB;
+BEGIN
+  IF raw IS NULL THEN
+    RETURN NULL;
+  END IF;
+  BEGIN
+    parsed := raw::jsonb;
+  EXCEPTION WHEN others THEN
+    RETURN jsonb_build_object('text', raw);
+  END;
+  IF jsonb_typeof(parsed) <> 'object' THEN
+    RETURN jsonb_build_object('text', raw);
+  END IF;
+  RETURN parsed;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+ALTER TABLE judgments
+  ALTER COLUMN feedback TYPE JSONB USING pg_temp.feedback_to_jsonb(feedback);
+
+ALTER TABLE judgments ADD CONSTRAINT judgments_feedback_object
+  CHECK (feedback IS NULL OR jsonb_typeof(feedback) = 'object');
+
+-- Run metadata, so scores from different models or prompts can be told apart
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS model TEXT;
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS prompt_version INTEGER;
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS duration_ms INTEGER;
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS language TEXT;
+
+-- Consensus score per rubric criterion
+CREATE TABLE IF NOT EXISTS judgment_scores (
+  judgment_id UUID NOT NULL REFERENCES judgments(id) ON DELETE CASCADE,
+  criterion TEXT NOT NULL,
+  name TEXT NOT NULL,
+  score NUMERIC NOT NULL,
+  min_score NUMERIC NOT NULL,
+  max_score NUMERIC NOT NULL,
+  weight NUMERIC NOT NULL DEFAULT 1,
+  comment TEXT,
+  PRIMARY KEY (judgment_id, criterion)
+);
+
+CREATE INDEX IF NOT EXISTS idx_judgment_scores_criterion ON judgment_scores (criterion, score);
+
+-- Consensus tips, in the order they were given
+CREATE TABLE IF NOT EXISTS judgment_tips (
+  judgment_id UUID NOT NULL REFERENCES judgments(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  tip TEXT NOT NULL,
+  PRIMARY KEY (judgment_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_judgment_tips_search ON judgment_tips USING GIN (to_tsvector('english', tip));
+
+-- Backfill from existing feedback. Judgments made before rubrics kept the
+-- default 1-10 criteria at the top level instead of under "criteria".
+INSERT INTO judgment_scores (judgment_id, criterion, name, score, min_score, max_score, weight, comment)
+SELECT
+  j.id,
+  c.key,
+  COALESCE(r.value->>'name', initcap(c.key)),
+  (c.value->>'score')::numeric,
+  COALESCE((r.value->>'min')::numeric, 1),
+  COALESCE((r.value->>'max')::numeric, 10),
+  COALESCE((r.value->>'weight')::numeric, 1),
+  c.value->>'comment'
+FROM judgments j
+CROSS JOIN LATERAL jsonb_each(
+  CASE
+    WHEN jsonb_typeof(j.feedback->'criteria') = 'object' THEN j.feedback->'criteria'
+    ELSE (
+      SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb)
+      FROM jsonb_each(j.feedback)
+      WHERE key IN ('clarity', 'engagement', 'structure', 'delivery', 'value')
+    )
+  END
+) AS c(key, value)
+LEFT JOIN LATERAL (
+  SELECT value FROM jsonb_array_elements(j.feedback->'rubric'->'criteria') WHERE value->>'key' = c.key
+) AS r ON TRUE
+WHERE j.feedback IS NOT NULL
+  AND jsonb_typeof(c.value) = 'object'
+  AND jsonb_typeof(c.value->'score') = 'number'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO judgment_tips (judgment_id, position, tip)
+SELECT j.id, t.position - 1, t.tip
+FROM judgments j
+CROSS JOIN LATERAL jsonb_array_elements_text(j.feedback->'tips') WITH ORDINALITY AS t(tip, position)
+WHERE jsonb_typeof(j.feedback->'tips') = 'array'
+ON CONFLICT DO NOTHING;
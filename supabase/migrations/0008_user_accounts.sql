@@ -0,0 +1,42 @@
+-- Judgments and rubrics belong to the Supabase Auth user who created them.
+-- Route handlers query as that user, so these policies are what keep each
+-- person's history private.
+
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+ALTER TABLE rubrics ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+CREATE INDEX IF NOT EXISTS idx_judgments_user_created_at ON judgments (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_rubrics_user_id ON rubrics (user_id);
+
+-- Rows created before accounts have no owner and are not visible to anyone.
+-- Assign them with e.g. UPDATE judgments SET user_id = '<uuid>' WHERE user_id IS NULL;
+
+ALTER TABLE judgments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rubrics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE judgment_scores ENABLE ROW LEVEL SECURITY;
+ALTER TABLE judgment_tips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their own judgments" ON judgments
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users create their own judgments" ON judgments
+  FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users read their own rubrics" ON rubrics
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users create their own rubrics" ON rubrics
+  FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+
+-- Scores and tips follow the judgment they belong to
+CREATE POLICY "Users read scores of their own judgments" ON judgment_scores
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM judgments j WHERE j.id = judgment_id AND j.user_id = auth.uid()));
+CREATE POLICY "Users create scores for their own judgments" ON judgment_scores
+  FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM judgments j WHERE j.id = judgment_id AND j.user_id = auth.uid()));
+
+CREATE POLICY "Users read tips of their own judgments" ON judgment_tips
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM judgments j WHERE j.id = judgment_id AND j.user_id = auth.uid()));
+CREATE POLICY "Users create tips for their own judgments" ON judgment_tips
+  FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM judgments j WHERE j.id = judgment_id AND j.user_id = auth.uid()));
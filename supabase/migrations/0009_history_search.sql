@@ -0,0 +1,21 @@
+-- Full-text search and filtering for the judgment history (GET /api/judge)
+
+-- Filename weighs most, then the transcript, then the text of the feedback
+-- (summary, comments and tips; JSON keys are left out).
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS search TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(video_filename, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(transcript, '')), 'B') ||
+  setweight(jsonb_to_tsvector('english', coalesce(feedback, '{}'::jsonb), '["string"]'), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_judgments_search ON judgments USING GIN (search);
+
+-- Keyset pagination orders by (created_at, id) or (score, id) within a user's rows
+DROP INDEX IF EXISTS idx_judgments_user_created_at;
+CREATE INDEX IF NOT EXISTS idx_judgments_user_created_at_id ON judgments (user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_judgments_user_score_id ON judgments (user_id, score DESC, id DESC) WHERE score IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_judgments_user_rubric ON judgments (user_id, rubric_id);
+
+-- Substring filename filter (ILIKE '%...%')
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE INDEX IF NOT EXISTS idx_judgments_filename_trgm ON judgments USING GIN (video_filename gin_trgm_ops);
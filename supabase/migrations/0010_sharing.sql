@@ -0,0 +1,27 @@
+-- Shareable report links. Private reports are only visible to their owner;
+-- unlisted ones to anyone with the share token; public ones to anyone with the id.
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS visibility TEXT NOT NULL DEFAULT 'private' CHECK (visibility IN ('private', 'unlisted', 'public'));
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS share_token TEXT UNIQUE;
+
+CREATE POLICY "Users update their own judgments" ON judgments
+  FOR UPDATE TO authenticated USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+-- Shared reports are read through this function rather than a SELECT policy,
+-- so visitors can open a single report but never list or search others'.
+CREATE OR REPLACE FUNCTION get_shared_judgment(judgment_id UUID, token TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT to_jsonb(j) - 'search' - 'user_id' - 'share_token'
+  FROM judgments j
+  WHERE j.id = judgment_id
+    AND j.status = 'completed'
+    AND (
+      j.visibility = 'public'
+      OR (j.visibility = 'unlisted' AND j.share_token IS NOT NULL AND j.share_token = token)
+    )
+$$;
+
+REVOKE ALL ON FUNCTION get_shared_judgment(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_shared_judgment(UUID, TEXT) TO anon, authenticated;
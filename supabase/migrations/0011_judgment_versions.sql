@@ -0,0 +1,11 @@
+-- Re-judging a stored transcript creates a new judgment linked to the original
+-- upload. The original has source_id NULL and version 1.
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS source_id UUID REFERENCES judgments(id) ON DELETE CASCADE;
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1 CHECK (version >= 1);
+
+CREATE INDEX IF NOT EXISTS idx_judgments_source_id ON judgments (source_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_judgments_recording_version ON judgments ((COALESCE(source_id, id)), version);
+
+-- Users can delete their own recordings; versions, scores and tips cascade
+CREATE POLICY "Users delete their own judgments" ON judgments
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
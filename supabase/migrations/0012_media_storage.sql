@@ -0,0 +1,35 @@
+-- Original recordings are kept in a private Storage bucket, one object per
+-- upload at <user id>/<judgment id>.<ext>. Re-judged versions share the
+-- original's object.
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS storage_path TEXT;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('recordings', 'recordings', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Each user can only touch objects in their own folder
+CREATE POLICY "Users upload their own recordings" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'recordings' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users read their own recordings" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'recordings' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users delete their own recordings" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'recordings' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Shared reports don't expose where the recording is stored
+CREATE OR REPLACE FUNCTION get_shared_judgment(judgment_id UUID, token TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT to_jsonb(j) - 'search' - 'user_id' - 'share_token' - 'storage_path'
+  FROM judgments j
+  WHERE j.id = judgment_id
+    AND j.status = 'completed'
+    AND (
+      j.visibility = 'public'
+      OR (j.visibility = 'unlisted' AND j.share_token IS NOT NULL AND j.share_token = token)
+    )
+$$;
@@ -0,0 +1,5 @@
+-- The spoken language is detected on upload (or chosen by the user) and
+-- stored in `language` as an ISO 639-1 code. Feedback can be written in
+-- another language; earlier judgments were all written in English.
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS feedback_language TEXT;
+UPDATE judgments SET feedback_language = 'en' WHERE feedback_language IS NULL AND feedback IS NOT NULL;
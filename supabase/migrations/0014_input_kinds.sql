@@ -0,0 +1,21 @@
+-- Besides video uploads, judgments can come from audio uploads, media files
+-- downloaded from a URL, and pasted scripts or transcripts.
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS input_kind TEXT NOT NULL DEFAULT 'video'
+  CHECK (input_kind IN ('video', 'audio', 'url', 'text'));
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS source_url TEXT;
+
+-- Source links can carry access tokens; shared reports leave them out
+CREATE OR REPLACE FUNCTION get_shared_judgment(judgment_id UUID, token TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT to_jsonb(j) - 'search' - 'user_id' - 'share_token' - 'storage_path' - 'source_url'
+  FROM judgments j
+  WHERE j.id = judgment_id
+    AND j.status = 'completed'
+    AND (
+      j.visibility = 'public'
+      OR (j.visibility = 'unlisted' AND j.share_token IS NOT NULL AND j.share_token = token)
+    )
+$$;
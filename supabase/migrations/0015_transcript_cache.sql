@@ -0,0 +1,35 @@
+-- Uploads are hashed (SHA-256) so the same recording isn't transcribed or
+-- judged twice. media_hash is the hash of the uploaded file, or of the text
+-- for pasted scripts.
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS media_hash TEXT;
+CREATE INDEX IF NOT EXISTS idx_judgments_user_media_hash ON judgments (user_id, media_hash);
+
+-- Transcripts by the hash of the uploaded file and of its extracted audio, so
+-- a re-encoded copy with the same sound is found too. One entry per
+-- transcription model and requested language ('auto' when detected).
+CREATE TABLE IF NOT EXISTS transcript_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  media_hash TEXT NOT NULL,
+  audio_hash TEXT NOT NULL,
+  model TEXT NOT NULL,
+  requested_language TEXT NOT NULL DEFAULT 'auto',
+  transcript TEXT NOT NULL,
+  segments JSONB NOT NULL DEFAULT '[]',
+  words JSONB NOT NULL DEFAULT '[]',
+  language TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, audio_hash, model, requested_language)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_cache_media_hash ON transcript_cache (user_id, media_hash);
+
+-- Cached transcripts are as private as the recordings they came from
+ALTER TABLE transcript_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their own cached transcripts" ON transcript_cache
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users cache their own transcripts" ON transcript_cache
+  FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users delete their own cached transcripts" ON transcript_cache
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
@@ -0,0 +1,57 @@
+-- Rate limit and quota counters for RATE_LIMIT_STORE=postgres (see
+-- lib/rate-limit.ts). One row per key and fixed window; a row past its
+-- reset_at counts as zero and is replaced on the next increment.
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key TEXT PRIMARY KEY,
+  value NUMERIC NOT NULL DEFAULT 0,
+  reset_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_reset_at ON rate_limits (reset_at);
+
+-- No policies: the table is only reached through the functions below, which
+-- let a user touch their own counters ('user:<id>:...') and per-address ones
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION increment_rate_limit(p_key TEXT, p_amount NUMERIC, p_reset_at TIMESTAMPTZ)
+RETURNS NUMERIC
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL OR NOT (p_key LIKE 'user:' || auth.uid() || ':%' OR p_key LIKE 'ip:%') THEN
+    RAISE EXCEPTION 'Not allowed to update rate limit %', p_key;
+  END IF;
+
+  -- Windows that ended over a day ago are of no use to anyone
+  DELETE FROM rate_limits WHERE reset_at < NOW() - INTERVAL '1 day';
+
+  INSERT INTO rate_limits (key, value, reset_at)
+  VALUES (p_key, p_amount, p_reset_at)
+  ON CONFLICT (key) DO UPDATE SET
+    value = CASE WHEN rate_limits.reset_at <= NOW() THEN EXCLUDED.value ELSE rate_limits.value + EXCLUDED.value END,
+    reset_at = CASE WHEN rate_limits.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE rate_limits.reset_at END
+  RETURNING value INTO result;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_rate_limits(p_keys TEXT[])
+RETURNS TABLE (key TEXT, value NUMERIC)
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.key, r.value
+  FROM rate_limits r
+  WHERE r.key = ANY(p_keys)
+    AND r.reset_at > NOW()
+    AND (r.key LIKE 'user:' || auth.uid() || ':%' OR r.key LIKE 'ip:%');
+$$;
+
+REVOKE ALL ON FUNCTION increment_rate_limit(TEXT, NUMERIC, TIMESTAMPTZ) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_rate_limits(TEXT[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION increment_rate_limit(TEXT, NUMERIC, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_rate_limits(TEXT[]) TO authenticated;
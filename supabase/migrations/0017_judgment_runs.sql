@@ -0,0 +1,49 @@
+-- Telemetry for every judging job, completed or failed: time spent in each
+-- stage (milliseconds by stage name), audio length, token usage and an
+-- estimated cost. The id is the job id. judgment_id has no foreign key so a
+-- run's cost is still counted after its judgment is deleted.
+CREATE TABLE IF NOT EXISTS judgment_runs (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  judgment_id UUID,
+  correlation_id TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('video', 'audio', 'url', 'text', 'rejudge')),
+  status TEXT NOT NULL CHECK (status IN ('completed', 'failed')),
+  failed_stage TEXT,
+  error TEXT,
+  stages JSONB NOT NULL DEFAULT '{}',
+  total_ms INTEGER NOT NULL,
+  audio_seconds REAL,
+  transcribed_seconds REAL NOT NULL DEFAULT 0,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  llm_calls INTEGER NOT NULL DEFAULT 0,
+  estimated_cost_usd NUMERIC(12, 6),
+  judge_model TEXT,
+  transcription_model TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_judgment_runs_created_at ON judgment_runs (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_judgment_runs_user_id ON judgment_runs (user_id, created_at DESC);
+
+-- Who may open the admin page. Add rows by hand:
+--   INSERT INTO admins (user_id) SELECT id FROM auth.users WHERE email = 'you@example.com';
+CREATE TABLE IF NOT EXISTS admins (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE admins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users see whether they are admins" ON admins
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+ALTER TABLE judgment_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users record their own runs" ON judgment_runs
+  FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users read their own runs" ON judgment_runs
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Admins read every run" ON judgment_runs
+  FOR SELECT TO authenticated USING (EXISTS (SELECT 1 FROM admins WHERE admins.user_id = auth.uid()));
@@ -0,0 +1,5 @@
+-- Jobs can be cancelled by the user, or when nobody is watching them any
+-- more. Their runs are recorded too, as neither completed nor failed.
+ALTER TABLE judgment_runs DROP CONSTRAINT IF EXISTS judgment_runs_status_check;
+ALTER TABLE judgment_runs ADD CONSTRAINT judgment_runs_status_check
+  CHECK (status IN ('completed', 'failed', 'cancelled'));
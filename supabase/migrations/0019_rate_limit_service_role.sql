@@ -0,0 +1,85 @@
+-- Rate limit counters are only updated by the server, with the service role
+-- key. Signed-in users could otherwise call these functions through the API,
+-- e.g. with a negative amount to reset their own quota or on other people's
+-- per-address counters.
+REVOKE EXECUTE ON FUNCTION increment_rate_limit(TEXT, NUMERIC, TIMESTAMPTZ) FROM authenticated;
+REVOKE EXECUTE ON FUNCTION get_rate_limits(TEXT[]) FROM authenticated;
+
+CREATE OR REPLACE FUNCTION increment_rate_limit(p_key TEXT, p_amount NUMERIC, p_reset_at TIMESTAMPTZ)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  result NUMERIC;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Rate limit amounts must be positive';
+  END IF;
+
+  -- Windows that ended over a day ago are of no use to anyone
+  DELETE FROM rate_limits WHERE reset_at < NOW() - INTERVAL '1 day';
+
+  INSERT INTO rate_limits (key, value, reset_at)
+  VALUES (p_key, p_amount, p_reset_at)
+  ON CONFLICT (key) DO UPDATE SET
+    value = CASE WHEN rate_limits.reset_at <= NOW() THEN EXCLUDED.value ELSE rate_limits.value + EXCLUDED.value END,
+    reset_at = CASE WHEN rate_limits.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE rate_limits.reset_at END
+  RETURNING value INTO result;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_rate_limits(p_keys TEXT[])
+RETURNS TABLE (key TEXT, value NUMERIC)
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT r.key, r.value
+  FROM rate_limits r
+  WHERE r.key = ANY(p_keys) AND r.reset_at > NOW();
+$$;
+
+-- Add p_amount to every counter in p_keys, or to none of them when any would
+-- go over its limit in p_limits. Each row is locked before it is checked, so
+-- concurrent calls for the same counters wait for each other. Callers pass
+-- the keys in the same order to avoid deadlocks.
+CREATE OR REPLACE FUNCTION increment_rate_limits_within(
+  p_keys TEXT[], p_amount NUMERIC, p_limits NUMERIC[], p_reset_ats TIMESTAMPTZ[]
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  used NUMERIC;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Rate limit amounts must be positive';
+  END IF;
+
+  FOR i IN 1 .. COALESCE(array_length(p_keys, 1), 0) LOOP
+    INSERT INTO rate_limits (key, value, reset_at)
+    VALUES (p_keys[i], 0, p_reset_ats[i])
+    ON CONFLICT (key) DO UPDATE SET
+      value = CASE WHEN rate_limits.reset_at <= NOW() THEN 0 ELSE rate_limits.value END,
+      reset_at = CASE WHEN rate_limits.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE rate_limits.reset_at END
+    RETURNING value INTO used;
+
+    IF used + p_amount > p_limits[i] THEN
+      RETURN FALSE;
+    END IF;
+  END LOOP;
+
+  UPDATE rate_limits SET value = value + p_amount WHERE key = ANY(p_keys);
+  RETURN TRUE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION increment_rate_limit(TEXT, NUMERIC, TIMESTAMPTZ) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_rate_limits(TEXT[]) FROM PUBLIC;
+REVOKE ALL ON FUNCTION increment_rate_limits_within(TEXT[], NUMERIC, NUMERIC[], TIMESTAMPTZ[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION increment_rate_limit(TEXT, NUMERIC, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION get_rate_limits(TEXT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION increment_rate_limits_within(TEXT[], NUMERIC, NUMERIC[], TIMESTAMPTZ[]) TO service_role;
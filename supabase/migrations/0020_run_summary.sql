@@ -0,0 +1,61 @@
+-- Pipeline health for the admin page, aggregated in the database so it covers
+-- every run in the period rather than the first page PostgREST returns.
+-- Percentiles are nearest-rank. Runs as the caller, so only admins (see the
+-- "Admins read every run" policy) get everyone's runs.
+CREATE OR REPLACE FUNCTION summarize_judgment_runs(p_since TIMESTAMPTZ)
+RETURNS JSONB
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  WITH runs AS (
+    SELECT * FROM judgment_runs WHERE created_at >= p_since
+  ),
+  stage_times AS (
+    SELECT s.key AS stage, s.value::INTEGER AS ms
+    FROM runs r, jsonb_each_text(r.stages) s
+  )
+  SELECT jsonb_build_object(
+    'runs', (SELECT COUNT(*) FROM runs),
+    'completed', (SELECT COUNT(*) FROM runs WHERE status = 'completed'),
+    'failed', (SELECT COUNT(*) FROM runs WHERE status = 'failed'),
+    'cancelled', (SELECT COUNT(*) FROM runs WHERE status = 'cancelled'),
+    'other_failures', (SELECT COUNT(*) FROM runs WHERE status = 'failed' AND failed_stage IS NULL),
+    'per_day', (
+      SELECT COALESCE(jsonb_agg(d ORDER BY d."date"), '[]'::JSONB) FROM (
+        SELECT to_char(created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS "date",
+          COUNT(*) AS runs,
+          COUNT(*) FILTER (WHERE status = 'failed') AS failed,
+          COUNT(*) FILTER (WHERE status = 'cancelled') AS cancelled
+        FROM runs
+        GROUP BY 1
+      ) d
+    ),
+    -- Failed and cancelled runs stop early, so only completed ones say how long a judgment takes
+    'total', (
+      SELECT jsonb_build_object(
+        'p50', percentile_disc(0.5) WITHIN GROUP (ORDER BY total_ms),
+        'p95', percentile_disc(0.95) WITHIN GROUP (ORDER BY total_ms)
+      )
+      FROM runs WHERE status = 'completed'
+    ),
+    'stages', (
+      SELECT COALESCE(jsonb_agg(s), '[]'::JSONB) FROM (
+        SELECT t.stage,
+          COUNT(*) AS runs,
+          (SELECT COUNT(*) FROM runs WHERE status = 'failed' AND failed_stage = t.stage) AS failures,
+          percentile_disc(0.5) WITHIN GROUP (ORDER BY t.ms) AS p50,
+          percentile_disc(0.95) WITHIN GROUP (ORDER BY t.ms) AS p95
+        FROM stage_times t
+        GROUP BY t.stage
+      ) s
+    ),
+    'transcribed_seconds', (SELECT COALESCE(SUM(transcribed_seconds), 0) FROM runs),
+    'prompt_tokens', (SELECT COALESCE(SUM(prompt_tokens), 0) FROM runs),
+    'completion_tokens', (SELECT COALESCE(SUM(completion_tokens), 0) FROM runs),
+    'estimated_cost_usd', (SELECT COALESCE(SUM(estimated_cost_usd), 0) FROM runs),
+    'unpriced_runs', (SELECT COUNT(*) FROM runs WHERE estimated_cost_usd IS NULL)
+  );
+$$;
+
+REVOKE ALL ON FUNCTION summarize_judgment_runs(TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION summarize_judgment_runs(TIMESTAMPTZ) TO authenticated;
@@ -0,0 +1,7 @@
+-- The target platform and the judge panel change the verdict, so a judgment
+-- records both and is only reused for a re-upload made the same way. `panel`
+-- is a fingerprint of the personas that judged it; older rows have none and
+-- are never reused.
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS platform TEXT
+  CHECK (platform IN ('vertical', 'horizontal'));
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS panel TEXT;
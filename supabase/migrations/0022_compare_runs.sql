@@ -0,0 +1,5 @@
+-- Comparing two takes costs a judge model call too, so those calls are
+-- recorded alongside judging jobs.
+ALTER TABLE judgment_runs DROP CONSTRAINT IF EXISTS judgment_runs_kind_check;
+ALTER TABLE judgment_runs ADD CONSTRAINT judgment_runs_kind_check
+  CHECK (kind IN ('video', 'audio', 'url', 'text', 'rejudge', 'compare'));
@@ -0,0 +1,5 @@
+-- `language` holds the detected language, so it can't tell a judgment made
+-- with a language the user picked from one left to detection. The picked
+-- language is kept apart so duplicates are only found among judgments
+-- requested the same way; null means it was detected.
+ALTER TABLE judgments ADD COLUMN IF NOT EXISTS requested_language TEXT;
@@ -0,0 +1,37 @@
+-- Delete one version of a recording and keep the rest. Versions point at the
+-- original through source_id (ON DELETE CASCADE), so deleting the original
+-- first hands that role to its earliest remaining version. Runs as the
+-- caller, so row-level security limits it to their own judgments. Returns
+-- nothing when the judgment doesn't exist or isn't theirs.
+CREATE OR REPLACE FUNCTION delete_judgment_version(p_id UUID)
+RETURNS TABLE (deleted_storage_path TEXT, deleted_media_hash TEXT, versions_left INTEGER)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  target judgments%ROWTYPE;
+  root UUID;
+BEGIN
+  SELECT * INTO target FROM judgments WHERE id = p_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  root := target.source_id;
+  IF root IS NULL THEN
+    SELECT j.id INTO root FROM judgments j WHERE j.source_id = p_id ORDER BY j.version LIMIT 1;
+    IF root IS NOT NULL THEN
+      UPDATE judgments SET source_id = NULL WHERE id = root;
+      UPDATE judgments SET source_id = root WHERE source_id = p_id;
+    END IF;
+  END IF;
+
+  DELETE FROM judgments WHERE id = p_id;
+
+  RETURN QUERY SELECT target.storage_path, target.media_hash,
+    (SELECT COUNT(*)::INTEGER FROM judgments j WHERE root IS NOT NULL AND (j.id = root OR j.source_id = root));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION delete_judgment_version(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION delete_judgment_version(UUID) TO authenticated;